@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "interrupted" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,12 @@
+-- DropIndex
+DROP INDEX "conversations_userId_key";
+
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "title" TEXT NOT NULL DEFAULT 'New conversation';
+
+-- Existing single conversations keep their history under a recognisable name
+UPDATE "conversations" SET "title" = 'My conversation';
+
+-- CreateIndex
+CREATE INDEX "conversations_userId_archivedAt_lastMessageAt_idx" ON "conversations"("userId", "archivedAt", "lastMessageAt" DESC);
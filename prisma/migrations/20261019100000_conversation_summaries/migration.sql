@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "conversation_summaries" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "fromMessageId" TEXT NOT NULL,
+    "toMessageId" TEXT NOT NULL,
+    "coveredFrom" TIMESTAMP(3) NOT NULL,
+    "coveredUntil" TIMESTAMP(3) NOT NULL,
+    "messageCount" INTEGER NOT NULL,
+    "inputTokens" INTEGER,
+    "outputTokens" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversation_summaries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_summaries_conversationId_version_key" ON "conversation_summaries"("conversationId", "version");
+
+-- AddForeignKey
+ALTER TABLE "conversation_summaries" ADD CONSTRAINT "conversation_summaries_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "RiskLevel" AS ENUM ('NONE', 'LOW', 'MEDIUM', 'HIGH');
+
+-- CreateEnum
+CREATE TYPE "SafetyEventSource" AS ENUM ('USER_MESSAGE', 'ASSISTANT_MESSAGE');
+
+-- CreateEnum
+CREATE TYPE "SafetyEventStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "safety_events" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "source" "SafetyEventSource" NOT NULL,
+    "conversationId" TEXT,
+    "messageId" TEXT,
+    "excerpt" TEXT NOT NULL,
+    "riskLevel" "RiskLevel" NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "matchedRules" TEXT[],
+    "classifierResult" JSONB,
+    "locale" TEXT,
+    "status" "SafetyEventStatus" NOT NULL DEFAULT 'OPEN',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "safety_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "safety_events_status_createdAt_idx" ON "safety_events"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "safety_events_userId_createdAt_idx" ON "safety_events"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "safety_events" ADD CONSTRAINT "safety_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "planTier" TEXT NOT NULL DEFAULT 'free';
+
+-- CreateTable
+CREATE TABLE "token_usage_daily" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "cacheCreationTokens" INTEGER NOT NULL DEFAULT 0,
+    "cacheReadTokens" INTEGER NOT NULL DEFAULT 0,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "token_usage_daily_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "token_usage_daily_date_idx" ON "token_usage_daily"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "token_usage_daily_userId_date_key" ON "token_usage_daily"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "token_usage_daily" ADD CONSTRAINT "token_usage_daily_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
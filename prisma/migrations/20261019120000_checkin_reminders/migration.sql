@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "lastReminderSentAt" TIMESTAMP(3),
+ADD COLUMN     "reminderTime" TEXT,
+ADD COLUMN     "reminderTimezone" TEXT;
+
+-- CreateIndex
+CREATE INDEX "push_tokens_userId_idx" ON "push_tokens"("userId");
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "check_ins" ADD COLUMN     "backfilled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "editedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "check_in_revisions" (
+    "id" TEXT NOT NULL,
+    "checkInId" TEXT NOT NULL,
+    "overallMood" DOUBLE PRECISION NOT NULL,
+    "steps" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "check_in_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "check_in_revisions_checkInId_createdAt_idx" ON "check_in_revisions"("checkInId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "check_in_revisions" ADD CONSTRAINT "check_in_revisions_checkInId_fkey" FOREIGN KEY ("checkInId") REFERENCES "check_ins"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "questionnaire_templates" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "questions" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "questionnaire_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "check_ins" ADD COLUMN     "templateId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "questionnaire_templates_key_version_key" ON "questionnaire_templates"("key", "version");
+
+-- CreateIndex
+CREATE INDEX "questionnaire_templates_key_isActive_idx" ON "questionnaire_templates"("key", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "check_ins" ADD CONSTRAINT "check_ins_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "questionnaire_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the original five-step check-in as version 1 and point existing check-ins at it
+INSERT INTO "questionnaire_templates" ("id", "key", "version", "name", "isActive", "questions")
+VALUES ('daily-check-in-v1', 'daily-check-in', 1, 'Daily check-in', true, '[{"step": 1, "key": "emotional", "prompt": "How are you feeling emotionally right now?", "scale": {"min": 1, "max": 5}, "labels": {"1": "Heavy", "2": "Low", "3": "Even", "4": "Calm", "5": "Hopeful"}, "required": true, "scored": true}, {"step": 2, "key": "stress", "prompt": "How much stress or worry did you feel today?", "scale": {"min": 1, "max": 5}, "labels": {"1": "Heavy", "2": "Low", "3": "Even", "4": "Calm", "5": "Hopeful"}, "required": true, "scored": true}, {"step": 3, "key": "energy", "prompt": "How was your energy or motivation today?", "scale": {"min": 1, "max": 5}, "labels": {"1": "Heavy", "2": "Low", "3": "Even", "4": "Calm", "5": "Hopeful"}, "required": true, "scored": true}, {"step": 4, "key": "connection", "prompt": "How connected did you feel to others today?", "scale": {"min": 1, "max": 5}, "labels": {"1": "Heavy", "2": "Low", "3": "Even", "4": "Calm", "5": "Hopeful"}, "required": true, "scored": true}, {"step": 5, "key": "control", "prompt": "How in control did you feel today?", "scale": {"min": 1, "max": 5}, "labels": {"1": "Heavy", "2": "Low", "3": "Even", "4": "Calm", "5": "Hopeful"}, "required": true, "scored": true}]'::jsonb);
+
+UPDATE "check_ins" SET "templateId" = 'daily-check-in-v1';
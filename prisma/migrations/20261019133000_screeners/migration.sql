@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "ScreenerType" AS ENUM ('PHQ9', 'GAD7');
+
+-- AlterEnum
+ALTER TYPE "SafetyEventSource" ADD VALUE 'SCREENER';
+
+-- CreateTable
+CREATE TABLE "screener_results" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "ScreenerType" NOT NULL,
+    "responses" INTEGER[],
+    "totalScore" INTEGER NOT NULL,
+    "severity" TEXT NOT NULL,
+    "selfHarmFlag" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "screener_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "screener_results_userId_type_createdAt_idx" ON "screener_results"("userId", "type", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "screener_results" ADD CONSTRAINT "screener_results_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "DataExportStatus" AS ENUM ('PENDING', 'PROCESSING', 'READY', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "data_exports" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "DataExportStatus" NOT NULL DEFAULT 'PENDING',
+    "fileKey" TEXT,
+    "sizeBytes" INTEGER,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "data_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "data_exports_userId_createdAt_idx" ON "data_exports"("userId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "data_exports_status_completedAt_idx" ON "data_exports"("status", "completedAt");
+
+-- AddForeignKey
+ALTER TABLE "data_exports" ADD CONSTRAINT "data_exports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
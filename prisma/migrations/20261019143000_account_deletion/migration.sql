@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "deletionScheduledFor" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "account_deletion_audits" (
+    "id" TEXT NOT NULL,
+    "userIdHash" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_deletion_audits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "account_deletion_audits_userIdHash_idx" ON "account_deletion_audits"("userIdHash");
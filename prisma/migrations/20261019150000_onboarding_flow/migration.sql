@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "OnboardingEventType" AS ENUM ('STEP_COMPLETED', 'STEP_SKIPPED', 'COMPLETED', 'MIGRATED');
+
+-- AlterTable
+-- Existing users went through version 1 of the flow; new sign-ups start on the current one
+ALTER TABLE "user" ADD COLUMN     "onboardingVersion" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "user" ALTER COLUMN "onboardingVersion" SET DEFAULT 2;
+
+-- CreateTable
+CREATE TABLE "onboarding_events" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "flowVersion" INTEGER NOT NULL,
+    "stepId" TEXT,
+    "type" "OnboardingEventType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "onboarding_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "onboarding_events_flowVersion_type_idx" ON "onboarding_events"("flowVersion", "type");
+
+-- CreateIndex
+CREATE INDEX "onboarding_events_userId_idx" ON "onboarding_events"("userId");
+
+-- AddForeignKey
+ALTER TABLE "onboarding_events" ADD CONSTRAINT "onboarding_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "profile_changes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "oldValue" JSONB,
+    "newValue" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "profile_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "profile_changes_userId_createdAt_idx" ON "profile_changes"("userId", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "profile_changes" ADD CONSTRAINT "profile_changes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
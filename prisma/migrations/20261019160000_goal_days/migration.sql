@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "GoalRolloverPolicy" AS ENUM ('CARRY_OVER', 'ARCHIVE', 'ASK');
+
+-- CreateEnum
+CREATE TYPE "GoalRolloverOutcome" AS ENUM ('CARRIED_OVER', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "goalRolloverPolicy" "GoalRolloverPolicy" NOT NULL DEFAULT 'CARRY_OVER';
+
+-- AlterTable
+ALTER TABLE "daily_goals" ADD COLUMN     "carriedOverFromId" TEXT,
+ADD COLUMN     "date" TIMESTAMP(3),
+ADD COLUMN     "rolloverOutcome" "GoalRolloverOutcome";
+
+-- Attach existing goals to the local day they were created on, in the user's
+-- reminder timezone when it is a valid one and UTC otherwise. "date" holds the
+-- UTC instant of local midnight, like goals created by the app.
+UPDATE "daily_goals" AS g
+SET "date" = (
+    date_trunc('day', (g."createdAt" AT TIME ZONE 'UTC') AT TIME ZONE tz."name")
+    AT TIME ZONE tz."name"
+  ) AT TIME ZONE 'UTC'
+FROM (
+  SELECT u."id", COALESCE(z."name", 'UTC') AS "name"
+  FROM "user" AS u
+  LEFT JOIN pg_timezone_names AS z ON z."name" = u."reminderTimezone"
+) AS tz
+WHERE tz."id" = g."userId";
+
+ALTER TABLE "daily_goals" ALTER COLUMN "date" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "daily_goals_userId_date_idx" ON "daily_goals"("userId", "date");
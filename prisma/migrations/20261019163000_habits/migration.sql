@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "HabitSchedule" AS ENUM ('DAILY', 'WEEKDAYS', 'TIMES_PER_WEEK');
+
+-- AlterTable
+ALTER TABLE "daily_goals" ADD COLUMN     "habitId" TEXT;
+
+-- CreateTable
+CREATE TABLE "habits" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "goal" TEXT NOT NULL,
+    "schedule" "HabitSchedule" NOT NULL,
+    "weekdays" INTEGER[],
+    "timesPerWeek" INTEGER,
+    "pausedAt" TIMESTAMP(3),
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "habits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "habit_pauses" (
+    "id" TEXT NOT NULL,
+    "habitId" TEXT NOT NULL,
+    "startDay" TEXT NOT NULL,
+    "endDay" TEXT,
+
+    CONSTRAINT "habit_pauses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "habit_skips" (
+    "id" TEXT NOT NULL,
+    "habitId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "habit_skips_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "habits_userId_archivedAt_idx" ON "habits"("userId", "archivedAt");
+
+-- CreateIndex
+CREATE INDEX "habit_pauses_habitId_idx" ON "habit_pauses"("habitId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "habit_skips_habitId_date_key" ON "habit_skips"("habitId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_goals_habitId_date_key" ON "daily_goals"("habitId", "date");
+
+-- AddForeignKey
+ALTER TABLE "daily_goals" ADD CONSTRAINT "daily_goals_habitId_fkey" FOREIGN KEY ("habitId") REFERENCES "habits"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "habits" ADD CONSTRAINT "habits_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "habit_pauses" ADD CONSTRAINT "habit_pauses_habitId_fkey" FOREIGN KEY ("habitId") REFERENCES "habits"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "habit_skips" ADD CONSTRAINT "habit_skips_habitId_fkey" FOREIGN KEY ("habitId") REFERENCES "habits"("id") ON DELETE CASCADE ON UPDATE CASCADE;
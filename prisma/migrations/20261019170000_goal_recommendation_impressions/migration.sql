@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "goal_recommendation_impressions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "recommendationId" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goal_recommendation_impressions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "goal_recommendation_impressions_userId_createdAt_idx" ON "goal_recommendation_impressions"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goal_recommendation_impressions_userId_recommendationId_day_key" ON "goal_recommendation_impressions"("userId", "recommendationId", "day");
+
+-- AddForeignKey
+ALTER TABLE "goal_recommendation_impressions" ADD CONSTRAINT "goal_recommendation_impressions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "GoalEffort" AS ENUM ('LOW', 'MEDIUM', 'HIGH');
+
+-- CreateTable
+CREATE TABLE "goal_templates" (
+    "id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "effort" "GoalEffort" NOT NULL DEFAULT 'LOW',
+    "struggles" TEXT[],
+    "dimensions" TEXT[],
+    "tags" TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "goal_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "goal_template_translations" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+
+    CONSTRAINT "goal_template_translations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "goal_templates_isActive_idx" ON "goal_templates"("isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goal_template_translations_templateId_locale_key" ON "goal_template_translations"("templateId", "locale");
+
+-- AddForeignKey
+ALTER TABLE "goal_template_translations" ADD CONSTRAINT "goal_template_translations_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "goal_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the catalog that used to live in src/goals/constants.ts, keeping its
+-- ids so existing recommendation impressions still line up
+INSERT INTO "goal_templates" ("id", "text", "category", "effort", "struggles", "dimensions", "tags", "updatedAt")
+VALUES
+('drink-water', 'Drink 8 glasses of water today', 'nutrition', 'LOW', ARRAY[]::TEXT[], ARRAY['energy'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('walk-outside', 'Take a 10-minute walk outside', 'movement', 'LOW', ARRAY['depression', 'stress', 'anxiety'], ARRAY['energy', 'emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('reach-out-friend', 'Call or text a friend', 'connection', 'LOW', ARRAY['loneliness', 'grief'], ARRAY['connection'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('make-bed', 'Make my bed', 'routine', 'LOW', ARRAY['depression', 'motivation'], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('healthy-breakfast', 'Eat a healthy breakfast', 'nutrition', 'MEDIUM', ARRAY[]::TEXT[], ARRAY['energy'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('deep-breathing', 'Practice deep breathing for 5 minutes', 'mindfulness', 'LOW', ARRAY['anxiety', 'stress'], ARRAY['stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('gratitude-list', 'Write down 3 things I''m grateful for', 'reflection', 'LOW', ARRAY['depression', 'self-esteem'], ARRAY['emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('medications', 'Take my medications on time', 'self-care', 'LOW', ARRAY[]::TEXT[], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('shower-dress', 'Shower and get dressed', 'self-care', 'LOW', ARRAY['depression', 'grief'], ARRAY['energy', 'control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('stretching', 'Do 10 minutes of stretching', 'movement', 'LOW', ARRAY['stress', 'sleep'], ARRAY['stress', 'energy'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('read', 'Read for 15 minutes', 'rest', 'LOW', ARRAY['stress', 'sleep'], ARRAY['stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('favorite-music', 'Listen to my favorite music', 'rest', 'LOW', ARRAY['grief', 'depression'], ARRAY['emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('healthy-lunch', 'Prepare a healthy lunch', 'nutrition', 'MEDIUM', ARRAY[]::TEXT[], ARRAY['energy'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('organize-space', 'Organize one small area of my space', 'routine', 'MEDIUM', ARRAY['stress', 'motivation'], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('sunlight', 'Spend 10 minutes in the sun', 'movement', 'LOW', ARRAY['depression', 'sleep'], ARRAY['energy', 'emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('small-chore', 'Do a small chore (dishes, laundry, etc.)', 'routine', 'LOW', ARRAY['motivation', 'depression'], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('hobby', 'Practice a hobby I enjoy', 'creativity', 'MEDIUM', ARRAY['depression', 'stress'], ARRAY['emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('limit-social-media', 'Limit social media to 30 minutes', 'routine', 'MEDIUM', ARRAY['anxiety', 'self-esteem', 'sleep'], ARRAY['stress', 'control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('bedtime', 'Go to bed by 10 PM', 'rest', 'MEDIUM', ARRAY['sleep'], ARRAY['energy'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('journal', 'Journal about my day', 'reflection', 'MEDIUM', ARRAY['grief', 'anxiety', 'stress'], ARRAY['emotional', 'stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('meditate', 'Meditate for 10 minutes', 'mindfulness', 'MEDIUM', ARRAY['anxiety', 'stress', 'sleep'], ARRAY['stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('reach-out-therapist', 'Reach out to my therapist/counselor', 'support', 'MEDIUM', ARRAY['grief', 'depression', 'anxiety'], ARRAY['emotional', 'control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('cook-meal', 'Cook a meal from scratch', 'nutrition', 'HIGH', ARRAY[]::TEXT[], ARRAY['energy', 'control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('relaxing-bath', 'Take a relaxing bath', 'rest', 'LOW', ARRAY['stress', 'sleep'], ARRAY['stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('smile', 'Do one thing that makes me smile', 'self-care', 'LOW', ARRAY['depression', 'grief'], ARRAY['emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('animal-time', 'Pet or spend time with an animal', 'connection', 'LOW', ARRAY['loneliness', 'anxiety'], ARRAY['connection', 'stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('favorite-show', 'Watch a favorite show or movie', 'rest', 'LOW', ARRAY['stress', 'grief'], ARRAY['emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('work-task', 'Complete one work/school task', 'routine', 'MEDIUM', ARRAY['motivation'], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('say-no', 'Practice saying no to something', 'growth', 'MEDIUM', ARRAY['stress', 'self-esteem'], ARRAY['control', 'stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('take-break', 'Take a break when I need it', 'self-care', 'LOW', ARRAY['stress', 'anxiety'], ARRAY['stress', 'energy'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('three-meals', 'Eat three meals today', 'nutrition', 'MEDIUM', ARRAY['grief', 'depression'], ARRAY['energy'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('fresh-air', 'Open my windows for fresh air', 'self-care', 'LOW', ARRAY['depression'], ARRAY['energy'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('water-plants', 'Water my plants', 'routine', 'LOW', ARRAY[]::TEXT[], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('quick-cleanup', 'Do a 5-minute cleanup', 'routine', 'LOW', ARRAY['motivation', 'stress'], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('progress-notes', 'Take progress photos or notes', 'reflection', 'LOW', ARRAY['self-esteem', 'motivation'], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('support-group', 'Attend a support group or meeting', 'support', 'HIGH', ARRAY['grief', 'loneliness'], ARRAY['connection'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('new-recipe', 'Try a new healthy recipe', 'nutrition', 'HIGH', ARRAY[]::TEXT[], ARRAY['energy'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('act-of-kindness', 'Do a random act of kindness', 'connection', 'MEDIUM', ARRAY['loneliness', 'self-esteem'], ARRAY['connection', 'emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('declutter', 'Declutter one drawer or surface', 'routine', 'MEDIUM', ARRAY['stress'], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('avoided-appointment', 'Schedule an appointment I''ve been avoiding', 'growth', 'MEDIUM', ARRAY['anxiety', 'motivation'], ARRAY['control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('positive-self-talk', 'Practice positive self-talk', 'growth', 'LOW', ARRAY['self-esteem', 'depression'], ARRAY['emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('avoid-triggers', 'Avoid negative triggers today', 'self-care', 'MEDIUM', ARRAY['anxiety', 'grief'], ARRAY['stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('creative-project', 'Spend time on a creative project', 'creativity', 'MEDIUM', ARRAY['grief', 'depression'], ARRAY['emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('exercise', 'Exercise for 20 minutes', 'movement', 'HIGH', ARRAY['depression', 'stress', 'sleep'], ARRAY['energy', 'stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('mindful-eating', 'Practice mindfulness while eating', 'mindfulness', 'LOW', ARRAY['anxiety'], ARRAY['stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('nature', 'Connect with nature somehow', 'movement', 'LOW', ARRAY['stress', 'grief'], ARRAY['emotional', 'stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('guided-relaxation', 'Do a guided relaxation exercise', 'mindfulness', 'LOW', ARRAY['anxiety', 'sleep'], ARRAY['stress'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('celebrate-win', 'Celebrate a small win', 'reflection', 'LOW', ARRAY['self-esteem', 'motivation'], ARRAY['emotional', 'control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('ask-for-help', 'Ask for help when I need it', 'support', 'MEDIUM', ARRAY['loneliness', 'stress', 'grief'], ARRAY['connection', 'control'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP),
+('be-gentle', 'Be gentle with myself today', 'self-care', 'LOW', ARRAY['grief', 'self-esteem'], ARRAY['emotional'], ARRAY[]::TEXT[], CURRENT_TIMESTAMP);
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "daily_goals" ADD COLUMN     "notes" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "goal_steps" (
+    "id" TEXT NOT NULL,
+    "goalId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goal_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "goal_steps_goalId_position_idx" ON "goal_steps"("goalId", "position");
+
+-- AddForeignKey
+ALTER TABLE "goal_steps" ADD CONSTRAINT "goal_steps_goalId_fkey" FOREIGN KEY ("goalId") REFERENCES "daily_goals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Keep each day's goals in the order they were shown until now
+UPDATE "daily_goals" AS g
+SET "position" = ordered."position"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (
+        PARTITION BY "userId", "date"
+        ORDER BY "completed" ASC, "createdAt" DESC
+    ) - 1 AS "position"
+    FROM "daily_goals"
+) AS ordered
+WHERE g."id" = ordered."id";
@@ -11,6 +11,12 @@ import { ProfileModule } from './profile/profile.module';
 import { EmailModule } from './email/email.module';
 import { ChatModule } from './chat/chat.module';
 import { MediaModule } from './media/media.module';
+import { SafetyModule } from './safety/safety.module';
+import { UsageModule } from './usage/usage.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { QuestionnairesModule } from './questionnaires/questionnaires.module';
+import { ScreenersModule } from './screeners/screeners.module';
 
 @Module({
   imports: [
@@ -22,6 +28,12 @@ import { MediaModule } from './media/media.module';
     EmailModule,
     ChatModule,
     MediaModule,
+    SafetyModule,
+    UsageModule,
+    RateLimitModule,
+    NotificationsModule,
+    QuestionnairesModule,
+    ScreenersModule,
   ],
   controllers: [AppController],
   providers: [AppService, PrismaService],
@@ -1,23 +1,175 @@
-import { Controller, Delete, Get, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
 import {
   AuthGuard,
   Session,
   type UserSession,
 } from '@thallesp/nestjs-better-auth';
 import { AIChatService } from './chat.service';
+import { ConversationService } from './conversation.service';
+import { CreateConversationDto } from './dto/create-conversation.dto';
+import { UpdateConversationDto } from './dto/update-conversation.dto';
+import { GetMessagesQueryDto } from './dto/get-messages-query.dto';
+import { UsageService } from '../usage/usage.service';
+import { validateBody } from '../common/validate-body';
 
 @Controller('chat')
 @UseGuards(AuthGuard)
 export class ChatController {
-  constructor(private readonly aiChatService: AIChatService) {}
+  constructor(
+    private readonly aiChatService: AIChatService,
+    private readonly conversationService: ConversationService,
+    private readonly usageService: UsageService,
+  ) {}
+
+  /**
+   * GET /chat/usage
+   * Token budget used and remaining for today and this month
+   */
+  @Get('usage')
+  async getUsage(@Session() session: UserSession) {
+    const usage = await this.usageService.getUsage(session.user.id);
+    return {
+      data: usage,
+    };
+  }
 
+  /**
+   * GET /chat/conversation?before=<messageId>&limit=50
+   * Page through the most recently active thread, newest first
+   */
   @Get('conversation')
-  async getConversation(@Session() session: UserSession) {
-    return this.aiChatService.getConversationHistory(session.user.id);
+  async getConversation(
+    @Session() session: UserSession,
+    @Query() query: GetMessagesQueryDto,
+  ) {
+    return this.aiChatService.getConversationHistory(
+      session.user.id,
+      undefined,
+      query,
+    );
   }
 
   @Delete('clear-conversation')
   async clearConversation(@Session() session: UserSession) {
     return this.aiChatService.clearConversationHistory(session.user.id);
   }
+
+  /**
+   * GET /chat/conversations?includeArchived=true
+   * List the user's conversation threads
+   */
+  @Get('conversations')
+  async listConversations(
+    @Session() session: UserSession,
+    @Query('includeArchived') includeArchived?: string,
+  ) {
+    const conversations = await this.conversationService.listConversations(
+      session.user.id,
+      includeArchived === 'true',
+    );
+    return {
+      data: conversations,
+      count: conversations.length,
+    };
+  }
+
+  /**
+   * POST /chat/conversations
+   * Start a new conversation thread
+   */
+  @Post('conversations')
+  async createConversation(
+    @Session() session: UserSession,
+    @Body() body: unknown,
+  ) {
+    // The title is optional, so an empty request body is fine here
+    const dto = await validateBody(CreateConversationDto, body ?? {});
+    const conversation = await this.conversationService.createConversation(
+      session.user.id,
+      dto,
+    );
+    return {
+      data: conversation,
+      message: 'Conversation created successfully',
+    };
+  }
+
+  /**
+   * PATCH /chat/conversations/:id
+   * Rename or archive/unarchive a conversation thread
+   */
+  @Patch('conversations/:id')
+  async updateConversation(
+    @Session() session: UserSession,
+    @Param('id') conversationId: string,
+    @Body() body: unknown,
+  ) {
+    const dto = await validateBody(UpdateConversationDto, body);
+    const conversation = await this.conversationService.updateConversation(
+      session.user.id,
+      conversationId,
+      dto,
+    );
+    return {
+      data: conversation,
+      message: 'Conversation updated successfully',
+    };
+  }
+
+  /**
+   * DELETE /chat/conversations/:id
+   * Permanently delete a conversation thread
+   */
+  @Delete('conversations/:id')
+  async deleteConversation(
+    @Session() session: UserSession,
+    @Param('id') conversationId: string,
+  ) {
+    return this.conversationService.deleteConversation(
+      session.user.id,
+      conversationId,
+    );
+  }
+
+  /**
+   * GET /chat/conversations/:id/messages?before=<messageId>&limit=50
+   * Page through the message history of a single thread
+   */
+  @Get('conversations/:id/messages')
+  async getConversationMessages(
+    @Session() session: UserSession,
+    @Param('id') conversationId: string,
+    @Query() query: GetMessagesQueryDto,
+  ) {
+    return this.aiChatService.getConversationHistory(
+      session.user.id,
+      conversationId,
+      query,
+    );
+  }
+
+  /**
+   * DELETE /chat/conversations/:id/messages
+   * Clear the history of a single thread
+   */
+  @Delete('conversations/:id/messages')
+  async clearConversationMessages(
+    @Session() session: UserSession,
+    @Param('id') conversationId: string,
+  ) {
+    return this.aiChatService.clearConversationHistory(
+      session.user.id,
+      conversationId,
+    );
+  }
 }
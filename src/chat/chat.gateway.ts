@@ -8,18 +8,48 @@ import {
   WebSocketGateway,
   WebSocketServer,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
+import { DefaultEventsMap, Server, Socket } from 'socket.io';
 import { WsException } from '@nestjs/websockets';
 import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { createAdapter } from '@socket.io/redis-adapter';
 import { createClient } from 'redis';
+import { AuthService } from '@thallesp/nestjs-better-auth';
 import { AIChatService } from './chat.service';
+import { QuotaExceededException } from '../usage/quota-exceeded.exception';
+import { auth } from '../lib/auth';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+import { SafetyService } from '../safety/safety.service';
 
 interface SendMessageDto {
-  userId: string;
   message: string;
+  conversationId?: string;
+}
+
+interface ChatSocketData {
+  userId?: string;
+  locale?: string;
+}
+
+type ChatSocket = Socket<
+  DefaultEventsMap,
+  DefaultEventsMap,
+  DefaultEventsMap,
+  ChatSocketData
+>;
+
+interface SocketSession {
+  userId: string;
+  role?: string | null;
+  expiresAt: Date;
 }
 
+const ADMIN_ROLES = ['admin', 'superadmin'];
+const ADMIN_ROOM = 'admins';
+
+// How often connected sockets re-validate their session (catches revocation)
+const SESSION_RECHECK_INTERVAL_MS = 5 * 60 * 1000;
+
 @WebSocketGateway({
   cors: {
     origin: '*', // TODO: Update with your app's URL in production
@@ -32,14 +62,28 @@ export class ChatGateway
   server: Server;
 
   private readonly logger = new Logger(ChatGateway.name);
-  private userMessageCounts = new Map<
-    string,
-    { count: number; resetAt: number }
-  >();
+  private sessionTimers = new Map<string, NodeJS.Timeout[]>();
 
-  constructor(private readonly aiChatService: AIChatService) {}
+  constructor(
+    private readonly aiChatService: AIChatService,
+    private readonly authService: AuthService<typeof auth>,
+    private readonly rateLimitService: RateLimitService,
+    private readonly safetyService: SafetyService,
+  ) {}
 
   async afterInit() {
+    // Admins hear about every recorded event live, whatever raised it
+    this.safetyService.onEventRecorded((event) => {
+      this.server.to(ADMIN_ROOM).emit('safetyEvent', {
+        userId: event.userId,
+        conversationId: event.conversationId,
+        source: event.source,
+        riskLevel: event.riskLevel,
+        eventIds: [event.id],
+        timestamp: event.createdAt.toISOString(),
+      });
+    });
+
     const redisUrl = process.env.REDIS_URL;
 
     if (redisUrl) {
@@ -59,21 +103,42 @@ export class ChatGateway
     }
   }
 
-  async handleConnection(client: Socket) {
+  async handleConnection(client: ChatSocket) {
     try {
-      const userId = client.handshake.auth?.userId;
+      const headers = this.buildAuthHeaders(client);
+      const session = await this.resolveSession(headers);
 
-      if (!userId) {
-        this.logger.warn(`Connection rejected - no userId provided`);
+      if (!session) {
+        this.logger.warn(`Connection rejected - no valid session`);
+        client.emit('unauthorized', { message: 'Authentication required' });
         client.disconnect();
         return;
       }
 
+      const { userId } = session;
       client.data.userId = userId;
+      // Picks region-appropriate crisis resources
+      client.data.locale =
+        (client.handshake.auth as { locale?: string })?.locale ??
+        client.handshake.headers['accept-language'];
 
       const roomName = `user:${userId}`;
       await client.join(roomName);
 
+      // Admins receive live safety escalations
+      if (
+        session.role &&
+        session.role.split(',').some((role) => ADMIN_ROLES.includes(role))
+      ) {
+        await client.join(ADMIN_ROOM);
+      }
+
+      // The socket may have dropped during the awaits above; handleDisconnect
+      // has then already run and would never clear the timers
+      if (!client.connected) return;
+
+      this.watchSession(client, headers, session);
+
       this.logger.log(
         `Client connected: ${client.id} (User: ${userId}, Room: ${roomName})`,
       );
@@ -88,49 +153,156 @@ export class ChatGateway
     }
   }
 
-  async handleDisconnect(client: Socket) {
+  handleDisconnect(client: ChatSocket) {
+    this.clearSessionTimers(client.id);
+
     const userId = client.data.userId;
     this.logger.log(
       `Client disconnected: ${client.id} (User: ${userId || 'unknown'})`,
     );
   }
 
-  private checkRateLimit(userId: string): boolean {
-    const now = Date.now();
-    const userLimit = this.userMessageCounts.get(userId);
+  /**
+   * Build request headers for Better Auth from the socket handshake.
+   * Accepts the session cookie (web and the Expo plugin's cookie header)
+   * or a bearer token passed as `auth.token` in the handshake payload.
+   */
+  private buildAuthHeaders(client: ChatSocket): Headers {
+    const headers = new Headers();
+
+    for (const [key, value] of Object.entries(client.handshake.headers)) {
+      if (value === undefined) continue;
+      headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+    }
 
-    if (!userLimit || now > userLimit.resetAt) {
-      // Reset counter every minute
-      this.userMessageCounts.set(userId, {
-        count: 1,
-        resetAt: now + 60000, // 1 minute
-      });
-      return true;
+    const handshakeAuth = client.handshake.auth as {
+      token?: string;
+      cookie?: string;
+    };
+
+    if (handshakeAuth?.token && !headers.has('authorization')) {
+      headers.set('authorization', `Bearer ${handshakeAuth.token}`);
+    }
+
+    if (handshakeAuth?.cookie && !headers.has('cookie')) {
+      headers.set('cookie', handshakeAuth.cookie);
+    }
+
+    return headers;
+  }
+
+  /**
+   * Resolve the session behind the given headers.
+   * Returns null when there is no session or the user is currently banned.
+   */
+  private async resolveSession(
+    headers: Headers,
+  ): Promise<SocketSession | null> {
+    const result = await this.authService.api.getSession({
+      headers,
+      query: { disableCookieCache: true },
+    });
+
+    if (!result) return null;
+
+    const user = result.user as typeof result.user & {
+      banned?: boolean | null;
+      banExpires?: Date | null;
+    };
+
+    if (user.banned) {
+      const banExpires = user.banExpires ? new Date(user.banExpires) : null;
+      if (!banExpires || banExpires > new Date()) {
+        this.logger.warn(`Connection rejected - user ${user.id} is banned`);
+        return null;
+      }
     }
 
-    if (userLimit.count >= 10) {
-      // Max 10 messages per minute
-      return false;
+    return {
+      userId: user.id,
+      role: user.role,
+      expiresAt: new Date(result.session.expiresAt),
+    };
+  }
+
+  /**
+   * Disconnect the socket when its session expires, and periodically
+   * re-validate it so revoked sessions and new bans take effect.
+   */
+  private watchSession(
+    client: ChatSocket,
+    headers: Headers,
+    session: SocketSession,
+  ) {
+    const endSession = (reason: string) => {
+      this.logger.log(`Disconnecting ${client.id}: ${reason}`);
+      client.emit('sessionExpired', { message: reason });
+      client.disconnect(true);
+    };
+
+    // setTimeout overflows past ~24.8 days; the recheck covers longer sessions
+    const msUntilExpiry = session.expiresAt.getTime() - Date.now();
+    const timers: NodeJS.Timeout[] = [];
+
+    if (msUntilExpiry < 2 ** 31 - 1) {
+      timers.push(
+        setTimeout(
+          () => endSession('Session expired'),
+          Math.max(msUntilExpiry, 0),
+        ),
+      );
     }
 
-    userLimit.count++;
-    return true;
+    timers.push(
+      setInterval(() => {
+        this.resolveSession(headers)
+          .then((current) => {
+            if (!current || current.userId !== session.userId) {
+              endSession('Session no longer valid');
+            }
+          })
+          .catch((error: Error) => {
+            this.logger.warn(
+              `Session recheck failed for ${client.id}: ${error.message}`,
+            );
+          });
+      }, SESSION_RECHECK_INTERVAL_MS),
+    );
+
+    this.sessionTimers.set(client.id, timers);
+  }
+
+  private clearSessionTimers(clientId: string) {
+    const timers = this.sessionTimers.get(clientId);
+    if (!timers) return;
+
+    timers.forEach((timer) => clearTimeout(timer));
+    this.sessionTimers.delete(clientId);
   }
 
   @SubscribeMessage('sendMessage')
   async handleSendMessage(
     @MessageBody() data: SendMessageDto,
-    @ConnectedSocket() client: Socket,
+    @ConnectedSocket() client: ChatSocket,
   ) {
     try {
-      const { userId, message } = data;
+      const { message, conversationId } = data;
+      const userId = client.data.userId;
 
-      if (!this.checkRateLimit(userId)) {
-        throw new WsException('Too many messages. Please wait a moment.');
+      if (!userId) {
+        throw new WsException('Unauthorized');
       }
 
-      if (userId !== client.data.userId) {
-        throw new WsException('Unauthorized: userId mismatch');
+      // Counted in Redis so the limit holds across gateway instances
+      const rateLimit = await this.rateLimitService.consume(
+        'chat:sendMessage',
+        userId,
+      );
+      if (!rateLimit.allowed) {
+        throw new WsException({
+          message: 'Too many messages. Please wait a moment.',
+          retryAfter: Math.ceil(rateLimit.retryAfterMs / 1000),
+        });
       }
 
       if (!message || message.trim().length === 0) {
@@ -144,21 +316,47 @@ export class ChatGateway
       // Emit typing indicator
       this.server.to(`user:${userId}`).emit('typing', { typing: true });
 
+      // Lets the client stitch deltas together before the messageId exists
+      const streamId = randomUUID();
+
       try {
-        // Call AI service
+        // Call AI service, forwarding partial text as it streams in
         const result = await this.aiChatService.handleUserMessage({
           userId,
           message,
+          conversationId,
+          locale: client.data.locale,
+          onDelta: (delta) => {
+            this.server.to(`user:${userId}`).emit('messageDelta', {
+              streamId,
+              delta,
+            });
+          },
         });
 
-        // Send AI response
+        this.server.to(`user:${userId}`).emit('messageComplete', {
+          streamId,
+          messageId: result.messageId,
+          conversationId: result.conversationId,
+          content: result.assistantMessage,
+          timestamp: new Date().toISOString(),
+          tokens: result.tokens,
+          contextRefreshed: result.contextRefreshed,
+          interrupted: result.interrupted,
+          safety: result.safety,
+        });
+
+        // Full response for app builds that don't handle streaming
         this.server.to(`user:${userId}`).emit('messageResponse', {
           role: 'assistant',
           content: result.assistantMessage,
           messageId: result.messageId,
+          conversationId: result.conversationId,
           timestamp: new Date().toISOString(),
           tokens: result.tokens,
           contextRefreshed: result.contextRefreshed,
+          interrupted: result.interrupted,
+          safety: result.safety,
         });
 
         this.logger.log(
@@ -181,6 +379,16 @@ export class ChatGateway
         .to(`user:${client.data.userId}`)
         .emit('typing', { typing: false });
 
+      // Already shaped for the client (e.g. rate limit with retryAfter)
+      if (error instanceof WsException) {
+        throw error;
+      }
+
+      // Pass the scope and reset time through so the app can show them
+      if (error instanceof QuotaExceededException) {
+        throw new WsException(error.getResponse() as object);
+      }
+
       throw new WsException(error.message || 'Failed to process message');
     }
   }
@@ -2,9 +2,33 @@ import { Module } from '@nestjs/common';
 import { ChatGateway } from './chat.gateway';
 import { AIChatService } from './chat.service';
 import { ChatController } from './chat.controller';
+import { ConversationService } from './conversation.service';
+import { SummarizationService } from './summarization.service';
+import { SafetyModule } from '../safety/safety.module';
+import { UsageModule } from '../usage/usage.module';
+import { QuestionnairesModule } from '../questionnaires/questionnaires.module';
+import { ScreenersModule } from '../screeners/screeners.module';
+import { ProfileModule } from '../profile/profile.module';
+import { PromptGuardService } from './prompt-guard/prompt-guard.service';
+import { PROMPT_GUARD_DETECTORS } from './prompt-guard/prompt-guard.types';
+import { DEFAULT_GUARD_DETECTORS } from './prompt-guard/detectors';
 
 @Module({
-  providers: [ChatGateway, AIChatService],
+  imports: [
+    SafetyModule,
+    UsageModule,
+    QuestionnairesModule,
+    ScreenersModule,
+    ProfileModule,
+  ],
+  providers: [
+    ChatGateway,
+    AIChatService,
+    ConversationService,
+    SummarizationService,
+    PromptGuardService,
+    { provide: PROMPT_GUARD_DETECTORS, useValue: DEFAULT_GUARD_DETECTORS },
+  ],
   controllers: [ChatController],
 })
 export class ChatModule {}
@@ -0,0 +1,51 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConversationService } from './conversation.service';
+import { PrismaService } from '../database/database.service';
+
+describe('ConversationService', () => {
+  let service: ConversationService;
+  const prisma = {
+    conversation: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<ConversationService>(ConversationService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('rejects conversations owned by another user', async () => {
+    prisma.conversation.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.resolveConversation('user-1', 'someone-elses'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('creates a first conversation when the user has none', async () => {
+    prisma.conversation.findFirst.mockResolvedValue(null);
+    prisma.conversation.create.mockResolvedValue({ id: 'new' });
+
+    await expect(service.resolveConversation('user-1')).resolves.toEqual({
+      id: 'new',
+    });
+    expect(prisma.conversation.create).toHaveBeenCalledWith({
+      data: { userId: 'user-1' },
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../database/database.service';
+import { CreateConversationDto } from './dto/create-conversation.dto';
+import { UpdateConversationDto } from './dto/update-conversation.dto';
+
+@Injectable()
+export class ConversationService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * List the user's conversation threads, most recently active first
+   */
+  async listConversations(userId: string, includeArchived = false) {
+    return this.prisma.conversation.findMany({
+      where: {
+        userId,
+        ...(!includeArchived && { archivedAt: null }),
+      },
+      orderBy: [{ lastMessageAt: { sort: 'desc', nulls: 'last' } }],
+      select: {
+        id: true,
+        title: true,
+        totalMessages: true,
+        totalTokensUsed: true,
+        lastMessageAt: true,
+        archivedAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+  }
+
+  /**
+   * Start a new conversation thread
+   */
+  async createConversation(userId: string, dto: CreateConversationDto) {
+    return this.prisma.conversation.create({
+      data: {
+        userId,
+        ...(dto.title && { title: dto.title.trim() }),
+      },
+    });
+  }
+
+  /**
+   * Rename and/or archive a conversation thread
+   */
+  async updateConversation(
+    userId: string,
+    conversationId: string,
+    dto: UpdateConversationDto,
+  ) {
+    await this.getOwnedConversation(userId, conversationId);
+
+    return this.prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        ...(dto.title !== undefined && { title: dto.title.trim() }),
+        ...(dto.archived !== undefined && {
+          archivedAt: dto.archived ? new Date() : null,
+        }),
+      },
+    });
+  }
+
+  /**
+   * Permanently delete a conversation thread and its messages
+   */
+  async deleteConversation(userId: string, conversationId: string) {
+    await this.getOwnedConversation(userId, conversationId);
+
+    await this.prisma.conversation.delete({
+      where: { id: conversationId },
+    });
+
+    return { message: 'Conversation deleted successfully' };
+  }
+
+  /**
+   * Fetch a conversation, making sure it belongs to the user
+   */
+  async getOwnedConversation(userId: string, conversationId: string) {
+    const conversation = await this.prisma.conversation.findFirst({
+      where: { id: conversationId, userId },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Resolve the conversation a message belongs to.
+   * Without an id, falls back to the most recently active open thread,
+   * creating one for first-time users.
+   */
+  async resolveConversation(userId: string, conversationId?: string) {
+    if (conversationId) {
+      return this.getOwnedConversation(userId, conversationId);
+    }
+
+    const latest = await this.findDefaultConversation(userId);
+    if (latest) return latest;
+
+    return this.prisma.conversation.create({
+      data: { userId },
+    });
+  }
+
+  /**
+   * Most recently active non-archived conversation, if any
+   */
+  async findDefaultConversation(userId: string) {
+    return this.prisma.conversation.findFirst({
+      where: { userId, archivedAt: null },
+      orderBy: [
+        { lastMessageAt: { sort: 'desc', nulls: 'last' } },
+        { createdAt: 'desc' },
+      ],
+    });
+  }
+}
@@ -0,0 +1,9 @@
+import { IsOptional, IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class CreateConversationDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  title?: string;
+}
@@ -0,0 +1,25 @@
+import { IsOptional, IsInt, IsIn, IsString, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class GetMessagesQueryDto {
+  // Message id - return messages older than this one
+  @IsOptional()
+  @IsString()
+  before?: string;
+
+  // Message id - return messages newer than this one
+  @IsOptional()
+  @IsString()
+  after?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 50;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc' = 'desc';
+}
@@ -0,0 +1,158 @@
+import { GuardDetector, GuardFinding } from './prompt-guard.types';
+
+/**
+ * Rejects messages over the length the app allows
+ */
+export class MessageLengthDetector implements GuardDetector {
+  readonly name = 'message-length';
+  readonly stage = 'input';
+  readonly defaultAction = 'block';
+
+  constructor(private readonly maxLength = 2000) {}
+
+  inspect(text: string): GuardFinding | null {
+    if (text.length <= this.maxLength) return null;
+    return {
+      reason: `Message is ${text.length} characters`,
+      userMessage: `Message too long. Please keep messages under ${this.maxLength} characters.`,
+    };
+  }
+}
+
+/**
+ * Attempts to override the coach's role or instructions
+ */
+export class InstructionOverrideDetector implements GuardDetector {
+  readonly name = 'instruction-override';
+  readonly stage = 'input';
+  readonly defaultAction = 'flag';
+
+  private readonly patterns = [
+    /ignore\s+(all\s+)?(the\s+|your\s+)?(previous|prior|earlier|above)\s+(instructions?|prompts?|rules)/i,
+    /disregard\s+(all\s+)?(the\s+|your\s+)?(previous|prior|above)\s+(instructions?|prompts?|rules)/i,
+    /forget\s+(everything\s+(you\s+were\s+told|above)|all\s+(your\s+)?(rules|instructions)|your\s+(role|rules|instructions))/i,
+    /you\s+are\s+now\s+(a|an|in)\s+/i,
+    /new\s+instructions?\s*:/i,
+    /^\s*(system|assistant)\s*:/im,
+    /(pretend|act)\s+(that\s+)?(you\s+are|you'?re|to\s+be|as\s+if\s+you)\s+(not\s+)?(an?\s+)?(ai|unrestricted|unfiltered|different|another|evil)/i,
+    /\b(developer|god|jailbreak|dan)\s+mode\b/i,
+    /(reveal|show|print|repeat|output|tell\s+me)\s+(me\s+)?(your|the)\s+(full\s+|exact\s+|hidden\s+)?(system\s+prompt|instructions|initial\s+prompt|rules)/i,
+    /what\s+(is|are)\s+your\s+(system\s+prompt|instructions)/i,
+  ];
+
+  inspect(text: string): GuardFinding | null {
+    const match = this.patterns.find((pattern) => pattern.test(text));
+    if (!match) return null;
+    return { reason: `Matched ${match.source.substring(0, 60)}` };
+  }
+}
+
+/**
+ * Chat-template control tokens from other model families
+ */
+export class TemplateTokenDetector implements GuardDetector {
+  readonly name = 'template-tokens';
+  readonly stage = 'input';
+  readonly defaultAction = 'sanitize';
+
+  private readonly pattern =
+    /<\|(im_start|im_end|system|user|assistant|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>|<\/?(system|instructions?)>/gi;
+
+  inspect(text: string): GuardFinding | null {
+    const matches = text.match(this.pattern);
+    if (!matches) return null;
+    return {
+      reason: `Found template tokens: ${[...new Set(matches)].join(', ')}`,
+      sanitized: text.replace(this.pattern, '').trim(),
+    };
+  }
+}
+
+/**
+ * Unusually dense markup, often a sign of a pasted payload
+ */
+export class SpecialCharacterDetector implements GuardDetector {
+  readonly name = 'special-characters';
+  readonly stage = 'input';
+  readonly defaultAction = 'flag';
+
+  constructor(private readonly threshold = 20) {}
+
+  inspect(text: string): GuardFinding | null {
+    const count = (text.match(/[<>{}[\]|\\]/g) || []).length;
+    if (count <= this.threshold) return null;
+    return { reason: `High special character count: ${count}` };
+  }
+}
+
+/**
+ * Replies that reproduce runs of the actual system prompt.
+ * Compares word shingles, so paraphrases and passing mentions of
+ * "instructions" don't trigger it.
+ */
+export class SystemPromptLeakDetector implements GuardDetector {
+  readonly name = 'system-prompt-leak';
+  readonly stage = 'output';
+  readonly defaultAction = 'block';
+
+  private cachedSource?: string;
+  private cachedShingles = new Set<string>();
+
+  constructor(
+    private readonly shingleSize = 8,
+    private readonly minMatches = 2,
+  ) {}
+
+  inspect(
+    text: string,
+    context: { protectedText?: string },
+  ): GuardFinding | null {
+    if (!context.protectedText) return null;
+
+    const protectedShingles = this.getProtectedShingles(context.protectedText);
+    const words = this.normalize(text);
+    let matches = 0;
+
+    for (let i = 0; i + this.shingleSize <= words.length; i++) {
+      const shingle = words.slice(i, i + this.shingleSize).join(' ');
+      if (protectedShingles.has(shingle)) matches++;
+      if (matches >= this.minMatches) {
+        return {
+          reason: `Reply reproduces ${matches}+ ${this.shingleSize}-word runs of the system prompt`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private getProtectedShingles(source: string): Set<string> {
+    if (source !== this.cachedSource) {
+      const words = this.normalize(source);
+      this.cachedShingles = new Set(
+        words
+          .map((_, i) => words.slice(i, i + this.shingleSize))
+          .filter((shingle) => shingle.length === this.shingleSize)
+          .map((shingle) => shingle.join(' ')),
+      );
+      this.cachedSource = source;
+    }
+    return this.cachedShingles;
+  }
+
+  private normalize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9'\s]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean);
+  }
+}
+
+export const DEFAULT_GUARD_DETECTORS: GuardDetector[] = [
+  new MessageLengthDetector(),
+  new TemplateTokenDetector(),
+  new InstructionOverrideDetector(),
+  new SpecialCharacterDetector(),
+  new SystemPromptLeakDetector(),
+];
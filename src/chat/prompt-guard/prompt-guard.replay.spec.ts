@@ -0,0 +1,66 @@
+import { PromptGuardService } from './prompt-guard.service';
+import { DEFAULT_GUARD_DETECTORS } from './detectors';
+import { STATIC_SYSTEM_PROMPT } from '../system-prompt';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+interface GuardCorpus {
+  input: { text: string; malicious: boolean }[];
+  output: { text: string; leak: boolean }[];
+}
+
+const corpus = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures', 'guard-corpus.json'), 'utf8'),
+) as GuardCorpus;
+
+/**
+ * Replays the fixture corpus through the default pipeline and reports
+ * false-positive / false-negative rates. Add misclassified real-world
+ * messages to the corpus when tuning detectors.
+ */
+describe('PromptGuard replay', () => {
+  const guard = new PromptGuardService(DEFAULT_GUARD_DETECTORS);
+
+  const rates = (results: { expected: boolean; detected: boolean }[]) => {
+    const positives = results.filter((r) => r.expected);
+    const negatives = results.filter((r) => !r.expected);
+    return {
+      falsePositiveRate:
+        negatives.filter((r) => r.detected).length / negatives.length,
+      falseNegativeRate:
+        positives.filter((r) => !r.detected).length / positives.length,
+    };
+  };
+
+  it('keeps input detection within tolerated error rates', () => {
+    const results = corpus.input.map((sample) => ({
+      expected: sample.malicious,
+      detected: guard.inspectInput(sample.text).action !== 'allow',
+    }));
+    const { falsePositiveRate, falseNegativeRate } = rates(results);
+
+    console.log(
+      `Input guard: FPR ${(falsePositiveRate * 100).toFixed(1)}%, FNR ${(falseNegativeRate * 100).toFixed(1)}% over ${results.length} samples`,
+    );
+
+    expect(falsePositiveRate).toBeLessThanOrEqual(0.1);
+    expect(falseNegativeRate).toBeLessThanOrEqual(0.25);
+  });
+
+  it('keeps system prompt leak detection within tolerated error rates', () => {
+    const results = corpus.output.map((sample) => ({
+      expected: sample.leak,
+      detected:
+        guard.inspectOutput(sample.text, STATIC_SYSTEM_PROMPT).action ===
+        'block',
+    }));
+    const { falsePositiveRate, falseNegativeRate } = rates(results);
+
+    console.log(
+      `Leak guard: FPR ${(falsePositiveRate * 100).toFixed(1)}%, FNR ${(falseNegativeRate * 100).toFixed(1)}% over ${results.length} samples`,
+    );
+
+    expect(falsePositiveRate).toBe(0);
+    expect(falseNegativeRate).toBeLessThanOrEqual(0.2);
+  });
+});
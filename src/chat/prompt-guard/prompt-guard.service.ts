@@ -0,0 +1,168 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  GUARD_ACTIONS,
+  GuardAction,
+  GuardContext,
+  GuardDetector,
+  GuardedStream,
+  GuardResult,
+  GuardStage,
+  GuardVerdict,
+  PROMPT_GUARD_DETECTORS,
+} from './prompt-guard.types';
+
+type ActionOverride = GuardAction | 'off';
+
+@Injectable()
+export class PromptGuardService {
+  private readonly logger = new Logger(PromptGuardService.name);
+  private readonly overrides: Record<string, ActionOverride>;
+
+  constructor(
+    @Inject(PROMPT_GUARD_DETECTORS)
+    private readonly detectors: GuardDetector[],
+  ) {
+    // e.g. PROMPT_GUARD_ACTIONS='{"instruction-override":"block","special-characters":"off"}'
+    this.overrides = this.parseOverrides(process.env.PROMPT_GUARD_ACTIONS);
+  }
+
+  /**
+   * Run the input detectors over a user message
+   */
+  inspectInput(text: string): GuardResult {
+    return this.run('input', text, {});
+  }
+
+  /**
+   * Run the output detectors over a model reply
+   */
+  inspectOutput(text: string, protectedText: string): GuardResult {
+    return this.run('output', text, { protectedText });
+  }
+
+  /**
+   * Forward streamed reply text to the client only while the output
+   * detectors pass. The last few words are held back so a leak is caught
+   * before the text that completes it goes out.
+   */
+  guardOutputStream(
+    protectedText: string,
+    onDelta: (delta: string) => void,
+    holdBackWords = 16,
+  ): GuardedStream {
+    let text = '';
+    let sent = 0;
+    let blocked = false;
+
+    const release = (end: number) => {
+      if (end <= sent) return;
+      onDelta(text.slice(sent, end));
+      sent = end;
+    };
+
+    return {
+      push: (delta) => {
+        if (blocked) return;
+        text += delta;
+
+        const result = this.run('output', text, { protectedText }, false);
+        if (result.action === 'block') {
+          blocked = true;
+          return;
+        }
+
+        const words = [...text.matchAll(/\S+/g)];
+        if (words.length > holdBackWords) {
+          release(words[words.length - holdBackWords].index);
+        }
+      },
+      flush: () => {
+        if (!blocked) release(text.length);
+      },
+      get blocked() {
+        return blocked;
+      },
+    };
+  }
+
+  private run(
+    stage: GuardStage,
+    text: string,
+    context: GuardContext,
+    log = true,
+  ) {
+    const result: GuardResult = { action: 'allow', text, verdicts: [] };
+
+    for (const detector of this.detectors) {
+      if (detector.stage !== stage) continue;
+
+      const action = this.overrides[detector.name] ?? detector.defaultAction;
+      if (action === 'off') continue;
+
+      const finding = detector.inspect(result.text, context);
+      if (!finding) continue;
+
+      // A detector without a cleaned-up version can only flag
+      const applied: GuardAction =
+        action === 'sanitize' && finding.sanitized === undefined
+          ? 'flag'
+          : action;
+
+      const verdict: GuardVerdict = {
+        detector: detector.name,
+        action: applied,
+        reason: finding.reason,
+      };
+      result.verdicts.push(verdict);
+
+      if (applied === 'sanitize') {
+        result.text = finding.sanitized!;
+      }
+
+      if (applied === 'block') {
+        result.userMessage = finding.userMessage;
+      }
+
+      if (this.severity(applied) > this.severity(result.action)) {
+        result.action = applied;
+      }
+
+      if (log && applied !== 'allow') {
+        this.logger.warn(
+          `Prompt guard ${stage} ${applied} by ${detector.name}: ${finding.reason}`,
+        );
+      }
+
+      // Nothing after a block changes the outcome
+      if (applied === 'block') break;
+    }
+
+    return result;
+  }
+
+  private severity(action: GuardAction): number {
+    return GUARD_ACTIONS.indexOf(action);
+  }
+
+  private parseOverrides(raw?: string): Record<string, ActionOverride> {
+    if (!raw) return {};
+
+    try {
+      const parsed = JSON.parse(raw) as Record<string, string>;
+      const valid: Record<string, ActionOverride> = {};
+
+      for (const [name, action] of Object.entries(parsed)) {
+        if (action === 'off' || GUARD_ACTIONS.includes(action as GuardAction)) {
+          valid[name] = action as ActionOverride;
+        } else {
+          this.logger.warn(`Ignoring invalid action "${action}" for ${name}`);
+        }
+      }
+
+      return valid;
+    } catch {
+      this.logger.error('PROMPT_GUARD_ACTIONS is not valid JSON - ignoring');
+      return {};
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// Ordered from least to most severe
+export const GUARD_ACTIONS = ['allow', 'flag', 'sanitize', 'block'] as const;
+
+export type GuardAction = (typeof GUARD_ACTIONS)[number];
+
+export type GuardStage = 'input' | 'output';
+
+export interface GuardContext {
+  // Text that must never be echoed back (the system prompt)
+  protectedText?: string;
+}
+
+export interface GuardFinding {
+  reason: string;
+  // Shown to the user when the finding blocks their message
+  userMessage?: string;
+  // Cleaned-up text, used when the detector's action is "sanitize"
+  sanitized?: string;
+}
+
+export interface GuardDetector {
+  readonly name: string;
+  readonly stage: GuardStage;
+  readonly defaultAction: GuardAction;
+  // Returns null when the text is clean
+  inspect(text: string, context: GuardContext): GuardFinding | null;
+}
+
+export interface GuardVerdict {
+  detector: string;
+  action: GuardAction;
+  reason: string;
+}
+
+export interface GuardResult {
+  action: GuardAction;
+  text: string;
+  verdicts: GuardVerdict[];
+  userMessage?: string;
+}
+
+// Streamed reply text that is only forwarded while the output detectors pass
+export interface GuardedStream {
+  push(delta: string): void;
+  // Releases the held-back tail once the full reply has passed the guard
+  flush(): void;
+  readonly blocked: boolean;
+}
+
+export const PROMPT_GUARD_DETECTORS = Symbol('PROMPT_GUARD_DETECTORS');
@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HistoryMessage, SummarizationService } from './summarization.service';
+import { PrismaService } from '../database/database.service';
+import { UsageService } from '../usage/usage.service';
+import { Prisma } from '../../generated/prisma';
+
+const buildHistory = (turns: number): HistoryMessage[] =>
+  Array.from({ length: turns * 2 }, (_, i) => ({
+    id: `msg-${i}`,
+    role: i % 2 === 0 ? 'USER' : 'ASSISTANT',
+    content: 'x'.repeat(400),
+    createdAt: new Date(2026, 0, 1, 0, i),
+  }));
+
+describe('SummarizationService', () => {
+  let service: SummarizationService;
+  const prisma = {
+    conversationSummary: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+  const usageService = { recordUsage: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    process.env.CHAT_SUMMARY_TOKEN_BUDGET = '1000';
+    process.env.CHAT_SUMMARY_RECENT_TURNS = '2';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SummarizationService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: UsageService, useValue: usageService },
+      ],
+    }).compile();
+
+    service = module.get<SummarizationService>(SummarizationService);
+  });
+
+  afterEach(() => {
+    delete process.env.CHAT_SUMMARY_TOKEN_BUDGET;
+    delete process.env.CHAT_SUMMARY_RECENT_TURNS;
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('leaves history alone while under the token budget', async () => {
+    const history = buildHistory(2);
+
+    const result = await service.compact('user-1', 'conv-1', null, history);
+
+    expect(result).toEqual({ summary: null, history });
+    expect(prisma.conversationSummary.create).not.toHaveBeenCalled();
+  });
+
+  it('folds everything but the recent turns into a new summary version', async () => {
+    const history = buildHistory(10);
+    jest.spyOn(service['anthropic'].messages, 'create').mockResolvedValue({
+      content: [{ type: 'text', text: 'The user talked a lot.' }],
+      usage: { input_tokens: 900, output_tokens: 20 },
+    } as never);
+    prisma.conversationSummary.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'summary-1', ...data }),
+    );
+
+    const result = await service.compact('user-1', 'conv-1', null, history);
+
+    const [[args]] = prisma.conversationSummary.create.mock.calls as [
+      [{ data: Record<string, unknown> }],
+    ];
+    expect(result.history).toEqual(history.slice(16));
+    expect(usageService.recordUsage).toHaveBeenCalledWith('user-1', {
+      inputTokens: 900,
+      outputTokens: 20,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    });
+    expect(args.data).toMatchObject({
+      version: 1,
+      fromMessageId: 'msg-0',
+      toMessageId: 'msg-15',
+      messageCount: 16,
+    });
+  });
+
+  it('falls back to verbatim history when summarizing fails', async () => {
+    const history = buildHistory(10);
+    jest
+      .spyOn(service['anthropic'].messages, 'create')
+      .mockRejectedValue(new Error('overloaded'));
+
+    const result = await service.compact('user-1', 'conv-1', null, history);
+
+    expect(result).toEqual({ summary: null, history });
+    expect(prisma.conversationSummary.create).not.toHaveBeenCalled();
+  });
+
+  it('reuses the concurrent summary without crossing a clear', async () => {
+    const history = buildHistory(10);
+    const clearedAt = new Date(2025, 11, 31);
+    jest.spyOn(service['anthropic'].messages, 'create').mockResolvedValue({
+      content: [{ type: 'text', text: 'The user talked a lot.' }],
+      usage: { input_tokens: 900, output_tokens: 20 },
+    } as never);
+    prisma.conversationSummary.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('duplicate', {
+        code: 'P2002',
+        clientVersion: 'test',
+      }),
+    );
+    prisma.conversationSummary.findFirst.mockResolvedValue({
+      id: 'summary-2',
+      coveredUntil: history[15].createdAt,
+    });
+
+    const result = await service.compact(
+      'user-1',
+      'conv-1',
+      null,
+      history,
+      clearedAt,
+    );
+
+    const [[args]] = prisma.conversationSummary.findFirst.mock.calls as [
+      [{ where: Record<string, unknown> }],
+    ];
+    expect(args.where).toEqual({
+      conversationId: 'conv-1',
+      coveredFrom: { gt: clearedAt },
+    });
+    expect(result.history).toEqual(history.slice(16));
+  });
+});
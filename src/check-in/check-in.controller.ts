@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Body,
   Param,
   Query,
@@ -15,19 +16,29 @@ import {
   type UserSession,
 } from '@thallesp/nestjs-better-auth';
 import { CheckInService } from './check-in.service';
+import { CheckInInsightsService } from './insights.service';
 import { CreateCheckInDto } from './dto/create-check-in.dto';
+import { UpdateCheckInDto } from './dto/update-check-in.dto';
 import { GetHistoryQueryDto } from './dto/get-history-query.dto';
+import { GetInsightsQueryDto } from './dto/get-insights-query.dto';
+import { GetCalendarQueryDto } from './dto/get-calendar-query.dto';
 import { CheckInParamDto } from './dto/check-in-param.dto';
+import { SetReminderTimeDto } from './dto/set-reminder-time.dto';
 import { Timezone } from '../common/decorators/timezone.decorators';
+import { validateBody } from '../common/validate-body';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
 
 @Controller('check-in')
 @UseGuards(AuthGuard)
 export class CheckInController {
-  constructor(private readonly checkInService: CheckInService) {}
+  constructor(
+    private readonly checkInService: CheckInService,
+    private readonly insightsService: CheckInInsightsService,
+  ) {}
 
   /**
-   * GET /check-in/history?limit=30
-   * Get user's check-in history with optional limit
+   * GET /check-in/history?limit=30&from=2026-05-01&to=2026-05-31&cursor=<id>
+   * Get user's check-in history, newest first
    */
   @Get('history')
   async getCheckInHistory(
@@ -35,14 +46,37 @@ export class CheckInController {
     @Query() query: GetHistoryQueryDto,
     @Timezone() timezone: string,
   ) {
-    const checkIns = await this.checkInService.getCheckInHistory(
+    const { checkIns, hasMore, nextCursor } =
+      await this.checkInService.getCheckInHistory(
+        session.user.id,
+        timezone,
+        query,
+      );
+    return {
+      data: checkIns,
+      count: checkIns.length,
+      hasMore,
+      nextCursor,
+    };
+  }
+
+  /**
+   * GET /check-in/calendar?month=2026-05
+   * One entry per local day of the month
+   */
+  @Get('calendar')
+  async getCheckInCalendar(
+    @Session() session: UserSession,
+    @Query() query: GetCalendarQueryDto,
+    @Timezone() timezone: string,
+  ) {
+    const calendar = await this.checkInService.getCheckInCalendar(
       session.user.id,
       timezone,
-      query.limit,
+      query.month,
     );
     return {
-      data: checkIns,
-      count: checkIns.length,
+      data: calendar,
     };
   }
 
@@ -82,6 +116,26 @@ export class CheckInController {
     };
   }
 
+  /**
+   * GET /check-in/insights?range=30d
+   * Mood averages, streaks and trends in the user's timezone
+   */
+  @Get('insights')
+  async getInsights(
+    @Session() session: UserSession,
+    @Query() query: GetInsightsQueryDto,
+    @Timezone() timezone: string,
+  ) {
+    const insights = await this.insightsService.getInsights(
+      session.user.id,
+      timezone,
+      query.range,
+    );
+    return {
+      data: insights,
+    };
+  }
+
   /**
    * GET /check-in/:id
    * Get a specific check-in by ID
@@ -102,15 +156,17 @@ export class CheckInController {
 
   /**
    * POST /check-in
-   * Create a new check-in
+   * Create a check-in for today, or back-fill a recently missed day
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @RateLimit('check-in:create')
   async createCheckIn(
-    @Body() dto: CreateCheckInDto,
+    @Body() body: unknown,
     @Session() session: UserSession,
     @Timezone() timezone: string,
   ) {
+    const dto = await validateBody(CreateCheckInDto, body);
     try {
       const checkIn = await this.checkInService.createCheckIn(
         session.user.id,
@@ -127,19 +183,67 @@ export class CheckInController {
     }
   }
 
+  /**
+   * PATCH /check-in/:id
+   * Edit a check-in's answers within the edit window
+   */
+  @Patch(':id')
+  async updateCheckIn(
+    @Param() params: CheckInParamDto,
+    @Body() body: unknown,
+    @Session() session: UserSession,
+  ) {
+    const dto = await validateBody(UpdateCheckInDto, body);
+    const checkIn = await this.checkInService.updateCheckIn(
+      params.id,
+      session.user.id,
+      dto,
+    );
+    return {
+      message: 'Check-in updated successfully',
+      data: checkIn,
+    };
+  }
+
+  /**
+   * GET /check-in/:id/revisions
+   * Previous versions of an edited check-in
+   */
+  @Get(':id/revisions')
+  async getCheckInRevisions(
+    @Param() params: CheckInParamDto,
+    @Session() session: UserSession,
+  ) {
+    const revisions = await this.checkInService.getCheckInRevisions(
+      params.id,
+      session.user.id,
+    );
+    return {
+      data: revisions,
+      count: revisions.length,
+    };
+  }
+
+  /**
+   * POST /check-in/reminder-time
+   * Set the daily reminder ("HH:mm", local time), or null to turn it off
+   */
   @Post('reminder-time')
   @HttpCode(HttpStatus.OK)
   async setCheckInReminderTime(
-    @Body('reminderTime') reminderTime: string,
+    @Body() dto: SetReminderTimeDto,
     @Session() session: UserSession,
+    @Timezone() timezone: string,
   ) {
     try {
-      // await this.checkInService.setCheckInReminderTime(
-      //   session.user.id,
-      //   reminderTime,
-      // );
+      const reminder = await this.checkInService.setCheckInReminderTime(
+        session.user.id,
+        dto.reminderTime ?? null,
+        dto.timezone ?? timezone,
+      );
       return {
         message: 'Check-in reminder time updated successfully',
+        data: reminder,
       };
     } catch (error) {
       console.error('Error setting check-in reminder time:', error);
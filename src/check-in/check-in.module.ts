@@ -1,9 +1,13 @@
 import { Module } from '@nestjs/common';
+import { QuestionnairesModule } from '../questionnaires/questionnaires.module';
 import { CheckInController } from './check-in.controller';
 import { CheckInService } from './check-in.service';
+import { CheckInInsightsService } from './insights.service';
 
 @Module({
+  imports: [QuestionnairesModule],
   controllers: [CheckInController],
-  providers: [CheckInService],
+  providers: [CheckInService, CheckInInsightsService],
+  exports: [CheckInService],
 })
 export class CheckInModule {}
@@ -1,12 +1,46 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { CheckInService } from './check-in.service';
+import { PrismaService } from '../database/database.service';
+import { QuestionnairesService } from '../questionnaires/questionnaires.service';
+import { DAILY_CHECK_IN_V1 } from '../questionnaires/fixtures/daily-check-in.fixture';
 
 describe('CheckInService', () => {
   let service: CheckInService;
+  const prisma = {
+    checkIn: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    checkInRevision: { create: jest.fn() },
+    questionnaireTemplate: { findFirst: jest.fn(), findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const steps = [1, 2, 3, 4, 5].map((step) => ({ step, mood: 4 }));
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(prisma),
+    );
+    prisma.questionnaireTemplate.findFirst.mockResolvedValue(DAILY_CHECK_IN_V1);
+    prisma.questionnaireTemplate.findUnique.mockResolvedValue(
+      DAILY_CHECK_IN_V1,
+    );
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [CheckInService],
+      providers: [
+        CheckInService,
+        QuestionnairesService,
+        { provide: PrismaService, useValue: prisma },
+      ],
     }).compile();
 
     service = module.get<CheckInService>(CheckInService);
@@ -15,4 +49,198 @@ describe('CheckInService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('getCheckInHistory', () => {
+    it('interprets from/to as local dates', async () => {
+      prisma.checkIn.findMany.mockResolvedValue([]);
+
+      await service.getCheckInHistory('user-1', 'America/New_York', {
+        from: '2026-05-01',
+        to: '2026-05-31',
+      });
+
+      const [[{ where }]] = prisma.checkIn.findMany.mock.calls as [
+        [{ where: { AND: unknown[] } }],
+      ];
+      expect(where.AND).toEqual([
+        { userId: 'user-1' },
+        { date: { gte: new Date('2026-05-01T04:00:00Z') } },
+        { date: { lt: new Date('2026-06-01T04:00:00Z') } },
+      ]);
+    });
+
+    it('returns a cursor when there are older check-ins', async () => {
+      prisma.checkIn.findMany.mockResolvedValue([
+        { id: 'c3', steps: [] },
+        { id: 'c2', steps: [] },
+        { id: 'c1', steps: [] },
+      ]);
+
+      const page = await service.getCheckInHistory('user-1', 'UTC', {
+        limit: 2,
+      });
+
+      expect(page.checkIns.map((c) => c.id)).toEqual(['c3', 'c2']);
+      expect(page).toMatchObject({ hasMore: true, nextCursor: 'c2' });
+    });
+
+    it('rejects impossible from/to dates', async () => {
+      await expect(
+        service.getCheckInHistory('user-1', 'UTC', { from: '2026-02-30' }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.getCheckInHistory('user-1', 'UTC', { to: 'yesterday' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.checkIn.findMany).not.toHaveBeenCalled();
+    });
+
+    it('caps the page size', async () => {
+      prisma.checkIn.findMany.mockResolvedValue([]);
+
+      await service.getCheckInHistory('user-1', 'UTC', { limit: 5000 });
+
+      const [[{ take }]] = prisma.checkIn.findMany.mock.calls as [
+        [{ take: number }],
+      ];
+      expect(take).toBe(101);
+    });
+
+    it('rejects cursors that are not the user’s check-ins', async () => {
+      prisma.checkIn.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.getCheckInHistory('user-1', 'UTC', { cursor: 'other' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getCheckInCalendar', () => {
+    it('returns one entry per local day', async () => {
+      prisma.checkIn.findMany.mockResolvedValue([
+        {
+          id: 'c1',
+          date: new Date('2026-02-02T05:00:00Z'), // Feb 2 in New York
+          overallMood: 4,
+          completed: true,
+        },
+      ]);
+
+      const calendar = await service.getCheckInCalendar(
+        'user-1',
+        'America/New_York',
+        '2026-02',
+      );
+
+      expect(calendar.days).toHaveLength(28);
+      expect(calendar.days[0]).toMatchObject({
+        date: '2026-02-01',
+        status: 'missed',
+      });
+      expect(calendar.days[1]).toEqual({
+        date: '2026-02-02',
+        status: 'completed',
+        overallMood: 4,
+        checkInId: 'c1',
+      });
+    });
+  });
+
+  describe('createCheckIn', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-06-10T15:00:00Z'));
+      prisma.checkIn.create.mockImplementation(
+        ({ data }: { data: object }) => ({ id: 'c1', ...data }),
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('back-fills a recently missed day', async () => {
+      prisma.checkIn.findUnique.mockResolvedValue(null);
+
+      await service.createCheckIn(
+        'user-1',
+        { date: '2026-06-08', steps },
+        'America/New_York',
+      );
+
+      expect(prisma.checkIn.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          date: new Date('2026-06-08T04:00:00Z'),
+          backfilled: true,
+        }) as object,
+      });
+    });
+
+    it('rejects days outside the back-fill window', async () => {
+      await expect(
+        service.createCheckIn(
+          'user-1',
+          { date: '2026-06-01', steps },
+          'America/New_York',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects impossible dates and timestamps', async () => {
+      for (const date of ['2026-02-30', '2026-06-31T10:00:00Z']) {
+        await expect(
+          service.createCheckIn('user-1', { date, steps }, 'America/New_York'),
+        ).rejects.toThrow(BadRequestException);
+      }
+      expect(prisma.checkIn.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a second check-in for the same day', async () => {
+      prisma.checkIn.findUnique.mockResolvedValue({ id: 'existing' });
+
+      await expect(
+        service.createCheckIn(
+          'user-1',
+          { date: '2026-06-10T14:00:00Z', steps },
+          'America/New_York',
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('updateCheckIn', () => {
+    const existing = {
+      id: 'c1',
+      userId: 'user-1',
+      overallMood: 2,
+      steps: [1, 2, 3, 4, 5].map((step) => ({ step, mood: 2 })),
+      createdAt: new Date(),
+    };
+
+    it('keeps the old answers as a revision and recalculates the mood', async () => {
+      prisma.checkIn.findUnique.mockResolvedValue(existing);
+      prisma.checkIn.update.mockResolvedValue({ ...existing, steps });
+
+      await service.updateCheckIn('c1', 'user-1', { steps });
+
+      expect(prisma.checkInRevision.create).toHaveBeenCalledWith({
+        data: { checkInId: 'c1', overallMood: 2, steps: existing.steps },
+      });
+      expect(prisma.checkIn.update).toHaveBeenCalledWith({
+        where: { id: 'c1' },
+        data: expect.objectContaining({ overallMood: 4 }) as object,
+      });
+    });
+
+    it('refuses edits after the edit window', async () => {
+      prisma.checkIn.findUnique.mockResolvedValue({
+        ...existing,
+        createdAt: new Date(Date.now() - 48 * 60 * 60 * 1000),
+      });
+
+      await expect(
+        service.updateCheckIn('c1', 'user-1', { steps }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.checkIn.update).not.toHaveBeenCalled();
+    });
+  });
 });
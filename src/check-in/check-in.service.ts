@@ -1,34 +1,108 @@
 import {
   BadRequestException,
   ConflictException,
+  ForbiddenException,
   Injectable,
   InternalServerErrorException,
   NotFoundException,
 } from '@nestjs/common';
-import { PrismaService } from 'src/database/database.service';
+import { PrismaService } from '../database/database.service';
 import {
-  CheckInHistoryResponse,
+  isLocalDay,
+  localDayToUtc,
+  resolveTimezone,
+  shiftDay,
+} from '../common/local-day';
+import {
+  CalendarDayResponse,
+  CheckInCalendarResponse,
+  CheckInHistoryPage,
   CheckInResponse,
+  CheckInRevisionResponse,
   CheckInStepResponse,
 } from './dto/check-in-response.dto';
 import { CreateCheckInDto } from './dto/create-check-in.dto';
-import { Prisma } from 'generated/prisma';
-import { toZonedTime, fromZonedTime } from 'date-fns-tz';
-import { startOfDay, endOfDay } from 'date-fns';
+import { GetHistoryQueryDto } from './dto/get-history-query.dto';
+import { UpdateCheckInDto } from './dto/update-check-in.dto';
+import { Prisma } from '../../generated/prisma';
+import { toZonedTime, fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import {
+  startOfDay,
+  endOfDay,
+  getDaysInMonth,
+  isValid,
+  parseISO,
+} from 'date-fns';
+import { QuestionnairesService } from '../questionnaires/questionnaires.service';
 
 @Injectable()
 export class CheckInService {
-  constructor(private readonly db: PrismaService) {}
+  // How long after creation a check-in can still be edited
+  private readonly editWindowHours: number;
+  // How many past days can be logged late (0 = today only)
+  private readonly backfillDays: number;
+
+  constructor(
+    private readonly db: PrismaService,
+    private readonly questionnairesService: QuestionnairesService,
+  ) {
+    this.editWindowHours = Number(process.env.CHECK_IN_EDIT_WINDOW_HOURS ?? 24);
+    this.backfillDays = Number(process.env.CHECK_IN_BACKFILL_DAYS ?? 3);
+  }
 
+  /**
+   * Newest-first history. `from`/`to` are local dates in the user's
+   * timezone; `cursor` continues from the last check-in of the previous page.
+   */
   async getCheckInHistory(
     userId: string,
     timezone: string,
-    limit = 30,
-  ): Promise<CheckInHistoryResponse[]> {
+    query: GetHistoryQueryDto = {},
+  ): Promise<CheckInHistoryPage> {
+    const limit = Math.min(Math.max(Number(query.limit) || 30, 1), 100);
+    const tz = resolveTimezone(timezone);
+
+    for (const [name, day] of Object.entries({
+      from: query.from,
+      to: query.to,
+    })) {
+      if (day !== undefined && !isLocalDay(day)) {
+        throw new BadRequestException(
+          `${name} must be a date in yyyy-MM-dd format`,
+        );
+      }
+    }
+
+    if (query.from && query.to && query.from > query.to) {
+      throw new BadRequestException('from must be on or before to');
+    }
+
+    const filters: Prisma.CheckInWhereInput[] = [{ userId }];
+    if (query.from) {
+      filters.push({ date: { gte: localDayToUtc(query.from, tz) } });
+    }
+    if (query.to) {
+      filters.push({
+        date: { lt: localDayToUtc(shiftDay(query.to, 1), tz) },
+      });
+    }
+
+    if (query.cursor) {
+      const cursor = await this.db.checkIn.findFirst({
+        where: { id: query.cursor, userId },
+        select: { date: true },
+      });
+      if (!cursor) {
+        throw new BadRequestException(`Invalid cursor: ${query.cursor}`);
+      }
+      // One check-in per user per date, so date alone orders pages stably
+      filters.push({ date: { lt: cursor.date } });
+    }
+
     const checkIns = await this.db.checkIn.findMany({
-      where: { userId },
-      take: limit,
-      orderBy: { createdAt: 'desc' },
+      where: { AND: filters },
+      take: limit + 1,
+      orderBy: { date: 'desc' },
       select: {
         id: true,
         date: true,
@@ -39,10 +113,80 @@ export class CheckInService {
       },
     });
 
-    return checkIns.map((checkIn) => ({
-      ...checkIn,
-      steps: checkIn.steps as unknown as CheckInStepResponse[],
-    }));
+    const hasMore = checkIns.length > limit;
+    const page = hasMore ? checkIns.slice(0, limit) : checkIns;
+
+    return {
+      checkIns: page.map((checkIn) => ({
+        ...checkIn,
+        steps: checkIn.steps as unknown as CheckInStepResponse[],
+      })),
+      hasMore,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    };
+  }
+
+  /**
+   * One entry per local day of the month, for the app's calendar view
+   */
+  async getCheckInCalendar(
+    userId: string,
+    timezone: string,
+    month?: string,
+  ): Promise<CheckInCalendarResponse> {
+    const tz = resolveTimezone(timezone);
+    const today = formatInTimeZone(new Date(), tz, 'yyyy-MM-dd');
+    const monthKey = month ?? today.slice(0, 7);
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(monthKey)) {
+      throw new BadRequestException('month must be in yyyy-MM format');
+    }
+
+    const firstDay = `${monthKey}-01`;
+    const daysInMonth = getDaysInMonth(parseISO(firstDay));
+    const nextMonthFirstDay = shiftDay(firstDay, daysInMonth);
+
+    const checkIns = await this.db.checkIn.findMany({
+      where: {
+        userId,
+        date: {
+          gte: localDayToUtc(firstDay, tz),
+          lt: localDayToUtc(nextMonthFirstDay, tz),
+        },
+      },
+      select: { id: true, date: true, overallMood: true, completed: true },
+    });
+
+    const byDay = new Map(
+      checkIns.map((checkIn) => [
+        formatInTimeZone(checkIn.date, tz, 'yyyy-MM-dd'),
+        checkIn,
+      ]),
+    );
+
+    const days: CalendarDayResponse[] = [];
+    for (let i = 0; i < daysInMonth; i++) {
+      const day = shiftDay(firstDay, i);
+      const checkIn = byDay.get(day);
+
+      if (checkIn?.completed) {
+        days.push({
+          date: day,
+          status: 'completed',
+          overallMood: checkIn.overallMood,
+          checkInId: checkIn.id,
+        });
+      } else {
+        days.push({
+          date: day,
+          status: day >= today ? 'pending' : 'missed',
+          overallMood: null,
+          checkInId: checkIn?.id ?? null,
+        });
+      }
+    }
+
+    return { month: monthKey, timezone: tz, days };
   }
 
   async getTodaysCheckIn(
@@ -52,15 +196,15 @@ export class CheckInService {
     const { startOfDay: start, endOfDay: end } =
       this.getTodayInTimezone(timezone);
 
+    // Keyed on the day the check-in is for, so back-fills don't count as today
     const checkIn = await this.db.checkIn.findFirst({
       where: {
         userId,
-        createdAt: {
+        date: {
           gte: start,
           lt: end,
         },
       },
-      orderBy: { createdAt: 'desc' },
     });
 
     if (!checkIn) {
@@ -80,7 +224,7 @@ export class CheckInService {
     const checkIn = await this.db.checkIn.findFirst({
       where: {
         userId,
-        createdAt: {
+        date: {
           gte: start,
           lt: end,
         },
@@ -115,38 +259,47 @@ export class CheckInService {
     dto: CreateCheckInDto,
     timezone: string,
   ): Promise<CheckInResponse> {
-    if (dto.steps.length !== 5) {
-      throw new BadRequestException('Check-in must include all 5 steps');
+    const template = await this.questionnairesService.resolveTemplate(
+      dto.templateId,
+    );
+    this.questionnairesService.validateAnswers(template, dto.steps);
+
+    const tz = resolveTimezone(timezone);
+    const today = formatInTimeZone(new Date(), tz, 'yyyy-MM-dd');
+    const day = this.toLocalDay(dto.date, tz);
+
+    if (day > today) {
+      throw new BadRequestException('Check-in date cannot be in the future');
     }
 
-    const steps = dto.steps.map((s) => s.step).sort();
-    const expectedSteps = [1, 2, 3, 4, 5];
-    if (JSON.stringify(steps) !== JSON.stringify(expectedSteps)) {
+    // Missed days can be logged late, but only recent ones
+    if (day < shiftDay(today, -this.backfillDays)) {
       throw new BadRequestException(
-        'Check-in must include steps 1, 2, 3, 4, and 5 exactly once',
+        this.backfillDays === 0
+          ? 'Check-in date must be today'
+          : `Check-ins can only be back-filled up to ${this.backfillDays} day(s)`,
       );
     }
 
-    // Validate they haven't already checked in today
-    const hasCheckedIn = await this.hasCheckedInToday(userId, timezone);
-    if (hasCheckedIn) {
-      throw new ConflictException('You have already checked in today');
-    }
-
-    // Validate the submitted date is "today" in their timezone
-    const { startOfDay: start, endOfDay: end } =
-      this.getTodayInTimezone(timezone);
-    const submittedDate = new Date(dto.date);
+    // Store the date field as start of day in user's timezone, converted to UTC
+    const checkInDate = localDayToUtc(day, tz);
 
-    if (submittedDate < start || submittedDate >= end) {
-      throw new BadRequestException('Check-in date must be today');
+    const existing = await this.db.checkIn.findUnique({
+      where: { userId_date: { userId, date: checkInDate } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException(
+        day === today
+          ? 'You have already checked in today'
+          : 'You have already checked in for this date',
+      );
     }
 
-    const overallMood = this.calculateOverallMood(dto.steps);
-
-    // Store the date field as start of day in user's timezone, converted to UTC
-    const userLocalTime = toZonedTime(new Date(), timezone);
-    const checkInDate = fromZonedTime(startOfDay(userLocalTime), timezone);
+    const overallMood = this.questionnairesService.scoreOverallMood(
+      template,
+      dto.steps,
+    );
 
     try {
       const checkIn = await this.db.checkIn.create({
@@ -155,6 +308,8 @@ export class CheckInService {
           date: checkInDate,
           overallMood,
           completed: true,
+          backfilled: day < today,
+          templateId: template.id,
           steps: dto.steps as unknown as Prisma.JsonArray,
         },
       });
@@ -176,6 +331,112 @@ export class CheckInService {
     }
   }
 
+  /**
+   * Replace a check-in's answers. The previous values are kept as a
+   * revision and overallMood is recalculated from the new steps.
+   */
+  async updateCheckIn(
+    id: string,
+    userId: string,
+    dto: UpdateCheckInDto,
+  ): Promise<CheckInResponse> {
+    const checkIn = await this.getCheckInById(id, userId);
+
+    const editableUntil =
+      checkIn.createdAt.getTime() + this.editWindowHours * 60 * 60 * 1000;
+    if (Date.now() > editableUntil) {
+      throw new ForbiddenException(
+        `Check-ins can only be edited within ${this.editWindowHours} hour(s)`,
+      );
+    }
+
+    // Edits are checked against the version originally answered
+    const template = await this.questionnairesService.resolveTemplate(
+      checkIn.templateId,
+    );
+    this.questionnairesService.validateAnswers(template, dto.steps);
+
+    const updated = await this.db.$transaction(async (tx) => {
+      await tx.checkInRevision.create({
+        data: {
+          checkInId: id,
+          overallMood: checkIn.overallMood,
+          steps: checkIn.steps as unknown as Prisma.JsonArray,
+        },
+      });
+
+      return tx.checkIn.update({
+        where: { id },
+        data: {
+          steps: dto.steps as unknown as Prisma.JsonArray,
+          overallMood: this.questionnairesService.scoreOverallMood(
+            template,
+            dto.steps,
+          ),
+          editedAt: new Date(),
+        },
+      });
+    });
+
+    return {
+      ...updated,
+      steps: updated.steps as unknown as CheckInStepResponse[],
+    };
+  }
+
+  /**
+   * Earlier versions of a check-in, newest first
+   */
+  async getCheckInRevisions(
+    id: string,
+    userId: string,
+  ): Promise<CheckInRevisionResponse[]> {
+    await this.getCheckInById(id, userId);
+
+    const revisions = await this.db.checkInRevision.findMany({
+      where: { checkInId: id },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, overallMood: true, steps: true, createdAt: true },
+    });
+
+    return revisions.map((revision) => ({
+      ...revision,
+      steps: revision.steps as unknown as CheckInStepResponse[],
+    }));
+  }
+
+  /**
+   * Store (or clear, with null) the daily reminder time. The timezone is
+   * saved alongside so the scheduler can work out the user's local time.
+   */
+  async setCheckInReminderTime(
+    userId: string,
+    reminderTime: string | null,
+    timezone: string,
+  ): Promise<{ reminderTime: string | null; reminderTimezone: string | null }> {
+    if (
+      reminderTime !== null &&
+      !/^([01]\d|2[0-3]):[0-5]\d$/.test(reminderTime)
+    ) {
+      throw new BadRequestException('reminderTime must be in HH:mm format');
+    }
+
+    try {
+      Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    } catch {
+      throw new BadRequestException(`Unknown timezone: ${timezone}`);
+    }
+
+    return this.db.user.update({
+      where: { id: userId },
+      data: {
+        reminderTime,
+        reminderTimezone: reminderTime === null ? null : timezone,
+      },
+      select: { reminderTime: true, reminderTimezone: true },
+    });
+  }
+
   /**
    * Get today's date range in the user's timezone
    * Returns UTC timestamps for the start and end of "today" in user's local time
@@ -219,9 +480,25 @@ export class CheckInService {
     }
   }
 
-  private calculateOverallMood(steps: { mood: number }[]): number {
-    const sum = steps.reduce((acc, step) => acc + step.mood, 0);
-    const average = sum / steps.length;
-    return Math.round(average);
+  /**
+   * The local day a submitted date refers to. Plain dates are taken as-is;
+   * timestamps are converted into the user's timezone.
+   */
+  private toLocalDay(date: string, timezone: string): string {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      if (!isLocalDay(date)) {
+        throw new BadRequestException(
+          'Check-in date must be a real calendar date',
+        );
+      }
+      return date;
+    }
+
+    // parseISO rejects impossible dates that new Date() would roll over
+    const parsed = parseISO(date);
+    if (!isValid(parsed)) {
+      throw new BadRequestException('Check-in date must be a valid ISO date');
+    }
+    return formatInTimeZone(parsed, timezone, 'yyyy-MM-dd');
   }
 }
@@ -0,0 +1,3 @@
+export const INSIGHT_RANGES = ['7d', '30d', '90d', 'all'] as const;
+
+export type InsightRange = (typeof INSIGHT_RANGES)[number];
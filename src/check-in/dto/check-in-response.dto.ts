@@ -10,11 +10,21 @@ export class CheckInResponse {
   date: Date;
   overallMood: number;
   completed: boolean;
+  backfilled: boolean;
+  templateId: string | null;
+  editedAt: Date | null;
   steps: CheckInStepResponse[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export class CheckInRevisionResponse {
+  id: string;
+  overallMood: number;
+  steps: CheckInStepResponse[];
+  createdAt: Date; // When this version was replaced
+}
+
 export class CheckInHistoryResponse {
   id: string;
   date: Date;
@@ -23,3 +33,23 @@ export class CheckInHistoryResponse {
   steps: CheckInStepResponse[];
   createdAt: Date;
 }
+
+export class CheckInHistoryPage {
+  checkIns: CheckInHistoryResponse[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export class CalendarDayResponse {
+  date: string; // yyyy-MM-dd, local to the user
+  // pending = today (not yet checked in) or a future day
+  status: 'completed' | 'missed' | 'pending';
+  overallMood: number | null;
+  checkInId: string | null;
+}
+
+export class CheckInCalendarResponse {
+  month: string;
+  timezone: string;
+  days: CalendarDayResponse[];
+}
@@ -4,25 +4,22 @@ import {
   IsArray,
   ValidateNested,
   IsInt,
-  Min,
-  Max,
   IsOptional,
+  MaxLength,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
+// Step numbers and value ranges come from the questionnaire template
 export class CheckInStepDto {
   @IsInt()
-  @Min(1)
-  @Max(5)
   step: number;
 
   @IsInt()
-  @Min(1)
-  @Max(5)
   mood: number;
 
   @IsOptional()
   @IsString()
+  @MaxLength(2000)
   notes?: string;
 }
 
@@ -35,4 +32,9 @@ export class CreateCheckInDto {
   @ValidateNested({ each: true })
   @Type(() => CheckInStepDto)
   steps: CheckInStepDto[];
+
+  // Questionnaire version answered, defaults to the active one
+  @IsOptional()
+  @IsString()
+  templateId?: string;
 }
@@ -0,0 +1,8 @@
+import { IsOptional, Matches } from 'class-validator';
+
+export class GetCalendarQueryDto {
+  // yyyy-MM, defaults to the current month in the user's timezone
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/)
+  month?: string;
+}
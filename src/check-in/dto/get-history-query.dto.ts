@@ -1,4 +1,11 @@
-import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import {
+  IsOptional,
+  IsInt,
+  IsString,
+  Matches,
+  Min,
+  Max,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class GetHistoryQueryDto {
@@ -8,4 +15,18 @@ export class GetHistoryQueryDto {
   @Min(1)
   @Max(100)
   limit?: number = 30;
+
+  // Local dates (yyyy-MM-dd) in the user's timezone, both inclusive
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  from?: string;
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  to?: string;
+
+  // Check-in id - return check-ins older than this one
+  @IsOptional()
+  @IsString()
+  cursor?: string;
 }
@@ -0,0 +1,9 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { INSIGHT_RANGES } from '../constants';
+import type { InsightRange } from '../constants';
+
+export class GetInsightsQueryDto {
+  @IsOptional()
+  @IsIn(INSIGHT_RANGES)
+  range?: InsightRange = '30d';
+}
@@ -0,0 +1,39 @@
+import type { InsightRange } from '../constants';
+
+export class MoodAveragePoint {
+  period: string; // yyyy-MM-dd for days and weeks (week start), yyyy-MM for months
+  averageMood: number;
+  count: number;
+}
+
+export class DimensionAverage {
+  dimension: string; // Question key in the questionnaire template
+  question: string;
+  average: number | null;
+  count: number;
+}
+
+export class WeekOverWeekDelta {
+  current: number | null;
+  previous: number | null;
+  delta: number | null;
+}
+
+export class CheckInInsightsResponse {
+  range: InsightRange;
+  timezone: string;
+  from: string | null;
+  to: string;
+  totalCheckIns: number;
+  averageMood: number | null;
+  daily: MoodAveragePoint[];
+  weekly: MoodAveragePoint[];
+  monthly: MoodAveragePoint[];
+  dimensions: DimensionAverage[];
+  streaks: { current: number; longest: number };
+  completionRate: number;
+  weekOverWeek: {
+    overallMood: WeekOverWeekDelta;
+    dimensions: Record<string, WeekOverWeekDelta>;
+  };
+}
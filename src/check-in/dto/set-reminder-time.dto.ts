@@ -0,0 +1,15 @@
+import { IsOptional, IsString, Matches, ValidateIf } from 'class-validator';
+
+export class SetReminderTimeDto {
+  // null turns reminders off
+  @ValidateIf((dto: SetReminderTimeDto) => dto.reminderTime !== null)
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'reminderTime must be in HH:mm format',
+  })
+  reminderTime: string | null;
+
+  // Defaults to the x-user-timezone header
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+}
@@ -0,0 +1,11 @@
+import { IsArray, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { CheckInStepDto } from './create-check-in.dto';
+
+// ✅ BODY DTO - For PATCH request. The date can't change, only the answers.
+export class UpdateCheckInDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CheckInStepDto)
+  steps: CheckInStepDto[];
+}
@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { CheckInInsightsService } from './insights.service';
+import { PrismaService } from '../database/database.service';
+import { QuestionnairesService } from '../questionnaires/questionnaires.service';
+import { DAILY_CHECK_IN_V1 } from '../questionnaires/fixtures/daily-check-in.fixture';
+
+// Check-in `date` is stored as local midnight converted to UTC
+const checkIn = (localDay: string, overallMood: number, steps = []) => ({
+  date: new Date(`${localDay}T04:00:00Z`), // midnight in New York (EDT)
+  overallMood,
+  completed: true,
+  steps,
+});
+
+describe('CheckInInsightsService', () => {
+  let service: CheckInInsightsService;
+  const prisma = {
+    checkIn: { findMany: jest.fn() },
+    questionnaireTemplate: { findFirst: jest.fn(), findUnique: jest.fn() },
+  };
+  const timezone = 'America/New_York';
+  // Tuesday evening in New York, already Wednesday in UTC
+  const now = new Date('2026-06-17T02:00:00Z');
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.questionnaireTemplate.findFirst.mockResolvedValue(DAILY_CHECK_IN_V1);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CheckInInsightsService,
+        QuestionnairesService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<CheckInInsightsService>(CheckInInsightsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('buckets by local day and computes streaks up to today', async () => {
+    prisma.checkIn.findMany.mockResolvedValue([
+      checkIn('2026-06-01', 2),
+      checkIn('2026-06-02', 3),
+      checkIn('2026-06-03', 4),
+      checkIn('2026-06-04', 5),
+      checkIn('2026-06-14', 3),
+      checkIn('2026-06-15', 4),
+      checkIn('2026-06-16', 5),
+    ]);
+
+    const insights = await service.computeInsights(
+      'user-1',
+      timezone,
+      '7d',
+      now,
+    );
+
+    expect(insights.to).toBe('2026-06-16');
+    expect(insights.from).toBe('2026-06-10');
+    expect(insights.totalCheckIns).toBe(3);
+    expect(insights.averageMood).toBe(4);
+    expect(insights.streaks).toEqual({ current: 3, longest: 4 });
+    expect(insights.completionRate).toBe(0.43);
+    expect(insights.weekly.map((w) => w.period)).toEqual([
+      '2026-06-08',
+      '2026-06-15',
+    ]);
+  });
+
+  it('keeps the current streak alive until today is over', async () => {
+    prisma.checkIn.findMany.mockResolvedValue([
+      checkIn('2026-06-14', 3),
+      checkIn('2026-06-15', 4),
+    ]);
+
+    const insights = await service.computeInsights(
+      'user-1',
+      timezone,
+      '30d',
+      now,
+    );
+
+    expect(insights.streaks.current).toBe(2);
+  });
+
+  it('averages each step dimension and compares week over week', async () => {
+    prisma.checkIn.findMany.mockResolvedValue([
+      checkIn('2026-06-05', 2, [
+        { step: 1, mood: 2, notes: '' },
+        { step: 3, mood: 1, notes: '' },
+      ] as never),
+      checkIn('2026-06-15', 4, [
+        { step: 1, mood: 4, notes: '' },
+        { step: 3, mood: 5, notes: '' },
+      ] as never),
+    ]);
+
+    const insights = await service.computeInsights(
+      'user-1',
+      timezone,
+      'all',
+      now,
+    );
+
+    expect(insights.dimensions[0]).toMatchObject({
+      dimension: 'emotional',
+      average: 3,
+      count: 2,
+    });
+    expect(insights.dimensions[1]).toMatchObject({
+      dimension: 'stress',
+      average: null,
+    });
+    expect(insights.weekOverWeek.overallMood).toEqual({
+      current: 4,
+      previous: 2,
+      delta: 2,
+    });
+    expect(insights.weekOverWeek.dimensions.energy.delta).toBe(4);
+  });
+
+  it('rejects unknown ranges', async () => {
+    await expect(
+      service.getInsights('user-1', timezone, '1y' as never),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
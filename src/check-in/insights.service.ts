@@ -0,0 +1,287 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfISOWeek,
+} from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { PrismaService } from '../database/database.service';
+import { resolveTimezone, shiftDay } from '../common/local-day';
+import { INSIGHT_RANGES, InsightRange } from './constants';
+import { CheckInStepResponse } from './dto/check-in-response.dto';
+import { QuestionnairesService } from '../questionnaires/questionnaires.service';
+import type { QuestionnaireTemplate } from '../questionnaires/questionnaire.types';
+import {
+  CheckInInsightsResponse,
+  DimensionAverage,
+  MoodAveragePoint,
+  WeekOverWeekDelta,
+} from './dto/insights-response.dto';
+
+const RANGE_DAYS: Record<Exclude<InsightRange, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+interface LocalCheckIn {
+  day: string; // yyyy-MM-dd in the user's timezone
+  overallMood: number;
+  completed: boolean;
+  // Answer values by question key, so versions with renumbered steps line up
+  answers: Map<string, number>;
+}
+
+@Injectable()
+export class CheckInInsightsService {
+  constructor(
+    private readonly db: PrismaService,
+    private readonly questionnairesService: QuestionnairesService,
+  ) {}
+
+  /**
+   * Mood aggregates over the range, bucketed by the user's local days
+   */
+  async getInsights(
+    userId: string,
+    timezone: string,
+    range: InsightRange = '30d',
+  ): Promise<CheckInInsightsResponse> {
+    if (!INSIGHT_RANGES.includes(range)) {
+      throw new BadRequestException(
+        `range must be one of: ${INSIGHT_RANGES.join(', ')}`,
+      );
+    }
+
+    // Computed on every request: a per-process cache would serve other
+    // instances stale results after a check-in is written
+    return this.computeInsights(
+      userId,
+      resolveTimezone(timezone),
+      range,
+      new Date(),
+    );
+  }
+
+  async computeInsights(
+    userId: string,
+    timezone: string,
+    range: InsightRange,
+    now: Date,
+  ): Promise<CheckInInsightsResponse> {
+    // Full history is needed for streaks anyway, and it's one row per day
+    const rows = await this.db.checkIn.findMany({
+      where: { userId },
+      select: {
+        date: true,
+        overallMood: true,
+        completed: true,
+        steps: true,
+        templateId: true,
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    const activeTemplate = await this.questionnairesService.getActiveTemplate();
+    const templates = new Map<string, QuestionnaireTemplate>();
+    for (const templateId of new Set(rows.map((row) => row.templateId))) {
+      if (templateId) {
+        templates.set(
+          templateId,
+          await this.questionnairesService.getTemplate(templateId),
+        );
+      }
+    }
+
+    const checkIns: LocalCheckIn[] = rows.map((row) => ({
+      day: formatInTimeZone(row.date, timezone, 'yyyy-MM-dd'),
+      overallMood: row.overallMood,
+      completed: row.completed,
+      answers: this.answersByKey(
+        (row.templateId && templates.get(row.templateId)) || activeTemplate,
+        row.steps as unknown as CheckInStepResponse[],
+      ),
+    }));
+
+    const today = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+    const from =
+      range === 'all' ? null : shiftDay(today, -(RANGE_DAYS[range] - 1));
+    const inRange = checkIns.filter((c) => !from || c.day >= from);
+
+    return {
+      range,
+      timezone,
+      from,
+      to: today,
+      totalCheckIns: inRange.length,
+      averageMood: this.average(inRange.map((c) => c.overallMood)),
+      daily: this.groupAverages(inRange, (day) => day),
+      weekly: this.groupAverages(inRange, (day) =>
+        format(startOfISOWeek(parseISO(day)), 'yyyy-MM-dd'),
+      ),
+      monthly: this.groupAverages(inRange, (day) => day.slice(0, 7)),
+      dimensions: this.dimensionAverages(activeTemplate, inRange),
+      streaks: this.streaks(checkIns, today),
+      completionRate: this.completionRate(inRange, from, today),
+      weekOverWeek: this.weekOverWeek(activeTemplate, checkIns, today),
+    };
+  }
+
+  private groupAverages(
+    checkIns: LocalCheckIn[],
+    periodOf: (day: string) => string,
+  ): MoodAveragePoint[] {
+    const groups = new Map<string, number[]>();
+    for (const checkIn of checkIns) {
+      const period = periodOf(checkIn.day);
+      groups.set(period, [...(groups.get(period) ?? []), checkIn.overallMood]);
+    }
+
+    return [...groups.entries()].map(([period, moods]) => ({
+      period,
+      averageMood: this.average(moods)!,
+      count: moods.length,
+    }));
+  }
+
+  /**
+   * One entry per question in the active questionnaire. Older check-ins
+   * count towards a dimension when they answered a question with its key.
+   */
+  private dimensionAverages(
+    template: QuestionnaireTemplate,
+    checkIns: LocalCheckIn[],
+  ): DimensionAverage[] {
+    return template.questions.map((question) => {
+      const values = this.answerValues(checkIns, question.key);
+      return {
+        dimension: question.key,
+        question: question.prompt,
+        average: this.average(values),
+        count: values.length,
+      };
+    });
+  }
+
+  /**
+   * Consecutive local days with a completed check-in. The current streak
+   * survives until the end of today, so it isn't broken before the user
+   * has had a chance to check in.
+   */
+  private streaks(checkIns: LocalCheckIn[], today: string) {
+    const days = [
+      ...new Set(checkIns.filter((c) => c.completed).map((c) => c.day)),
+    ].sort();
+    const daySet = new Set(days);
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    for (const day of days) {
+      run = previous && shiftDay(previous, 1) === day ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = day;
+    }
+
+    let cursor = daySet.has(today) ? today : shiftDay(today, -1);
+    let current = 0;
+    while (daySet.has(cursor)) {
+      current++;
+      cursor = shiftDay(cursor, -1);
+    }
+
+    return { current, longest };
+  }
+
+  private completionRate(
+    checkIns: LocalCheckIn[],
+    from: string | null,
+    today: string,
+  ): number {
+    const completedDays = new Set(
+      checkIns.filter((c) => c.completed).map((c) => c.day),
+    );
+    const start = from ?? checkIns[0]?.day;
+    if (!start) return 0;
+
+    const totalDays =
+      differenceInCalendarDays(parseISO(today), parseISO(start)) + 1;
+    return this.round(completedDays.size / totalDays);
+  }
+
+  /**
+   * Last 7 local days (including today) against the 7 before them
+   */
+  private weekOverWeek(
+    template: QuestionnaireTemplate,
+    checkIns: LocalCheckIn[],
+    today: string,
+  ) {
+    const currentStart = shiftDay(today, -6);
+    const previousStart = shiftDay(today, -13);
+    const current = checkIns.filter(
+      (c) => c.day >= currentStart && c.day <= today,
+    );
+    const previous = checkIns.filter(
+      (c) => c.day >= previousStart && c.day < currentStart,
+    );
+
+    const dimensions: Record<string, WeekOverWeekDelta> = {};
+    for (const { key } of template.questions) {
+      dimensions[key] = this.delta(
+        this.answerValues(current, key),
+        this.answerValues(previous, key),
+      );
+    }
+
+    return {
+      overallMood: this.delta(
+        current.map((c) => c.overallMood),
+        previous.map((c) => c.overallMood),
+      ),
+      dimensions,
+    };
+  }
+
+  private delta(current: number[], previous: number[]): WeekOverWeekDelta {
+    const currentAverage = this.average(current);
+    const previousAverage = this.average(previous);
+    return {
+      current: currentAverage,
+      previous: previousAverage,
+      delta:
+        currentAverage !== null && previousAverage !== null
+          ? this.round(currentAverage - previousAverage)
+          : null,
+    };
+  }
+
+  private answersByKey(
+    template: QuestionnaireTemplate,
+    steps: CheckInStepResponse[],
+  ): Map<string, number> {
+    const keys = new Map(template.questions.map((q) => [q.step, q.key]));
+    const answers = new Map<string, number>();
+    for (const step of steps ?? []) {
+      const key = keys.get(step.step);
+      if (key) answers.set(key, step.mood);
+    }
+    return answers;
+  }
+
+  private answerValues(checkIns: LocalCheckIn[], key: string): number[] {
+    return checkIns.flatMap((c) =>
+      c.answers.has(key) ? [c.answers.get(key)!] : [],
+    );
+  }
+
+  private average(values: number[]): number | null {
+    if (values.length === 0) return null;
+    return this.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
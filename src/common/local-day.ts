@@ -0,0 +1,41 @@
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+// Calendar days are passed around as yyyy-MM-dd strings in the user's timezone
+
+/**
+ * The timezone if the runtime knows it, otherwise UTC
+ */
+export function resolveTimezone(timezone: string): string {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return timezone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Whether `day` is a real calendar date in yyyy-MM-dd form
+ */
+export function isLocalDay(day: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(day) && isValid(parseISO(day));
+}
+
+/**
+ * UTC instant of local midnight on `day` (yyyy-MM-dd) in the timezone
+ */
+export function localDayToUtc(day: string, timezone: string): Date {
+  return fromZonedTime(`${day}T00:00:00`, timezone);
+}
+
+export function shiftDay(day: string, amount: number): string {
+  return format(addDays(parseISO(day), amount), 'yyyy-MM-dd');
+}
+
+/**
+ * The local day (yyyy-MM-dd) an instant falls on
+ */
+export function localDayOf(date: Date, timezone: string): string {
+  return formatInTimeZone(date, timezone, 'yyyy-MM-dd');
+}
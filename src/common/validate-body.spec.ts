@@ -0,0 +1,168 @@
+import { BadRequestException } from '@nestjs/common';
+import { validateBody } from './validate-body';
+import { CreateConversationDto } from '../chat/dto/create-conversation.dto';
+import { UpdateConversationDto } from '../chat/dto/update-conversation.dto';
+import { CreateCheckInDto } from '../check-in/dto/create-check-in.dto';
+import {
+  OnboardingStep0Dto,
+  OnboardingStep1Dto,
+  OnboardingStep3Dto,
+  OnboardingStep4Dto,
+  OnboardingStep5Dto,
+} from '../profile/dto/onboarding-step.dto';
+import { UpdateProfileDto } from '../profile/dto/update-profile.dto';
+
+const errorsFor = async (dto: new () => object, body: unknown) => {
+  try {
+    await validateBody(dto, body);
+  } catch (error) {
+    expect(error).toBeInstanceOf(BadRequestException);
+    return (error as BadRequestException).getResponse() as {
+      errors?: { field: string; messages: string[] }[];
+    };
+  }
+  throw new Error('Expected validation to fail');
+};
+
+describe('validateBody', () => {
+  it('returns the DTO instance for a valid payload', async () => {
+    const dto = await validateBody(UpdateConversationDto, {
+      title: 'Evening',
+      archived: true,
+    });
+
+    expect(dto).toBeInstanceOf(UpdateConversationDto);
+    expect(dto).toEqual({ title: 'Evening', archived: true });
+  });
+
+  it('rejects a non-string title with a field error', async () => {
+    const response = await errorsFor(CreateConversationDto, { title: 42 });
+
+    expect(response.errors?.map((e) => e.field)).toEqual(['title']);
+    expect(response.errors?.[0].messages).toContain('title must be a string');
+  });
+
+  it('rejects fields the DTO does not declare', async () => {
+    const response = await errorsFor(UpdateConversationDto, {
+      userId: 'someone-else',
+    });
+
+    expect(response.errors?.map((e) => e.field)).toEqual(['userId']);
+  });
+
+  it('rejects a non-object body', async () => {
+    await expect(
+      validateBody(CreateConversationDto, 'Evening'),
+    ).rejects.toThrow('Request body must be an object');
+  });
+
+  describe('CreateCheckInDto', () => {
+    it('requires a date and rejects null steps', async () => {
+      const response = await errorsFor(CreateCheckInDto, {
+        steps: [null, { step: 1, mood: 3 }],
+      });
+
+      expect(response.errors?.map((e) => e.field)).toEqual(['date', 'steps.0']);
+    });
+
+    it('caps the length of step notes', async () => {
+      const response = await errorsFor(CreateCheckInDto, {
+        date: '2026-06-16',
+        steps: [{ step: 1, mood: 3, notes: 'x'.repeat(2001) }],
+      });
+
+      expect(response.errors?.map((e) => e.field)).toEqual(['steps.0.notes']);
+    });
+  });
+
+  describe('onboarding steps', () => {
+    it('rejects non-string struggles with a field error', async () => {
+      const response = await errorsFor(OnboardingStep1Dto, {
+        struggles: ['sleep', 42],
+      });
+
+      expect(response.errors?.map((e) => e.field)).toEqual(['struggles']);
+      expect(response.errors?.[0].messages).toContain(
+        'each value in struggles must be a string',
+      );
+    });
+
+    it('requires a non-empty name of reasonable length', async () => {
+      for (const name of ['', 'x'.repeat(101)]) {
+        const response = await errorsFor(OnboardingStep0Dto, { name });
+        expect(response.errors?.[0].field).toBe('name');
+      }
+    });
+
+    it('caps the number and length of struggles', async () => {
+      for (const struggles of [
+        Array.from({ length: 21 }, (_, i) => `struggle ${i}`),
+        ['x'.repeat(101)],
+      ]) {
+        const response = await errorsFor(OnboardingStep1Dto, { struggles });
+        expect(response.errors?.[0].field).toBe('struggles');
+      }
+    });
+
+    it('does not coerce a string paywallCompleted', async () => {
+      const response = await errorsFor(OnboardingStep4Dto, {
+        paywallCompleted: 'true',
+      });
+
+      expect(response.errors?.[0].field).toBe('paywallCompleted');
+    });
+
+    it('requires the paywall to be completed', async () => {
+      const response = await errorsFor(OnboardingStep4Dto, {
+        paywallCompleted: false,
+      });
+
+      expect(response.errors?.[0].messages).toContain(
+        'Paywall step must be completed',
+      );
+    });
+
+    it('rejects fields the step does not declare', async () => {
+      const response = await errorsFor(OnboardingStep3Dto, {
+        inTherapy: true,
+        userId: 'x',
+      });
+
+      expect(response.errors?.map((e) => e.field)).toEqual(['userId']);
+    });
+
+    it('accepts the biometric step', async () => {
+      await expect(
+        validateBody(OnboardingStep5Dto, { biometricEnabled: true }),
+      ).resolves.toEqual({ biometricEnabled: true });
+    });
+  });
+
+  describe('UpdateProfileDto', () => {
+    it('accepts null to clear nullable fields', async () => {
+      await expect(
+        validateBody(UpdateProfileDto, { profile: { therapyDetails: null } }),
+      ).resolves.toMatchObject({ profile: { therapyDetails: null } });
+    });
+
+    it('rejects null for fields that cannot be empty', async () => {
+      const response = await errorsFor(UpdateProfileDto, {
+        name: null,
+        profile: { inTherapy: null },
+      });
+
+      expect(response.errors?.map((e) => e.field)).toEqual([
+        'name',
+        'profile.inTherapy',
+      ]);
+    });
+
+    it('rejects profile columns that are not editable', async () => {
+      const response = await errorsFor(UpdateProfileDto, {
+        profile: { userId: 'someone-else' },
+      });
+
+      expect(response.errors?.map((e) => e.field)).toEqual(['profile.userId']);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { BadRequestException } from '@nestjs/common';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+
+export interface FieldError {
+  field: string;
+  messages: string[];
+}
+
+/**
+ * Validate a request body against its DTO. Unknown fields are rejected so
+ * nothing unexpected reaches the database.
+ */
+export async function validateBody<T extends object>(
+  dtoClass: ClassConstructor<T>,
+  body: unknown,
+): Promise<T> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new BadRequestException('Request body must be an object');
+  }
+
+  const dto = plainToInstance(dtoClass, body);
+  const errors = await validate(dto, {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+
+  if (errors.length > 0) {
+    throw new BadRequestException({
+      message: 'Validation failed',
+      errors: flattenErrors(errors),
+    });
+  }
+
+  return dto;
+}
+
+function flattenErrors(errors: ValidationError[], prefix = ''): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = prefix ? `${prefix}.${error.property}` : error.property;
+    const own = error.constraints
+      ? [{ field, messages: Object.values(error.constraints) }]
+      : [];
+    return [...own, ...flattenErrors(error.children ?? [], field)];
+  });
+}
@@ -1,8 +1,18 @@
-import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, MaxLength } from 'class-validator';
 
 export class CreateGoalDto {
   @IsString()
   @IsNotEmpty()
   @MaxLength(500)
   goal: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+
+  // Set when the goal was picked from GET /goals/recommendations
+  @IsOptional()
+  @IsString()
+  recommendationId?: string;
 }
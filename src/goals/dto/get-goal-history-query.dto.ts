@@ -0,0 +1,13 @@
+import { IsOptional, Matches } from 'class-validator';
+
+export class GetGoalHistoryQueryDto {
+  // Local dates (yyyy-MM-dd) in the user's timezone, both inclusive.
+  // Defaults to the last 30 days.
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  from?: string;
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  to?: string;
+}
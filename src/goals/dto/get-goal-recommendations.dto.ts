@@ -1,4 +1,4 @@
-import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { IsOptional, IsInt, IsString, Min, Max } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class GetRecommendationsQueryDto {
@@ -8,4 +8,9 @@ export class GetRecommendationsQueryDto {
   @Min(1)
   @Max(10)
   count?: number = 4;
+
+  // Overrides Accept-Language, e.g. "es" or "pt-BR"
+  @IsOptional()
+  @IsString()
+  locale?: string;
 }
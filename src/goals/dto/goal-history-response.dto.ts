@@ -0,0 +1,15 @@
+import type { GoalRolloverOutcome } from '../../../generated/prisma';
+
+export class GoalHistoryDay {
+  date: string; // yyyy-MM-dd, user's local day
+  total: number;
+  completed: number;
+  completionRate: number; // 0-1
+  goals: {
+    id: string;
+    goal: string;
+    completed: boolean;
+    completedAt: Date | null;
+    rolloverOutcome: GoalRolloverOutcome | null;
+  }[];
+}
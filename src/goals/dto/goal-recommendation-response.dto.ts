@@ -0,0 +1,11 @@
+import type { GoalEffort } from '../../../generated/prisma';
+
+export class GoalRecommendation {
+  id: string; // Send back as recommendationId when adding it as a goal
+  text: string;
+  category: string;
+  effort: GoalEffort;
+  source: 'catalog' | 'generated';
+  // Why it ranked, e.g. "struggle:grief", "low:connection", "accepted-before"
+  reasons: string[];
+}
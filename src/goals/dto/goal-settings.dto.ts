@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { GoalRolloverPolicy } from '../../../generated/prisma';
+
+export class UpdateGoalSettingsDto {
+  @IsEnum(GoalRolloverPolicy)
+  rolloverPolicy: GoalRolloverPolicy;
+}
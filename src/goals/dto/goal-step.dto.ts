@@ -0,0 +1,26 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateGoalStepDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  text: string;
+}
+
+export class UpdateGoalStepDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  text?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  completed?: boolean;
+}
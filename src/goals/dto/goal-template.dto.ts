@@ -0,0 +1,127 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { GoalEffort } from '../../../generated/prisma';
+
+export class GoalTemplateTranslationDto {
+  // BCP 47 tag such as "es" or "pt-BR"
+  @Matches(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/)
+  locale: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  text: string;
+}
+
+export class CreateGoalTemplateDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  text: string;
+
+  @Matches(/^[a-z][a-z0-9-]*$/)
+  category: string;
+
+  @IsOptional()
+  @IsEnum(GoalEffort)
+  effort?: GoalEffort;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  struggles?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  dimensions?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => GoalTemplateTranslationDto)
+  translations?: GoalTemplateTranslationDto[];
+}
+
+export class UpdateGoalTemplateDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  text?: string;
+
+  @IsOptional()
+  @Matches(/^[a-z][a-z0-9-]*$/)
+  category?: string;
+
+  @IsOptional()
+  @IsEnum(GoalEffort)
+  effort?: GoalEffort;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  struggles?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  dimensions?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  // Replaces every existing translation when present
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => GoalTemplateTranslationDto)
+  translations?: GoalTemplateTranslationDto[];
+}
+
+export class GetGoalTemplatesQueryDto {
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @IsOptional()
+  @IsString()
+  tag?: string;
+
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  includeInactive?: string;
+}
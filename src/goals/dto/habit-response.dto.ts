@@ -0,0 +1,19 @@
+import type { HabitSchedule } from '../../../generated/prisma';
+
+export class HabitStats {
+  currentStreak: number;
+  bestStreak: number;
+  streakUnit: 'days' | 'weeks'; // Weeks for TIMES_PER_WEEK habits
+  completionRate: number; // 0-1 over the last 30 days
+}
+
+export class HabitResponse {
+  id: string;
+  goal: string;
+  schedule: HabitSchedule;
+  weekdays: number[];
+  timesPerWeek: number | null;
+  paused: boolean;
+  createdAt: Date;
+  stats: HabitStats;
+}
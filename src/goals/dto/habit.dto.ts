@@ -0,0 +1,65 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { HabitSchedule } from '../../../generated/prisma';
+
+export class CreateHabitDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  goal: string;
+
+  @IsEnum(HabitSchedule)
+  schedule: HabitSchedule;
+
+  // 0 = Sunday ... 6 = Saturday. Required for WEEKDAYS.
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  weekdays?: number[];
+
+  // Required for TIMES_PER_WEEK
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  timesPerWeek?: number;
+}
+
+export class UpdateHabitDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  goal?: string;
+
+  @IsOptional()
+  @IsEnum(HabitSchedule)
+  schedule?: HabitSchedule;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  weekdays?: number[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  timesPerWeek?: number;
+}
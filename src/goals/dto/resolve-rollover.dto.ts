@@ -0,0 +1,15 @@
+import { IsArray, IsOptional, IsString } from 'class-validator';
+
+// Decide what happens to goals held over from earlier days (ASK policy).
+// Goals left out of both lists stay pending.
+export class ResolveRolloverDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  carryOver?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  archive?: string[];
+}
@@ -0,0 +1,419 @@
+import type {
+  CatalogGoal,
+  GoalTemplateWithTranslations,
+} from '../goal-template.types';
+
+// Matches the catalog seeded by the goal templates migration
+const SEEDED: CatalogGoal[] = [
+  {
+    id: 'drink-water',
+    text: 'Drink 8 glasses of water today',
+    category: 'nutrition',
+    effort: 'LOW',
+    struggles: [],
+    dimensions: ['energy'],
+  },
+  {
+    id: 'walk-outside',
+    text: 'Take a 10-minute walk outside',
+    category: 'movement',
+    effort: 'LOW',
+    struggles: ['depression', 'stress', 'anxiety'],
+    dimensions: ['energy', 'emotional'],
+  },
+  {
+    id: 'reach-out-friend',
+    text: 'Call or text a friend',
+    category: 'connection',
+    effort: 'LOW',
+    struggles: ['loneliness', 'grief'],
+    dimensions: ['connection'],
+  },
+  {
+    id: 'make-bed',
+    text: 'Make my bed',
+    category: 'routine',
+    effort: 'LOW',
+    struggles: ['depression', 'motivation'],
+    dimensions: ['control'],
+  },
+  {
+    id: 'healthy-breakfast',
+    text: 'Eat a healthy breakfast',
+    category: 'nutrition',
+    effort: 'MEDIUM',
+    struggles: [],
+    dimensions: ['energy'],
+  },
+  {
+    id: 'deep-breathing',
+    text: 'Practice deep breathing for 5 minutes',
+    category: 'mindfulness',
+    effort: 'LOW',
+    struggles: ['anxiety', 'stress'],
+    dimensions: ['stress'],
+  },
+  {
+    id: 'gratitude-list',
+    text: "Write down 3 things I'm grateful for",
+    category: 'reflection',
+    effort: 'LOW',
+    struggles: ['depression', 'self-esteem'],
+    dimensions: ['emotional'],
+  },
+  {
+    id: 'medications',
+    text: 'Take my medications on time',
+    category: 'self-care',
+    effort: 'LOW',
+    struggles: [],
+    dimensions: ['control'],
+  },
+  {
+    id: 'shower-dress',
+    text: 'Shower and get dressed',
+    category: 'self-care',
+    effort: 'LOW',
+    struggles: ['depression', 'grief'],
+    dimensions: ['energy', 'control'],
+  },
+  {
+    id: 'stretching',
+    text: 'Do 10 minutes of stretching',
+    category: 'movement',
+    effort: 'LOW',
+    struggles: ['stress', 'sleep'],
+    dimensions: ['stress', 'energy'],
+  },
+  {
+    id: 'read',
+    text: 'Read for 15 minutes',
+    category: 'rest',
+    effort: 'LOW',
+    struggles: ['stress', 'sleep'],
+    dimensions: ['stress'],
+  },
+  {
+    id: 'favorite-music',
+    text: 'Listen to my favorite music',
+    category: 'rest',
+    effort: 'LOW',
+    struggles: ['grief', 'depression'],
+    dimensions: ['emotional'],
+  },
+  {
+    id: 'healthy-lunch',
+    text: 'Prepare a healthy lunch',
+    category: 'nutrition',
+    effort: 'MEDIUM',
+    struggles: [],
+    dimensions: ['energy'],
+  },
+  {
+    id: 'organize-space',
+    text: 'Organize one small area of my space',
+    category: 'routine',
+    effort: 'MEDIUM',
+    struggles: ['stress', 'motivation'],
+    dimensions: ['control'],
+  },
+  {
+    id: 'sunlight',
+    text: 'Spend 10 minutes in the sun',
+    category: 'movement',
+    effort: 'LOW',
+    struggles: ['depression', 'sleep'],
+    dimensions: ['energy', 'emotional'],
+  },
+  {
+    id: 'small-chore',
+    text: 'Do a small chore (dishes, laundry, etc.)',
+    category: 'routine',
+    effort: 'LOW',
+    struggles: ['motivation', 'depression'],
+    dimensions: ['control'],
+  },
+  {
+    id: 'hobby',
+    text: 'Practice a hobby I enjoy',
+    category: 'creativity',
+    effort: 'MEDIUM',
+    struggles: ['depression', 'stress'],
+    dimensions: ['emotional'],
+  },
+  {
+    id: 'limit-social-media',
+    text: 'Limit social media to 30 minutes',
+    category: 'routine',
+    effort: 'MEDIUM',
+    struggles: ['anxiety', 'self-esteem', 'sleep'],
+    dimensions: ['stress', 'control'],
+  },
+  {
+    id: 'bedtime',
+    text: 'Go to bed by 10 PM',
+    category: 'rest',
+    effort: 'MEDIUM',
+    struggles: ['sleep'],
+    dimensions: ['energy'],
+  },
+  {
+    id: 'journal',
+    text: 'Journal about my day',
+    category: 'reflection',
+    effort: 'MEDIUM',
+    struggles: ['grief', 'anxiety', 'stress'],
+    dimensions: ['emotional', 'stress'],
+  },
+  {
+    id: 'meditate',
+    text: 'Meditate for 10 minutes',
+    category: 'mindfulness',
+    effort: 'MEDIUM',
+    struggles: ['anxiety', 'stress', 'sleep'],
+    dimensions: ['stress'],
+  },
+  {
+    id: 'reach-out-therapist',
+    text: 'Reach out to my therapist/counselor',
+    category: 'support',
+    effort: 'MEDIUM',
+    struggles: ['grief', 'depression', 'anxiety'],
+    dimensions: ['emotional', 'control'],
+  },
+  {
+    id: 'cook-meal',
+    text: 'Cook a meal from scratch',
+    category: 'nutrition',
+    effort: 'HIGH',
+    struggles: [],
+    dimensions: ['energy', 'control'],
+  },
+  {
+    id: 'relaxing-bath',
+    text: 'Take a relaxing bath',
+    category: 'rest',
+    effort: 'LOW',
+    struggles: ['stress', 'sleep'],
+    dimensions: ['stress'],
+  },
+  {
+    id: 'smile',
+    text: 'Do one thing that makes me smile',
+    category: 'self-care',
+    effort: 'LOW',
+    struggles: ['depression', 'grief'],
+    dimensions: ['emotional'],
+  },
+  {
+    id: 'animal-time',
+    text: 'Pet or spend time with an animal',
+    category: 'connection',
+    effort: 'LOW',
+    struggles: ['loneliness', 'anxiety'],
+    dimensions: ['connection', 'stress'],
+  },
+  {
+    id: 'favorite-show',
+    text: 'Watch a favorite show or movie',
+    category: 'rest',
+    effort: 'LOW',
+    struggles: ['stress', 'grief'],
+    dimensions: ['emotional'],
+  },
+  {
+    id: 'work-task',
+    text: 'Complete one work/school task',
+    category: 'routine',
+    effort: 'MEDIUM',
+    struggles: ['motivation'],
+    dimensions: ['control'],
+  },
+  {
+    id: 'say-no',
+    text: 'Practice saying no to something',
+    category: 'growth',
+    effort: 'MEDIUM',
+    struggles: ['stress', 'self-esteem'],
+    dimensions: ['control', 'stress'],
+  },
+  {
+    id: 'take-break',
+    text: 'Take a break when I need it',
+    category: 'self-care',
+    effort: 'LOW',
+    struggles: ['stress', 'anxiety'],
+    dimensions: ['stress', 'energy'],
+  },
+  {
+    id: 'three-meals',
+    text: 'Eat three meals today',
+    category: 'nutrition',
+    effort: 'MEDIUM',
+    struggles: ['grief', 'depression'],
+    dimensions: ['energy'],
+  },
+  {
+    id: 'fresh-air',
+    text: 'Open my windows for fresh air',
+    category: 'self-care',
+    effort: 'LOW',
+    struggles: ['depression'],
+    dimensions: ['energy'],
+  },
+  {
+    id: 'water-plants',
+    text: 'Water my plants',
+    category: 'routine',
+    effort: 'LOW',
+    struggles: [],
+    dimensions: ['control'],
+  },
+  {
+    id: 'quick-cleanup',
+    text: 'Do a 5-minute cleanup',
+    category: 'routine',
+    effort: 'LOW',
+    struggles: ['motivation', 'stress'],
+    dimensions: ['control'],
+  },
+  {
+    id: 'progress-notes',
+    text: 'Take progress photos or notes',
+    category: 'reflection',
+    effort: 'LOW',
+    struggles: ['self-esteem', 'motivation'],
+    dimensions: ['control'],
+  },
+  {
+    id: 'support-group',
+    text: 'Attend a support group or meeting',
+    category: 'support',
+    effort: 'HIGH',
+    struggles: ['grief', 'loneliness'],
+    dimensions: ['connection'],
+  },
+  {
+    id: 'new-recipe',
+    text: 'Try a new healthy recipe',
+    category: 'nutrition',
+    effort: 'HIGH',
+    struggles: [],
+    dimensions: ['energy'],
+  },
+  {
+    id: 'act-of-kindness',
+    text: 'Do a random act of kindness',
+    category: 'connection',
+    effort: 'MEDIUM',
+    struggles: ['loneliness', 'self-esteem'],
+    dimensions: ['connection', 'emotional'],
+  },
+  {
+    id: 'declutter',
+    text: 'Declutter one drawer or surface',
+    category: 'routine',
+    effort: 'MEDIUM',
+    struggles: ['stress'],
+    dimensions: ['control'],
+  },
+  {
+    id: 'avoided-appointment',
+    text: "Schedule an appointment I've been avoiding",
+    category: 'growth',
+    effort: 'MEDIUM',
+    struggles: ['anxiety', 'motivation'],
+    dimensions: ['control'],
+  },
+  {
+    id: 'positive-self-talk',
+    text: 'Practice positive self-talk',
+    category: 'growth',
+    effort: 'LOW',
+    struggles: ['self-esteem', 'depression'],
+    dimensions: ['emotional'],
+  },
+  {
+    id: 'avoid-triggers',
+    text: 'Avoid negative triggers today',
+    category: 'self-care',
+    effort: 'MEDIUM',
+    struggles: ['anxiety', 'grief'],
+    dimensions: ['stress'],
+  },
+  {
+    id: 'creative-project',
+    text: 'Spend time on a creative project',
+    category: 'creativity',
+    effort: 'MEDIUM',
+    struggles: ['grief', 'depression'],
+    dimensions: ['emotional'],
+  },
+  {
+    id: 'exercise',
+    text: 'Exercise for 20 minutes',
+    category: 'movement',
+    effort: 'HIGH',
+    struggles: ['depression', 'stress', 'sleep'],
+    dimensions: ['energy', 'stress'],
+  },
+  {
+    id: 'mindful-eating',
+    text: 'Practice mindfulness while eating',
+    category: 'mindfulness',
+    effort: 'LOW',
+    struggles: ['anxiety'],
+    dimensions: ['stress'],
+  },
+  {
+    id: 'nature',
+    text: 'Connect with nature somehow',
+    category: 'movement',
+    effort: 'LOW',
+    struggles: ['stress', 'grief'],
+    dimensions: ['emotional', 'stress'],
+  },
+  {
+    id: 'guided-relaxation',
+    text: 'Do a guided relaxation exercise',
+    category: 'mindfulness',
+    effort: 'LOW',
+    struggles: ['anxiety', 'sleep'],
+    dimensions: ['stress'],
+  },
+  {
+    id: 'celebrate-win',
+    text: 'Celebrate a small win',
+    category: 'reflection',
+    effort: 'LOW',
+    struggles: ['self-esteem', 'motivation'],
+    dimensions: ['emotional', 'control'],
+  },
+  {
+    id: 'ask-for-help',
+    text: 'Ask for help when I need it',
+    category: 'support',
+    effort: 'MEDIUM',
+    struggles: ['loneliness', 'stress', 'grief'],
+    dimensions: ['connection', 'control'],
+  },
+  {
+    id: 'be-gentle',
+    text: 'Be gentle with myself today',
+    category: 'self-care',
+    effort: 'LOW',
+    struggles: ['grief', 'self-esteem'],
+    dimensions: ['emotional'],
+  },
+];
+
+export const GOAL_TEMPLATES: GoalTemplateWithTranslations[] = SEEDED.map(
+  (template) => ({
+    ...template,
+    tags: [],
+    isActive: true,
+    createdAt: new Date('2026-10-19T17:30:00Z'),
+    updatedAt: new Date('2026-10-19T17:30:00Z'),
+    translations: [],
+  }),
+);
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { GoalStepsService } from './goal-steps.service';
+import { PrismaService } from '../database/database.service';
+
+describe('GoalStepsService', () => {
+  let service: GoalStepsService;
+  const prisma = {
+    dailyGoal: {
+      findFirst: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+    goalStep: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      aggregate: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const goal = (overrides = {}) => ({
+    id: 'g1',
+    userId: 'user-1',
+    goal: "Schedule an appointment I've been avoiding",
+    completed: false,
+    completedAt: null,
+    rolloverOutcome: null,
+    steps: [] as { id: string; completed: boolean }[],
+    ...overrides,
+  });
+  const step = (id: string, completed: boolean) => ({
+    id,
+    goalId: 'g1',
+    text: `Step ${id}`,
+    completed,
+    completedAt: completed ? new Date() : null,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (arg: ((tx: typeof prisma) => Promise<unknown>) | unknown[]) =>
+        typeof arg === 'function' ? arg(prisma) : Promise.all(arg),
+    );
+    prisma.dailyGoal.findFirst.mockResolvedValue(goal());
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GoalStepsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<GoalStepsService>(GoalStepsService);
+  });
+
+  describe('updateStep', () => {
+    it('completes the goal once the last step is ticked off', async () => {
+      prisma.goalStep.findFirst.mockResolvedValue(step('s2', false));
+      prisma.dailyGoal.findUniqueOrThrow.mockResolvedValue(
+        goal({ steps: [step('s1', true), step('s2', true)] }),
+      );
+
+      await service.updateStep('user-1', 'g1', 's2', { completed: true });
+
+      const [[{ data }]] = prisma.dailyGoal.update.mock.calls as [
+        [{ data: { completed: boolean; completedAt: Date | null } }],
+      ];
+      expect(data.completed).toBe(true);
+      expect(data.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('leaves the goal alone while steps remain', async () => {
+      prisma.goalStep.findFirst.mockResolvedValue(step('s1', false));
+      prisma.dailyGoal.findUniqueOrThrow.mockResolvedValue(
+        goal({ steps: [step('s1', true), step('s2', false)] }),
+      );
+
+      await service.updateStep('user-1', 'g1', 's1', { completed: true });
+
+      expect(prisma.dailyGoal.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses steps of a goal whose day has ended', async () => {
+      prisma.dailyGoal.findFirst.mockResolvedValue(
+        goal({ rolloverOutcome: 'ARCHIVED' }),
+      );
+
+      await expect(
+        service.updateStep('user-1', 'g1', 's1', { completed: true }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('throws for steps of another goal', async () => {
+      prisma.goalStep.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.updateStep('user-1', 'g1', 'other', { text: 'Hi' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('addStep', () => {
+    it('reopens a completed goal and appends the step', async () => {
+      prisma.goalStep.aggregate.mockResolvedValue({ _max: { position: 1 } });
+      prisma.dailyGoal.findUniqueOrThrow.mockResolvedValue(
+        goal({
+          completed: true,
+          steps: [step('s1', true), step('s2', true), step('s3', false)],
+        }),
+      );
+
+      await service.addStep('user-1', 'g1', { text: ' Call the clinic ' });
+
+      expect(prisma.goalStep.create).toHaveBeenCalledWith({
+        data: { goalId: 'g1', text: 'Call the clinic', position: 2 },
+      });
+      expect(prisma.dailyGoal.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { completed: false, completedAt: null },
+        }) as object,
+      );
+    });
+  });
+
+  describe('reorderSteps', () => {
+    it('rejects unknown step ids', async () => {
+      prisma.goalStep.findMany.mockResolvedValue([{ id: 's1' }]);
+
+      await expect(
+        service.reorderSteps('user-1', 'g1', ['s1', 's9']),
+      ).rejects.toThrow('Unknown step: s9');
+    });
+  });
+});
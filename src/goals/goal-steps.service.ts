@@ -0,0 +1,152 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../database/database.service';
+import type { Prisma } from '../../generated/prisma';
+import { CreateGoalStepDto, UpdateGoalStepDto } from './dto/goal-step.dto';
+import { assertCompleteOrder } from './reorder';
+
+// Goals are returned with their checklist in order
+export const WITH_STEPS = {
+  steps: { orderBy: { position: 'asc' } },
+} as const;
+
+@Injectable()
+export class GoalStepsService {
+  constructor(private prisma: PrismaService) {}
+
+  async addStep(userId: string, goalId: string, dto: CreateGoalStepDto) {
+    await this.findOpenGoal(userId, goalId);
+
+    return this.prisma.$transaction(async (tx) => {
+      const last = await tx.goalStep.aggregate({
+        where: { goalId },
+        _max: { position: true },
+      });
+
+      await tx.goalStep.create({
+        data: {
+          goalId,
+          text: dto.text.trim(),
+          position: (last._max.position ?? -1) + 1,
+        },
+      });
+
+      return this.syncCompletion(tx, goalId);
+    });
+  }
+
+  async updateStep(
+    userId: string,
+    goalId: string,
+    stepId: string,
+    dto: UpdateGoalStepDto,
+  ) {
+    await this.findOpenGoal(userId, goalId);
+    const step = await this.findStep(goalId, stepId);
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.goalStep.update({
+        where: { id: step.id },
+        data: {
+          ...(dto.text !== undefined && { text: dto.text.trim() }),
+          ...(dto.completed !== undefined &&
+            dto.completed !== step.completed && {
+              completed: dto.completed,
+              completedAt: dto.completed ? new Date() : null,
+            }),
+        },
+      });
+
+      return this.syncCompletion(tx, goalId);
+    });
+  }
+
+  async deleteStep(userId: string, goalId: string, stepId: string) {
+    await this.findOpenGoal(userId, goalId);
+    await this.findStep(goalId, stepId);
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.goalStep.delete({ where: { id: stepId } });
+      return this.syncCompletion(tx, goalId);
+    });
+  }
+
+  async reorderSteps(userId: string, goalId: string, ids: string[]) {
+    await this.findOpenGoal(userId, goalId);
+
+    const steps = await this.prisma.goalStep.findMany({
+      where: { goalId },
+      select: { id: true },
+    });
+    assertCompleteOrder(
+      steps.map((step) => step.id),
+      ids,
+      'step',
+    );
+
+    await this.prisma.$transaction(
+      ids.map((id, position) =>
+        this.prisma.goalStep.update({ where: { id }, data: { position } }),
+      ),
+    );
+
+    return this.prisma.dailyGoal.findUniqueOrThrow({
+      where: { id: goalId },
+      include: WITH_STEPS,
+    });
+  }
+
+  /**
+   * A goal with steps is complete exactly when all of them are. Goals
+   * without steps keep whatever the user last toggled.
+   */
+  private async syncCompletion(tx: Prisma.TransactionClient, goalId: string) {
+    const goal = await tx.dailyGoal.findUniqueOrThrow({
+      where: { id: goalId },
+      include: WITH_STEPS,
+    });
+    if (goal.steps.length === 0) return goal;
+
+    const completed = goal.steps.every((step) => step.completed);
+    if (completed === goal.completed) return goal;
+
+    return tx.dailyGoal.update({
+      where: { id: goalId },
+      data: { completed, completedAt: completed ? new Date() : null },
+      include: WITH_STEPS,
+    });
+  }
+
+  private async findOpenGoal(userId: string, goalId: string) {
+    const goal = await this.prisma.dailyGoal.findFirst({
+      where: { id: goalId, userId },
+    });
+
+    if (!goal) {
+      throw new NotFoundException('Goal not found');
+    }
+
+    if (goal.rolloverOutcome) {
+      throw new BadRequestException(
+        "This goal's day has ended; update today's goal instead",
+      );
+    }
+
+    return goal;
+  }
+
+  private async findStep(goalId: string, stepId: string) {
+    const step = await this.prisma.goalStep.findFirst({
+      where: { id: stepId, goalId },
+    });
+
+    if (!step) {
+      throw new NotFoundException('Step not found');
+    }
+
+    return step;
+  }
+}
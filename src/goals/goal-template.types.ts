@@ -0,0 +1,14 @@
+import type {
+  GoalTemplate,
+  GoalTemplateTranslation,
+} from '../../generated/prisma';
+
+export type GoalTemplateWithTranslations = GoalTemplate & {
+  translations: Pick<GoalTemplateTranslation, 'locale' | 'text'>[];
+};
+
+// An active template as one user sees it, worded for their locale
+export type CatalogGoal = Pick<
+  GoalTemplate,
+  'id' | 'text' | 'category' | 'effort' | 'struggles' | 'dimensions'
+>;
@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard, Roles } from '@thallesp/nestjs-better-auth';
+import { GoalTemplatesService } from './goal-templates.service';
+import { validateBody } from '../common/validate-body';
+import {
+  CreateGoalTemplateDto,
+  GetGoalTemplatesQueryDto,
+  UpdateGoalTemplateDto,
+} from './dto/goal-template.dto';
+
+@Controller('goals/templates')
+@UseGuards(AuthGuard)
+@Roles(['admin', 'superadmin'])
+export class GoalTemplatesController {
+  constructor(private readonly goalTemplatesService: GoalTemplatesService) {}
+
+  /**
+   * GET /goals/templates?category=movement&tag=winter&includeInactive=true
+   * The recommendation catalog with every translation
+   */
+  @Get()
+  async listTemplates(@Query() query: GetGoalTemplatesQueryDto) {
+    const templates = await this.goalTemplatesService.listTemplates(query);
+    return {
+      data: templates,
+      count: templates.length,
+    };
+  }
+
+  /**
+   * GET /goals/templates/:id
+   */
+  @Get(':id')
+  async getTemplate(@Param('id') id: string) {
+    const template = await this.goalTemplatesService.getTemplate(id);
+    return { data: template };
+  }
+
+  /**
+   * POST /goals/templates
+   * Add a template; active ones are recommended straight away
+   */
+  @Post()
+  async createTemplate(@Body() body: unknown) {
+    const dto = await validateBody(CreateGoalTemplateDto, body);
+    const template = await this.goalTemplatesService.createTemplate(dto);
+    return {
+      data: template,
+      message: 'Goal template created successfully',
+    };
+  }
+
+  /**
+   * PATCH /goals/templates/:id
+   * Edit wording, tags or translations, or set isActive to hide it
+   */
+  @Patch(':id')
+  async updateTemplate(@Param('id') id: string, @Body() body: unknown) {
+    const dto = await validateBody(UpdateGoalTemplateDto, body);
+    const template = await this.goalTemplatesService.updateTemplate(id, dto);
+    return {
+      data: template,
+      message: 'Goal template updated successfully',
+    };
+  }
+
+  /**
+   * DELETE /goals/templates/:id
+   */
+  @Delete(':id')
+  async deleteTemplate(@Param('id') id: string) {
+    return this.goalTemplatesService.deleteTemplate(id);
+  }
+}
@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { GoalTemplatesService } from './goal-templates.service';
+import { PrismaService } from '../database/database.service';
+import { GOAL_TEMPLATES } from './fixtures/goal-templates.fixture';
+
+describe('GoalTemplatesService', () => {
+  let service: GoalTemplatesService;
+  const prisma = {
+    goalTemplate: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    goalTemplateTranslation: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const [walk] = GOAL_TEMPLATES.filter((t) => t.id === 'walk-outside');
+  const translatedWalk = {
+    ...walk,
+    translations: [
+      { locale: 'es', text: 'Dar un paseo de 10 minutos' },
+      { locale: 'pt-BR', text: 'Fazer uma caminhada de 10 minutos' },
+    ],
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GoalTemplatesService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<GoalTemplatesService>(GoalTemplatesService);
+  });
+
+  describe('getCatalog', () => {
+    it('uses the closest translation and falls back to English', async () => {
+      prisma.goalTemplate.findMany.mockResolvedValue([translatedWalk]);
+
+      const [brazil] = await service.getCatalog('pt-BR,pt;q=0.9');
+      const [mexico] = await service.getCatalog('es-MX');
+      const [french] = await service.getCatalog('fr');
+
+      expect(brazil.text).toBe('Fazer uma caminhada de 10 minutos');
+      expect(mexico.text).toBe('Dar un paseo de 10 minutos');
+      expect(french.text).toBe(walk.text);
+    });
+
+    it('is cached until the catalog is edited', async () => {
+      prisma.goalTemplate.findMany.mockResolvedValue(GOAL_TEMPLATES);
+      prisma.goalTemplate.findUnique.mockResolvedValue(walk);
+      prisma.goalTemplate.update.mockResolvedValue(walk);
+
+      await service.getCatalog();
+      await service.getCatalog();
+      expect(prisma.goalTemplate.findMany).toHaveBeenCalledTimes(1);
+
+      await service.updateTemplate('walk-outside', { isActive: false });
+      await service.getCatalog();
+      expect(prisma.goalTemplate.findMany).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('replaces translations when they are sent', async () => {
+      prisma.goalTemplate.findUnique.mockResolvedValue(walk);
+
+      await service.updateTemplate('walk-outside', {
+        translations: [{ locale: 'es', text: ' Caminar 10 minutos ' }],
+      });
+
+      expect(prisma.goalTemplateTranslation.deleteMany).toHaveBeenCalledWith({
+        where: { templateId: 'walk-outside' },
+      });
+      expect(prisma.goalTemplateTranslation.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            templateId: 'walk-outside',
+            locale: 'es',
+            text: 'Caminar 10 minutos',
+          },
+        ],
+      });
+    });
+
+    it('rejects two translations for one locale', async () => {
+      prisma.goalTemplate.findUnique.mockResolvedValue(walk);
+
+      await expect(
+        service.updateTemplate('walk-outside', {
+          translations: [
+            { locale: 'es', text: 'Uno' },
+            { locale: 'ES', text: 'Dos' },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('throws for unknown templates', async () => {
+      prisma.goalTemplate.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.updateTemplate('missing', { text: 'Anything' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../database/database.service';
+import {
+  CreateGoalTemplateDto,
+  GetGoalTemplatesQueryDto,
+  GoalTemplateTranslationDto,
+  UpdateGoalTemplateDto,
+} from './dto/goal-template.dto';
+import {
+  CatalogGoal,
+  GoalTemplateWithTranslations,
+} from './goal-template.types';
+
+const TRANSLATIONS = { select: { locale: true, text: true } } as const;
+
+@Injectable()
+export class GoalTemplatesService {
+  private readonly cacheTtlMs: number;
+  // Active templates, dropped on every edit made through this instance
+  private cache: {
+    templates: GoalTemplateWithTranslations[];
+    expiresAt: number;
+  } | null = null;
+
+  constructor(private readonly prisma: PrismaService) {
+    // Edits made through another instance show up once this runs out
+    this.cacheTtlMs =
+      Number(process.env.GOAL_TEMPLATES_CACHE_TTL_MS) || 5 * 60 * 1000;
+  }
+
+  /**
+   * Active templates worded for the locale, e.g. "pt-BR" or an
+   * Accept-Language header. Falls back to the base language, then English.
+   */
+  async getCatalog(locale?: string): Promise<CatalogGoal[]> {
+    const preferred = this.parseLocales(locale);
+
+    return (await this.getActiveTemplates()).map((template) => ({
+      id: template.id,
+      text: this.localize(template, preferred),
+      category: template.category,
+      effort: template.effort,
+      struggles: template.struggles,
+      dimensions: template.dimensions,
+    }));
+  }
+
+  async isActiveTemplate(id: string) {
+    return (await this.getActiveTemplates()).some(
+      (template) => template.id === id,
+    );
+  }
+
+  async listTemplates(query: GetGoalTemplatesQueryDto = {}) {
+    return this.prisma.goalTemplate.findMany({
+      where: {
+        ...(query.includeInactive !== 'true' && { isActive: true }),
+        ...(query.category && { category: query.category }),
+        ...(query.tag && { tags: { has: query.tag } }),
+      },
+      include: { translations: TRANSLATIONS },
+      orderBy: [{ category: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async getTemplate(id: string): Promise<GoalTemplateWithTranslations> {
+    const template = await this.prisma.goalTemplate.findUnique({
+      where: { id },
+      include: { translations: TRANSLATIONS },
+    });
+
+    if (!template) {
+      throw new NotFoundException('Goal template not found');
+    }
+
+    return template;
+  }
+
+  async createTemplate(dto: CreateGoalTemplateDto) {
+    const { translations, ...fields } = dto;
+
+    const template = await this.prisma.goalTemplate.create({
+      data: {
+        ...fields,
+        translations: { create: this.checkTranslations(translations ?? []) },
+      },
+      include: { translations: TRANSLATIONS },
+    });
+
+    this.invalidate();
+    return template;
+  }
+
+  async updateTemplate(id: string, dto: UpdateGoalTemplateDto) {
+    await this.getTemplate(id);
+    const { translations, ...fields } = dto;
+
+    const template = await this.prisma.$transaction(async (tx) => {
+      if (translations) {
+        await tx.goalTemplateTranslation.deleteMany({
+          where: { templateId: id },
+        });
+        await tx.goalTemplateTranslation.createMany({
+          data: this.checkTranslations(translations).map((translation) => ({
+            templateId: id,
+            ...translation,
+          })),
+        });
+      }
+
+      return tx.goalTemplate.update({
+        where: { id },
+        data: fields,
+        include: { translations: TRANSLATIONS },
+      });
+    });
+
+    this.invalidate();
+    return template;
+  }
+
+  /**
+   * Remove a template for good. Deactivate it instead to keep it out of
+   * recommendations while past impressions still resolve.
+   */
+  async deleteTemplate(id: string) {
+    await this.getTemplate(id);
+    await this.prisma.goalTemplate.delete({ where: { id } });
+
+    this.invalidate();
+    return { message: 'Goal template deleted successfully' };
+  }
+
+  invalidate() {
+    this.cache = null;
+  }
+
+  private async getActiveTemplates() {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.templates;
+    }
+
+    const templates = await this.prisma.goalTemplate.findMany({
+      where: { isActive: true },
+      include: { translations: TRANSLATIONS },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    this.cache = { templates, expiresAt: Date.now() + this.cacheTtlMs };
+    return templates;
+  }
+
+  private localize(
+    template: GoalTemplateWithTranslations,
+    preferred: string[],
+  ) {
+    for (const locale of preferred) {
+      const match = template.translations.find(
+        (translation) => translation.locale.toLowerCase() === locale,
+      );
+      if (match) return match.text;
+    }
+    return template.text;
+  }
+
+  /**
+   * Lowercased locales to try in order: "pt-BR,pt;q=0.9" gives
+   * ["pt-br", "pt"]
+   */
+  private parseLocales(locale?: string): string[] {
+    const tags = (locale ?? '')
+      .split(',')
+      .map((part) => part.split(';')[0].trim().replace('_', '-').toLowerCase())
+      .filter((tag) => tag && tag !== '*');
+
+    return [...new Set(tags.flatMap((tag) => [tag, tag.split('-')[0]]))];
+  }
+
+  private checkTranslations(translations: GoalTemplateTranslationDto[]) {
+    const locales = translations.map((t) => t.locale.toLowerCase());
+    const duplicate = locales.find(
+      (locale, i) => locales.indexOf(locale) !== i,
+    );
+    if (duplicate) {
+      throw new BadRequestException(`Duplicate translation for ${duplicate}`);
+    }
+
+    return translations.map(({ locale, text }) => ({
+      locale,
+      text: text.trim(),
+    }));
+  }
+}
@@ -2,37 +2,256 @@ import {
   Controller,
   Delete,
   Get,
+  Headers,
   Post,
   Patch,
   Body,
   Param,
   Query,
   UseGuards,
-  Session,
 } from '@nestjs/common';
 import { GoalsService } from './goals.service';
-import { AuthGuard, type UserSession } from '@thallesp/nestjs-better-auth';
+import { HabitsService } from './habits.service';
+import { GoalRecommendationsService } from './recommendations.service';
+import { GoalStepsService } from './goal-steps.service';
+import { validateBody } from '../common/validate-body';
+import {
+  AuthGuard,
+  Session,
+  type UserSession,
+} from '@thallesp/nestjs-better-auth';
+import { Timezone } from '../common/decorators/timezone.decorators';
 import { CreateGoalDto } from './dto/create-goal.dto';
 import { GetRecommendationsQueryDto } from './dto/get-goal-recommendations.dto';
+import { GetGoalHistoryQueryDto } from './dto/get-goal-history-query.dto';
+import { UpdateGoalSettingsDto } from './dto/goal-settings.dto';
+import { ResolveRolloverDto } from './dto/resolve-rollover.dto';
+import { CreateHabitDto, UpdateHabitDto } from './dto/habit.dto';
+import { ReorderDto, UpdateGoalDto } from './dto/update-goal.dto';
+import { CreateGoalStepDto, UpdateGoalStepDto } from './dto/goal-step.dto';
 
 @UseGuards(AuthGuard)
 @Controller('goals')
 export class GoalsController {
-  constructor(private readonly goalsService: GoalsService) {}
+  constructor(
+    private readonly goalsService: GoalsService,
+    private readonly habitsService: HabitsService,
+    private readonly recommendationsService: GoalRecommendationsService,
+    private readonly goalStepsService: GoalStepsService,
+  ) {}
 
   /**
    * GET /goals
-   * Get all active goals for today
+   * Get today's goals in the user's timezone
    */
   @Get('')
-  async getGoals(@Session() session: UserSession) {
-    const goals = await this.goalsService.getTodaysGoals(session.user.id);
+  async getGoals(
+    @Session() session: UserSession,
+    @Timezone() timezone: string,
+  ) {
+    const { goals, pendingRollover } = await this.goalsService.getTodaysGoals(
+      session.user.id,
+      timezone,
+    );
     return {
       data: goals,
       count: goals.length,
+      pendingRollover,
+    };
+  }
+
+  /**
+   * GET /goals/history?from=2026-05-01&to=2026-05-31
+   * Per-day goal completion, newest first
+   */
+  @Get('history')
+  async getGoalHistory(
+    @Session() session: UserSession,
+    @Query() query: GetGoalHistoryQueryDto,
+    @Timezone() timezone: string,
+  ) {
+    const days = await this.goalsService.getGoalHistory(
+      session.user.id,
+      timezone,
+      query,
+    );
+    return {
+      data: days,
+      count: days.length,
+    };
+  }
+
+  /**
+   * GET /goals/settings
+   * What happens to unfinished goals at local midnight
+   */
+  @Get('settings')
+  async getGoalSettings(@Session() session: UserSession) {
+    const settings = await this.goalsService.getGoalSettings(session.user.id);
+    return { data: settings };
+  }
+
+  /**
+   * PATCH /goals/settings
+   * Change the rollover policy (CARRY_OVER, ARCHIVE or ASK)
+   */
+  @Patch('settings')
+  async updateGoalSettings(
+    @Session() session: UserSession,
+    @Body() body: unknown,
+  ) {
+    const dto = await validateBody(UpdateGoalSettingsDto, body);
+    const settings = await this.goalsService.updateGoalSettings(
+      session.user.id,
+      dto.rolloverPolicy,
+    );
+    return {
+      data: settings,
+      message: 'Goal settings updated successfully',
+    };
+  }
+
+  /**
+   * POST /goals/rollover
+   * Carry over or archive goals held from earlier days
+   */
+  @Post('rollover')
+  async resolveRollover(
+    @Session() session: UserSession,
+    @Body() body: unknown,
+    @Timezone() timezone: string,
+  ) {
+    const dto = await validateBody(ResolveRolloverDto, body);
+    const result = await this.goalsService.resolveRollover(
+      session.user.id,
+      dto,
+      timezone,
+    );
+    return {
+      data: result,
+      message: 'Rollover applied',
+    };
+  }
+
+  /**
+   * GET /goals/habits
+   * Active habits with streaks and completion rate
+   */
+  @Get('habits')
+  async getHabits(
+    @Session() session: UserSession,
+    @Timezone() timezone: string,
+  ) {
+    const habits = await this.habitsService.listHabits(
+      session.user.id,
+      timezone,
+    );
+    return {
+      data: habits,
+      count: habits.length,
+    };
+  }
+
+  /**
+   * POST /goals/habits
+   * Create a recurring goal (DAILY, WEEKDAYS or TIMES_PER_WEEK)
+   */
+  @Post('habits')
+  async createHabit(
+    @Session() session: UserSession,
+    @Body() body: unknown,
+    @Timezone() timezone: string,
+  ) {
+    const dto = await validateBody(CreateHabitDto, body);
+    const habit = await this.habitsService.createHabit(
+      session.user.id,
+      dto,
+      timezone,
+    );
+    return {
+      data: habit,
+      message: 'Habit created successfully',
+    };
+  }
+
+  /**
+   * PATCH /goals/habits/:id
+   * Change a habit's text or schedule
+   */
+  @Patch('habits/:id')
+  async updateHabit(
+    @Session() session: UserSession,
+    @Param('id') habitId: string,
+    @Body() body: unknown,
+    @Timezone() timezone: string,
+  ) {
+    const dto = await validateBody(UpdateHabitDto, body);
+    const habit = await this.habitsService.updateHabit(
+      session.user.id,
+      habitId,
+      dto,
+      timezone,
+    );
+    return {
+      data: habit,
+      message: 'Habit updated successfully',
+    };
+  }
+
+  /**
+   * POST /goals/habits/:id/pause
+   * Pause a habit without breaking its streak
+   */
+  @Post('habits/:id/pause')
+  async pauseHabit(
+    @Session() session: UserSession,
+    @Param('id') habitId: string,
+    @Timezone() timezone: string,
+  ) {
+    const habit = await this.habitsService.pauseHabit(
+      session.user.id,
+      habitId,
+      timezone,
+    );
+    return {
+      data: habit,
+      message: 'Habit paused',
+    };
+  }
+
+  /**
+   * POST /goals/habits/:id/resume
+   * Resume a paused habit from today
+   */
+  @Post('habits/:id/resume')
+  async resumeHabit(
+    @Session() session: UserSession,
+    @Param('id') habitId: string,
+    @Timezone() timezone: string,
+  ) {
+    const habit = await this.habitsService.resumeHabit(
+      session.user.id,
+      habitId,
+      timezone,
+    );
+    return {
+      data: habit,
+      message: 'Habit resumed',
     };
   }
 
+  /**
+   * DELETE /goals/habits/:id
+   * Archive a habit; past days stay in the history
+   */
+  @Delete('habits/:id')
+  async archiveHabit(
+    @Session() session: UserSession,
+    @Param('id') habitId: string,
+  ) {
+    return this.habitsService.archiveHabit(session.user.id, habitId);
+  }
+
   /**
    * POST /goals
    * Create a new goal
@@ -40,11 +259,14 @@ export class GoalsController {
   @Post('')
   async createGoal(
     @Session() session: UserSession,
-    @Body() createGoalDto: CreateGoalDto,
+    @Body() body: unknown,
+    @Timezone() timezone: string,
   ) {
+    const dto = await validateBody(CreateGoalDto, body);
     const goal = await this.goalsService.createGoal(
       session.user.id,
-      createGoalDto,
+      dto,
+      timezone,
     );
     return {
       data: goal,
@@ -52,6 +274,28 @@ export class GoalsController {
     };
   }
 
+  /**
+   * POST /goals/reorder
+   * Set the order of today's goals; ids must list every one of them
+   */
+  @Post('reorder')
+  async reorderGoals(
+    @Session() session: UserSession,
+    @Body() body: unknown,
+    @Timezone() timezone: string,
+  ) {
+    const { ids } = await validateBody(ReorderDto, body);
+    const goals = await this.goalsService.reorderGoals(
+      session.user.id,
+      ids,
+      timezone,
+    );
+    return {
+      data: goals,
+      count: goals.length,
+    };
+  }
+
   /**
    * PATCH /goals/:id/toggle
    * Toggle goal completion status
@@ -72,20 +316,138 @@ export class GoalsController {
   }
 
   /**
-   * GET /goals/recommendations
-   * Get random goal recommendations
+   * GET /goals/recommendations?count=4&locale=es
+   * Goal suggestions ranked for the user's struggles and recent check-ins
    */
   @Get('recommendations')
-  async getGoalRecommendations(@Query() query: GetRecommendationsQueryDto) {
-    const recommendations = this.goalsService.getGoalRecommendations(
-      query.count,
-    );
+  async getGoalRecommendations(
+    @Session() session: UserSession,
+    @Query() query: GetRecommendationsQueryDto,
+    @Timezone() timezone: string,
+    @Headers('accept-language') acceptLanguage?: string,
+  ) {
+    const recommendations =
+      await this.recommendationsService.getRecommendations(
+        session.user.id,
+        timezone,
+        { count: query.count, locale: query.locale ?? acceptLanguage },
+      );
     return {
       data: recommendations,
       count: recommendations.length,
     };
   }
 
+  /**
+   * PATCH /goals/:id
+   * Edit the goal text or notes (null clears the notes)
+   */
+  @Patch(':id')
+  async updateGoal(
+    @Session() session: UserSession,
+    @Param('id') goalId: string,
+    @Body() body: unknown,
+  ) {
+    const dto = await validateBody(UpdateGoalDto, body);
+    const goal = await this.goalsService.updateGoal(
+      session.user.id,
+      goalId,
+      dto,
+    );
+    return {
+      data: goal,
+      message: 'Goal updated successfully',
+    };
+  }
+
+  /**
+   * POST /goals/:id/steps
+   * Add a step to the goal's checklist
+   */
+  @Post(':id/steps')
+  async addStep(
+    @Session() session: UserSession,
+    @Param('id') goalId: string,
+    @Body() body: unknown,
+  ) {
+    const dto = await validateBody(CreateGoalStepDto, body);
+    const goal = await this.goalStepsService.addStep(
+      session.user.id,
+      goalId,
+      dto,
+    );
+    return {
+      data: goal,
+      message: 'Step added successfully',
+    };
+  }
+
+  /**
+   * POST /goals/:id/steps/reorder
+   * Set the order of the goal's steps; ids must list every one of them
+   */
+  @Post(':id/steps/reorder')
+  async reorderSteps(
+    @Session() session: UserSession,
+    @Param('id') goalId: string,
+    @Body() body: unknown,
+  ) {
+    const { ids } = await validateBody(ReorderDto, body);
+    const goal = await this.goalStepsService.reorderSteps(
+      session.user.id,
+      goalId,
+      ids,
+    );
+    return {
+      data: goal,
+      message: 'Steps reordered successfully',
+    };
+  }
+
+  /**
+   * PATCH /goals/:id/steps/:stepId
+   * Edit or tick off a step; the goal completes when every step is done
+   */
+  @Patch(':id/steps/:stepId')
+  async updateStep(
+    @Session() session: UserSession,
+    @Param('id') goalId: string,
+    @Param('stepId') stepId: string,
+    @Body() body: unknown,
+  ) {
+    const dto = await validateBody(UpdateGoalStepDto, body);
+    const goal = await this.goalStepsService.updateStep(
+      session.user.id,
+      goalId,
+      stepId,
+      dto,
+    );
+    return {
+      data: goal,
+      message: 'Step updated successfully',
+    };
+  }
+
+  /**
+   * DELETE /goals/:id/steps/:stepId
+   */
+  @Delete(':id/steps/:stepId')
+  async deleteStep(
+    @Session() session: UserSession,
+    @Param('id') goalId: string,
+    @Param('stepId') stepId: string,
+  ) {
+    const goal = await this.goalStepsService.deleteStep(
+      session.user.id,
+      goalId,
+      stepId,
+    );
+    return {
+      data: goal,
+      message: 'Step deleted successfully',
+    };
+  }
+
   /**
    * DELETE /goals/:id
    * Delete a goal
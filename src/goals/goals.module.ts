@@ -1,9 +1,23 @@
 import { Module } from '@nestjs/common';
+import { QuestionnairesModule } from '../questionnaires/questionnaires.module';
+import { UsageModule } from '../usage/usage.module';
 import { GoalsController } from './goals.controller';
 import { GoalsService } from './goals.service';
+import { HabitsService } from './habits.service';
+import { GoalRecommendationsService } from './recommendations.service';
+import { GoalStepsService } from './goal-steps.service';
+import { GoalTemplatesController } from './goal-templates.controller';
+import { GoalTemplatesService } from './goal-templates.service';
 
 @Module({
-  controllers: [GoalsController],
-  providers: [GoalsService],
+  imports: [QuestionnairesModule, UsageModule],
+  controllers: [GoalsController, GoalTemplatesController],
+  providers: [
+    GoalsService,
+    HabitsService,
+    GoalRecommendationsService,
+    GoalTemplatesService,
+    GoalStepsService,
+  ],
 })
 export class GoalsModule {}
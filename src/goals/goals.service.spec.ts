@@ -1,18 +1,402 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
 import { GoalsService } from './goals.service';
+import { HabitsService } from './habits.service';
+import { GoalRecommendationsService } from './recommendations.service';
+import { PrismaService } from '../database/database.service';
 
 describe('GoalsService', () => {
   let service: GoalsService;
+  const prisma = {
+    dailyGoal: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+      delete: jest.fn(),
+    },
+    goalStep: { updateMany: jest.fn() },
+    habitSkip: { createMany: jest.fn() },
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const habitsService = { createDueInstances: jest.fn() };
+  const recommendationsService = { markAccepted: jest.fn() };
+  const timezone = 'America/Los_Angeles';
+  // 9pm Tuesday in Los Angeles, already Wednesday in UTC
+  const now = new Date('2026-06-17T04:00:00Z');
+  const tuesdayStart = new Date('2026-06-16T07:00:00Z'); // midnight PDT
+
+  const goal = (id: string, overrides = {}) => ({
+    id,
+    userId: 'user-1',
+    goal: `Goal ${id}`,
+    notes: null,
+    date: new Date('2026-06-15T07:00:00Z'), // Monday
+    position: 0,
+    completed: false,
+    completedAt: null,
+    rolloverOutcome: null,
+    carriedOverFromId: null,
+    habitId: null,
+    createdAt: new Date('2026-06-15T15:00:00Z'),
+    steps: [] as object[],
+    ...overrides,
+  });
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (arg: ((tx: typeof prisma) => Promise<unknown>) | unknown[]) =>
+        typeof arg === 'function' ? arg(prisma) : Promise.all(arg),
+    );
+    prisma.dailyGoal.aggregate.mockResolvedValue({ _max: { position: 2 } });
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [GoalsService],
+      providers: [
+        GoalsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: HabitsService, useValue: habitsService },
+        {
+          provide: GoalRecommendationsService,
+          useValue: recommendationsService,
+        },
+      ],
     }).compile();
 
     service = module.get<GoalsService>(GoalsService);
   });
 
-  it('should be defined', () => {
-    expect(service).toBeDefined();
+  describe('getTodaysGoals', () => {
+    it("uses the user's local day, not the server's", async () => {
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([]); // nothing to roll over
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([]);
+
+      await service.getTodaysGoals('user-1', timezone, now);
+
+      const [, [{ where }]] = prisma.dailyGoal.findMany.mock.calls as [
+        unknown,
+        [{ where: { date: { gte: Date; lt: Date } } }],
+      ];
+      expect(where.date).toEqual({
+        gte: tuesdayStart,
+        lt: new Date('2026-06-17T07:00:00Z'),
+      });
+    });
+
+    it('carries unfinished goals onto today by default', async () => {
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([
+        goal('g1', {
+          notes: 'Before lunch',
+          steps: [
+            {
+              text: 'Find the number',
+              position: 0,
+              completed: true,
+              completedAt: new Date('2026-06-15T16:00:00Z'),
+            },
+            { text: 'Call', position: 1, completed: false, completedAt: null },
+          ],
+        }),
+      ]);
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([]);
+      prisma.user.findUnique.mockResolvedValue({
+        goalRolloverPolicy: 'CARRY_OVER',
+      });
+      prisma.dailyGoal.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.getTodaysGoals('user-1', timezone, now);
+
+      expect(result.pendingRollover).toEqual([]);
+      expect(prisma.dailyGoal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'g1', rolloverOutcome: null, completed: false },
+        data: { rolloverOutcome: 'CARRIED_OVER' },
+      });
+      const [[{ data }]] = prisma.dailyGoal.create.mock.calls as [
+        [{ data: { steps: { create: object[] } } }],
+      ];
+      expect(data).toMatchObject({
+        userId: 'user-1',
+        goal: 'Goal g1',
+        notes: 'Before lunch',
+        date: tuesdayStart,
+        position: 3, // after today's existing goals
+        carriedOverFromId: 'g1',
+      });
+      expect(data.steps.create).toEqual([
+        {
+          text: 'Find the number',
+          position: 0,
+          completed: true,
+          completedAt: new Date('2026-06-15T16:00:00Z'),
+        },
+        { text: 'Call', position: 1, completed: false, completedAt: null },
+      ]);
+    });
+
+    it('does not copy a goal another request already carried over', async () => {
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([goal('g1')]);
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([]);
+      prisma.user.findUnique.mockResolvedValue({
+        goalRolloverPolicy: 'CARRY_OVER',
+      });
+      prisma.dailyGoal.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.getTodaysGoals('user-1', timezone, now);
+
+      expect(prisma.dailyGoal.create).not.toHaveBeenCalled();
+    });
+
+    it('archives unfinished goals under the ARCHIVE policy', async () => {
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([goal('g1')]);
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([]);
+      prisma.user.findUnique.mockResolvedValue({
+        goalRolloverPolicy: 'ARCHIVE',
+      });
+      prisma.dailyGoal.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.getTodaysGoals('user-1', timezone, now);
+
+      expect(prisma.dailyGoal.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['g1'] }, rolloverOutcome: null, completed: false },
+        data: { rolloverOutcome: 'ARCHIVED' },
+      });
+      expect(prisma.dailyGoal.create).not.toHaveBeenCalled();
+    });
+
+    it('holds unfinished goals for the user under the ASK policy', async () => {
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([goal('g1')]);
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([]);
+      prisma.user.findUnique.mockResolvedValue({ goalRolloverPolicy: 'ASK' });
+
+      const result = await service.getTodaysGoals('user-1', timezone, now);
+
+      expect(result.pendingRollover).toEqual([goal('g1')]);
+      expect(prisma.dailyGoal.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('archives missed habit days whatever the policy', async () => {
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([
+        goal('g1'),
+        goal('h1', { habitId: 'habit-1' }),
+      ]);
+      prisma.dailyGoal.findMany.mockResolvedValueOnce([]);
+      prisma.user.findUnique.mockResolvedValue({ goalRolloverPolicy: 'ASK' });
+      prisma.dailyGoal.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.getTodaysGoals('user-1', timezone, now);
+
+      expect(result.pendingRollover).toEqual([goal('g1')]);
+      expect(prisma.dailyGoal.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['h1'] }, rolloverOutcome: null, completed: false },
+        data: { rolloverOutcome: 'ARCHIVED' },
+      });
+      expect(habitsService.createDueInstances).toHaveBeenCalledWith(
+        'user-1',
+        timezone,
+        now,
+      );
+    });
+  });
+
+  describe('createGoal', () => {
+    it('records an accepted recommendation on the local day', async () => {
+      jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+      prisma.dailyGoal.create.mockResolvedValue(goal('g1'));
+
+      try {
+        await service.createGoal(
+          'user-1',
+          {
+            goal: '  Call or text a friend ',
+            recommendationId: 'reach-out-friend',
+          },
+          timezone,
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+
+      const [[{ data }]] = prisma.dailyGoal.create.mock.calls as [
+        [{ data: { goal: string } }],
+      ];
+      expect(data.goal).toBe('Call or text a friend');
+      expect(recommendationsService.markAccepted).toHaveBeenCalledWith(
+        'user-1',
+        'reach-out-friend',
+        '2026-06-16',
+      );
+    });
+  });
+
+  describe('resolveRollover', () => {
+    it('rejects goals that are not pending', async () => {
+      prisma.dailyGoal.findMany.mockResolvedValue([goal('g1')]);
+
+      await expect(
+        service.resolveRollover('user-1', { archive: ['g2'] }, timezone),
+      ).rejects.toThrow('Not pending rollover: g2');
+    });
+
+    it('rejects a goal in both lists', async () => {
+      await expect(
+        service.resolveRollover(
+          'user-1',
+          { carryOver: ['g1'], archive: ['g1'] },
+          timezone,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('reorderGoals', () => {
+    it("rejects an order that leaves out one of today's goals", async () => {
+      prisma.dailyGoal.findMany.mockResolvedValue([goal('g1'), goal('g2')]);
+
+      await expect(
+        service.reorderGoals('user-1', ['g2'], timezone),
+      ).rejects.toThrow('missing: g1');
+      expect(prisma.dailyGoal.update).not.toHaveBeenCalled();
+    });
+
+    it('stores positions in the given order', async () => {
+      prisma.dailyGoal.findMany.mockResolvedValue([goal('g1'), goal('g2')]);
+
+      await service.reorderGoals('user-1', ['g2', 'g1'], timezone);
+
+      expect(prisma.dailyGoal.update).toHaveBeenCalledWith({
+        where: { id: 'g2' },
+        data: { position: 0 },
+      });
+      expect(prisma.dailyGoal.update).toHaveBeenCalledWith({
+        where: { id: 'g1' },
+        data: { position: 1 },
+      });
+    });
+  });
+
+  describe('toggleGoalCompletion', () => {
+    it('ticks off every step along with the goal', async () => {
+      prisma.dailyGoal.findFirst.mockResolvedValue(goal('g1'));
+
+      await service.toggleGoalCompletion('user-1', 'g1');
+
+      const [[{ where, data }]] = prisma.goalStep.updateMany.mock.calls as [
+        [{ where: object; data: { completed: boolean } }],
+      ];
+      expect(where).toEqual({ goalId: 'g1', completed: false });
+      expect(data.completed).toBe(true);
+    });
+
+    it('refuses to change a goal whose day has ended', async () => {
+      prisma.dailyGoal.findFirst.mockResolvedValue(
+        goal('g1', { rolloverOutcome: 'CARRIED_OVER' }),
+      );
+
+      await expect(
+        service.toggleGoalCompletion('user-1', 'g1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.dailyGoal.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getGoalHistory', () => {
+    it('groups goals by local day with completion rates', async () => {
+      prisma.dailyGoal.findMany.mockResolvedValue([
+        goal('g3', { date: tuesdayStart, completed: true }),
+        goal('g1', { completed: true }),
+        goal('g2', { rolloverOutcome: 'CARRIED_OVER' }),
+      ]);
+
+      const days = await service.getGoalHistory(
+        'user-1',
+        timezone,
+        { from: '2026-06-15', to: '2026-06-16' },
+        now,
+      );
+
+      expect(
+        days.map(({ date, total, completed, completionRate }) => ({
+          date,
+          total,
+          completed,
+          completionRate,
+        })),
+      ).toEqual([
+        { date: '2026-06-16', total: 1, completed: 1, completionRate: 1 },
+        { date: '2026-06-15', total: 2, completed: 1, completionRate: 0.5 },
+      ]);
+    });
+
+    it('defaults to the last 30 local days', async () => {
+      prisma.dailyGoal.findMany.mockResolvedValue([]);
+
+      await service.getGoalHistory('user-1', timezone, {}, now);
+
+      const [[{ where }]] = prisma.dailyGoal.findMany.mock.calls as [
+        [{ where: { date: { gte: Date; lt: Date } } }],
+      ];
+      expect(where.date).toEqual({
+        gte: new Date('2026-05-18T07:00:00Z'),
+        lt: new Date('2026-06-17T07:00:00Z'),
+      });
+    });
+
+    it('rejects inverted ranges', async () => {
+      await expect(
+        service.getGoalHistory('user-1', timezone, {
+          from: '2026-06-10',
+          to: '2026-06-01',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects impossible days', async () => {
+      await expect(
+        service.getGoalHistory('user-1', timezone, {
+          from: '2026-02-30',
+          to: '2026-03-05',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.dailyGoal.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteGoal', () => {
+    it('records a skip so a deleted habit instance stays deleted', async () => {
+      prisma.dailyGoal.findFirst.mockResolvedValue(
+        goal('g1', { habitId: 'h1', date: tuesdayStart }),
+      );
+
+      await service.deleteGoal('user-1', 'g1');
+
+      expect(prisma.habitSkip.createMany).toHaveBeenCalledWith({
+        data: [{ habitId: 'h1', date: tuesdayStart }],
+        skipDuplicates: true,
+      });
+      expect(prisma.dailyGoal.delete).toHaveBeenCalledWith({
+        where: { id: 'g1' },
+      });
+    });
+
+    it('just deletes one-off goals', async () => {
+      prisma.dailyGoal.findFirst.mockResolvedValue(goal('g1'));
+
+      await service.deleteGoal('user-1', 'g1');
+
+      expect(prisma.habitSkip.createMany).not.toHaveBeenCalled();
+      expect(prisma.dailyGoal.delete).toHaveBeenCalled();
+    });
+  });
+
+  describe('updateGoalSettings', () => {
+    it('rejects unknown policies', async () => {
+      await expect(
+        service.updateGoalSettings('user-1', 'FORGET'),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
   });
 });
@@ -1,56 +1,155 @@
 // src/goals/goals.service.ts
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../database/database.service';
+import {
+  DailyGoal,
+  GoalRolloverPolicy,
+  GoalStep,
+  Prisma,
+} from '../../generated/prisma';
 import { CreateGoalDto } from './dto/create-goal.dto';
-import { GOAL_RECOMMENDATIONS } from './constants';
+import { UpdateGoalDto } from './dto/update-goal.dto';
+import { GetGoalHistoryQueryDto } from './dto/get-goal-history-query.dto';
+import { ResolveRolloverDto } from './dto/resolve-rollover.dto';
+import { GoalHistoryDay } from './dto/goal-history-response.dto';
+import { HabitsService } from './habits.service';
+import { GoalRecommendationsService } from './recommendations.service';
+import { WITH_STEPS } from './goal-steps.service';
+import { assertCompleteOrder } from './reorder';
+import {
+  isLocalDay,
+  localDayOf,
+  localDayToUtc,
+  resolveTimezone,
+  shiftDay,
+} from '../common/local-day';
+
+// Longest span GET /goals/history will return
+const MAX_HISTORY_DAYS = 366;
+
+type GoalWithSteps = DailyGoal & { steps: GoalStep[] };
 
 @Injectable()
 export class GoalsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private habitsService: HabitsService,
+    private recommendationsService: GoalRecommendationsService,
+  ) {}
 
   /**
-   * Get all active goals for today (incomplete + today's completed)
+   * Get today's goals in the user's timezone, rolling over anything left
+   * unfinished on earlier days first. With the ASK policy those goals come
+   * back as `pendingRollover` until the user decides. Habits due today get
+   * their instance created here.
    */
-  async getTodaysGoals(userId: string) {
-    const startOfDay = new Date();
-    startOfDay.setHours(0, 0, 0, 0);
+  async getTodaysGoals(userId: string, timezone: string, now = new Date()) {
+    const tz = resolveTimezone(timezone);
+    const today = localDayOf(now, tz);
+    const todayStart = localDayToUtc(today, tz);
 
-    const goals = await this.prisma.dailyGoal.findMany({
-      where: {
-        userId,
-        OR: [
-          { completed: false },
-          {
-            completed: true,
-            completedAt: {
-              gte: startOfDay,
-            },
-          },
-        ],
-      },
-      orderBy: [{ completed: 'asc' }, { createdAt: 'desc' }],
-    });
+    const pendingRollover = await this.rollOverGoals(userId, todayStart);
+    await this.habitsService.createDueInstances(userId, tz, now);
+
+    const goals = await this.findGoalsOnDay(userId, today, tz);
 
-    return goals;
+    return { goals, pendingRollover };
   }
 
   /**
-   * Create a new daily goal
+   * Create a new goal for the user's current day. Goals added from a
+   * recommendation count towards ranking future ones.
    */
-  async createGoal(userId: string, createGoalDto: CreateGoalDto) {
+  async createGoal(
+    userId: string,
+    createGoalDto: CreateGoalDto,
+    timezone: string,
+  ) {
+    const tz = resolveTimezone(timezone);
+    const today = localDayOf(new Date(), tz);
+    const todayStart = localDayToUtc(today, tz);
+
     const goal = await this.prisma.dailyGoal.create({
       data: {
         userId,
-        goal: createGoalDto.goal,
+        goal: createGoalDto.goal.trim(),
+        notes: createGoalDto.notes?.trim() || null,
+        date: todayStart,
+        position: await this.nextPosition(this.prisma, userId, todayStart),
         completed: false,
       },
+      include: WITH_STEPS,
     });
 
+    if (createGoalDto.recommendationId) {
+      await this.recommendationsService.markAccepted(
+        userId,
+        createGoalDto.recommendationId,
+        today,
+      );
+    }
+
     return goal;
   }
 
   /**
-   * Toggle goal completion status
+   * Edit a goal's wording or notes
+   */
+  async updateGoal(userId: string, goalId: string, dto: UpdateGoalDto) {
+    const existingGoal = await this.prisma.dailyGoal.findFirst({
+      where: { id: goalId, userId },
+    });
+
+    if (!existingGoal) {
+      throw new NotFoundException('Goal not found');
+    }
+
+    if (existingGoal.rolloverOutcome) {
+      throw new BadRequestException(
+        "This goal's day has ended; update today's goal instead",
+      );
+    }
+
+    return this.prisma.dailyGoal.update({
+      where: { id: goalId },
+      data: {
+        ...(dto.goal !== undefined && { goal: dto.goal.trim() }),
+        ...(dto.notes !== undefined && { notes: dto.notes?.trim() || null }),
+      },
+      include: WITH_STEPS,
+    });
+  }
+
+  /**
+   * Set the order of today's goals. `ids` must list all of them.
+   */
+  async reorderGoals(userId: string, ids: string[], timezone: string) {
+    const tz = resolveTimezone(timezone);
+    const today = localDayOf(new Date(), tz);
+
+    const goals = await this.findGoalsOnDay(userId, today, tz);
+    assertCompleteOrder(
+      goals.map((goal) => goal.id),
+      ids,
+      'goal',
+    );
+
+    await this.prisma.$transaction(
+      ids.map((id, position) =>
+        this.prisma.dailyGoal.update({ where: { id }, data: { position } }),
+      ),
+    );
+
+    return this.findGoalsOnDay(userId, today, tz);
+  }
+
+  /**
+   * Toggle goal completion status. For a goal with steps this checks or
+   * unchecks every step, since its completion follows theirs.
    */
   async toggleGoalCompletion(userId: string, goalId: string) {
     const existingGoal = await this.prisma.dailyGoal.findFirst({
@@ -64,15 +163,27 @@ export class GoalsService {
       throw new NotFoundException('Goal not found');
     }
 
-    const updatedGoal = await this.prisma.dailyGoal.update({
-      where: { id: goalId },
-      data: {
-        completed: !existingGoal.completed,
-        completedAt: !existingGoal.completed ? new Date() : null,
-      },
-    });
+    if (existingGoal.rolloverOutcome) {
+      throw new BadRequestException(
+        "This goal's day has ended; update today's goal instead",
+      );
+    }
+
+    const completed = !existingGoal.completed;
+    const completedAt = completed ? new Date() : null;
 
-    return updatedGoal;
+    return this.prisma.$transaction(async (tx) => {
+      await tx.goalStep.updateMany({
+        where: { goalId, completed: !completed },
+        data: { completed, completedAt },
+      });
+
+      return tx.dailyGoal.update({
+        where: { id: goalId },
+        data: { completed, completedAt },
+        include: WITH_STEPS,
+      });
+    });
   }
 
   /**
@@ -90,18 +201,294 @@ export class GoalsService {
       throw new NotFoundException('Goal not found');
     }
 
-    await this.prisma.dailyGoal.delete({
-      where: { id: goalId },
-    });
+    await this.prisma.$transaction([
+      // Remember the dismissal so the habit doesn't recreate it that day
+      ...(existingGoal.habitId
+        ? [
+            this.prisma.habitSkip.createMany({
+              data: [
+                { habitId: existingGoal.habitId, date: existingGoal.date },
+              ],
+              skipDuplicates: true,
+            }),
+          ]
+        : []),
+      this.prisma.dailyGoal.delete({
+        where: { id: goalId },
+      }),
+    ]);
 
     return { message: 'Goal deleted successfully' };
   }
 
   /**
-   * Get random goal recommendations
+   * Per-day goal completion between two local days, newest first
    */
-  getGoalRecommendations(count: number = 4) {
-    const shuffled = [...GOAL_RECOMMENDATIONS].sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, count);
+  async getGoalHistory(
+    userId: string,
+    timezone: string,
+    query: GetGoalHistoryQueryDto = {},
+    now = new Date(),
+  ): Promise<GoalHistoryDay[]> {
+    const tz = resolveTimezone(timezone);
+    const to = query.to ?? localDayOf(now, tz);
+    const from = query.from ?? shiftDay(to, -29);
+
+    for (const day of [from, to]) {
+      if (!isLocalDay(day)) {
+        throw new BadRequestException(
+          'Dates must be real days in yyyy-MM-dd format',
+        );
+      }
+    }
+    if (from > to) {
+      throw new BadRequestException('from must be on or before to');
+    }
+    if (shiftDay(from, MAX_HISTORY_DAYS) <= to) {
+      throw new BadRequestException(
+        `History is limited to ${MAX_HISTORY_DAYS} days per request`,
+      );
+    }
+
+    const goals = await this.prisma.dailyGoal.findMany({
+      where: {
+        userId,
+        date: {
+          gte: localDayToUtc(from, tz),
+          lt: localDayToUtc(shiftDay(to, 1), tz),
+        },
+      },
+      orderBy: [{ date: 'desc' }, { position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const days = new Map<string, GoalHistoryDay>();
+    for (const goal of goals) {
+      const date = localDayOf(goal.date, tz);
+      const day = days.get(date) ?? {
+        date,
+        total: 0,
+        completed: 0,
+        completionRate: 0,
+        goals: [],
+      };
+
+      day.total++;
+      if (goal.completed) day.completed++;
+      day.goals.push({
+        id: goal.id,
+        goal: goal.goal,
+        completed: goal.completed,
+        completedAt: goal.completedAt,
+        rolloverOutcome: goal.rolloverOutcome,
+      });
+      days.set(date, day);
+    }
+
+    return [...days.values()].map((day) => ({
+      ...day,
+      completionRate: Math.round((day.completed / day.total) * 100) / 100,
+    }));
+  }
+
+  async getGoalSettings(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { goalRolloverPolicy: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return { rolloverPolicy: user.goalRolloverPolicy };
+  }
+
+  async updateGoalSettings(userId: string, rolloverPolicy: unknown) {
+    if (
+      !Object.values(GoalRolloverPolicy).includes(
+        rolloverPolicy as GoalRolloverPolicy,
+      )
+    ) {
+      throw new BadRequestException(
+        `rolloverPolicy must be one of ${Object.values(GoalRolloverPolicy).join(', ')}`,
+      );
+    }
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { goalRolloverPolicy: rolloverPolicy as GoalRolloverPolicy },
+      select: { goalRolloverPolicy: true },
+    });
+
+    return { rolloverPolicy: user.goalRolloverPolicy };
+  }
+
+  /**
+   * Carry over or archive goals held by the ASK policy
+   */
+  async resolveRollover(
+    userId: string,
+    dto: ResolveRolloverDto,
+    timezone: string,
+  ) {
+    const carryOver = dto.carryOver ?? [];
+    const archive = dto.archive ?? [];
+    if (carryOver.some((id) => archive.includes(id))) {
+      throw new BadRequestException(
+        'A goal cannot be both carried over and archived',
+      );
+    }
+
+    const tz = resolveTimezone(timezone);
+    const todayStart = localDayToUtc(localDayOf(new Date(), tz), tz);
+    const pending = (
+      await this.findUnfinishedBefore(userId, todayStart)
+    ).filter((goal) => goal.habitId === null);
+    const pendingIds = new Set(pending.map((goal) => goal.id));
+
+    const unknown = [...carryOver, ...archive].filter(
+      (id) => !pendingIds.has(id),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Not pending rollover: ${unknown.join(', ')}`,
+      );
+    }
+
+    const carried = await this.carryOver(
+      pending.filter((goal) => carryOver.includes(goal.id)),
+      todayStart,
+    );
+    const archived = await this.archive(archive);
+
+    return { carriedOver: carried, archived };
+  }
+
+  /**
+   * Apply the user's rollover policy to unfinished goals from before today.
+   * Returns the goals still waiting on a decision. Missed habit instances
+   * are always archived; today has its own instance.
+   */
+  private async rollOverGoals(
+    userId: string,
+    todayStart: Date,
+  ): Promise<GoalWithSteps[]> {
+    const previous = await this.findUnfinishedBefore(userId, todayStart);
+    await this.archive(
+      previous.filter((goal) => goal.habitId !== null).map((goal) => goal.id),
+    );
+
+    const unfinished = previous.filter((goal) => goal.habitId === null);
+    if (unfinished.length === 0) return [];
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { goalRolloverPolicy: true },
+    });
+
+    switch (user?.goalRolloverPolicy) {
+      case 'ASK':
+        return unfinished;
+      case 'ARCHIVE':
+        await this.archive(unfinished.map((goal) => goal.id));
+        return [];
+      default:
+        await this.carryOver(unfinished, todayStart);
+        return [];
+    }
+  }
+
+  private findUnfinishedBefore(userId: string, before: Date) {
+    return this.prisma.dailyGoal.findMany({
+      where: {
+        userId,
+        completed: false,
+        rolloverOutcome: null,
+        date: { lt: before },
+      },
+      include: WITH_STEPS,
+      orderBy: [{ date: 'asc' }, { position: 'asc' }],
+    });
+  }
+
+  private findGoalsOnDay(userId: string, day: string, tz: string) {
+    return this.prisma.dailyGoal.findMany({
+      where: {
+        userId,
+        date: {
+          gte: localDayToUtc(day, tz),
+          lt: localDayToUtc(shiftDay(day, 1), tz),
+        },
+      },
+      include: WITH_STEPS,
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Position after the last goal on the day, so new goals go to the bottom
+   */
+  private async nextPosition(
+    db: Prisma.TransactionClient,
+    userId: string,
+    dayStart: Date,
+  ) {
+    const last = await db.dailyGoal.aggregate({
+      where: { userId, date: dayStart },
+      _max: { position: true },
+    });
+    return (last._max.position ?? -1) + 1;
+  }
+
+  /**
+   * Copy goals onto today, leaving the originals on their own day so the
+   * history still shows them as unfinished. Notes and steps come along,
+   * ticked-off steps included. Returns how many were copied.
+   */
+  private async carryOver(goals: GoalWithSteps[], todayStart: Date) {
+    let carried = 0;
+
+    for (const goal of goals) {
+      await this.prisma.$transaction(async (tx) => {
+        // Claim the goal so a concurrent request can't copy it twice
+        const { count } = await tx.dailyGoal.updateMany({
+          where: { id: goal.id, rolloverOutcome: null, completed: false },
+          data: { rolloverOutcome: 'CARRIED_OVER' },
+        });
+        if (count === 0) return;
+
+        await tx.dailyGoal.create({
+          data: {
+            userId: goal.userId,
+            goal: goal.goal,
+            notes: goal.notes,
+            date: todayStart,
+            position: await this.nextPosition(tx, goal.userId, todayStart),
+            carriedOverFromId: goal.id,
+            steps: {
+              create: goal.steps.map((step) => ({
+                text: step.text,
+                position: step.position,
+                completed: step.completed,
+                completedAt: step.completedAt,
+              })),
+            },
+          },
+        });
+        carried++;
+      });
+    }
+
+    return carried;
+  }
+
+  private async archive(goalIds: string[]) {
+    if (goalIds.length === 0) return 0;
+
+    const { count } = await this.prisma.dailyGoal.updateMany({
+      where: { id: { in: goalIds }, rolloverOutcome: null, completed: false },
+      data: { rolloverOutcome: 'ARCHIVED' },
+    });
+    return count;
   }
 }
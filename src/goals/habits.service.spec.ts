@@ -0,0 +1,246 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { HabitsService } from './habits.service';
+import { PrismaService } from '../database/database.service';
+
+describe('HabitsService', () => {
+  let service: HabitsService;
+  const prisma = {
+    habit: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    habitPause: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    habitSkip: { findMany: jest.fn() },
+    dailyGoal: {
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  const timezone = 'America/Los_Angeles';
+  // 9pm Wednesday in Los Angeles, already Thursday in UTC
+  const now = new Date('2026-06-18T04:00:00Z');
+  const wednesdayStart = new Date('2026-06-17T07:00:00Z');
+
+  const daily = {
+    schedule: 'DAILY' as const,
+    weekdays: [],
+    timesPerWeek: null,
+  };
+  const days = (...list: string[]) => new Set(list);
+
+  const habit = (id: string, overrides = {}) => ({
+    id,
+    userId: 'user-1',
+    goal: `Habit ${id}`,
+    ...daily,
+    pausedAt: null,
+    archivedAt: null,
+    createdAt: new Date('2026-06-01T15:00:00Z'),
+    updatedAt: new Date('2026-06-01T15:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [HabitsService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<HabitsService>(HabitsService);
+  });
+
+  describe('computeStats', () => {
+    it('counts consecutive days without breaking on an unfinished today', () => {
+      const stats = service.computeStats(
+        daily,
+        '2026-06-10',
+        '2026-06-17',
+        days(
+          '2026-06-10',
+          '2026-06-11',
+          '2026-06-14',
+          '2026-06-15',
+          '2026-06-16',
+        ),
+        [],
+      );
+
+      expect(stats).toMatchObject({
+        currentStreak: 3,
+        bestStreak: 3,
+        streakUnit: 'days',
+      });
+      // 5 of the 7 finished days; today isn't counted yet
+      expect(stats.completionRate).toBe(0.71);
+    });
+
+    it('skips paused days instead of breaking the streak', () => {
+      const stats = service.computeStats(
+        daily,
+        '2026-06-10',
+        '2026-06-17',
+        days('2026-06-10', '2026-06-11', '2026-06-16', '2026-06-17'),
+        [{ startDay: '2026-06-12', endDay: '2026-06-15' }],
+      );
+
+      expect(stats.currentStreak).toBe(4);
+      expect(stats.completionRate).toBe(1);
+    });
+
+    it('only counts scheduled weekdays', () => {
+      // Mondays and Wednesdays
+      const stats = service.computeStats(
+        { schedule: 'WEEKDAYS', weekdays: [1, 3], timesPerWeek: null },
+        '2026-06-01',
+        '2026-06-17',
+        days('2026-06-01', '2026-06-08', '2026-06-10', '2026-06-15'),
+        [],
+      );
+
+      // Missed Wednesday the 3rd, then four in a row with today still open
+      expect(stats).toMatchObject({ currentStreak: 3, bestStreak: 3 });
+    });
+
+    it('counts weeks that met the target for N-times-per-week habits', () => {
+      const stats = service.computeStats(
+        { schedule: 'TIMES_PER_WEEK', weekdays: [], timesPerWeek: 2 },
+        '2026-05-25',
+        '2026-06-17',
+        days(
+          '2026-05-26', // week of 25 May: 1 of 2
+          '2026-06-01',
+          '2026-06-03',
+          '2026-06-08',
+          '2026-06-12',
+          '2026-06-15', // current week: 1 of 2 so far
+        ),
+        [],
+      );
+
+      expect(stats).toMatchObject({
+        currentStreak: 2,
+        bestStreak: 2,
+        streakUnit: 'weeks',
+      });
+      // Current week left out until it's met
+      expect(stats.completionRate).toBe(0.83);
+    });
+  });
+
+  describe('createDueInstances', () => {
+    it("creates today's instance for habits due today", async () => {
+      prisma.habit.findMany.mockResolvedValue([
+        habit('daily'),
+        habit('weds', { schedule: 'WEEKDAYS', weekdays: [3] }),
+        habit('mondays', { schedule: 'WEEKDAYS', weekdays: [1] }),
+        habit('done', { schedule: 'TIMES_PER_WEEK', timesPerWeek: 2 }),
+        habit('exists'),
+        habit('deleted'),
+      ]);
+      prisma.dailyGoal.findMany.mockResolvedValue([{ habitId: 'exists' }]);
+      prisma.habitSkip.findMany.mockResolvedValue([{ habitId: 'deleted' }]);
+      prisma.dailyGoal.groupBy.mockResolvedValue([
+        { habitId: 'done', _count: { _all: 2 } },
+      ]);
+
+      await service.createDueInstances('user-1', timezone, now);
+
+      const [[{ data }]] = prisma.dailyGoal.createMany.mock.calls as [
+        [{ data: { habitId: string; date: Date }[] }],
+      ];
+      expect(data.map((goal) => goal.habitId)).toEqual(['daily', 'weds']);
+      expect(data[0].date).toEqual(wednesdayStart);
+    });
+
+    it('does nothing without active habits', async () => {
+      prisma.habit.findMany.mockResolvedValue([]);
+
+      await service.createDueInstances('user-1', timezone, now);
+
+      expect(prisma.dailyGoal.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createHabit', () => {
+    it('requires weekdays for a WEEKDAYS schedule', async () => {
+      await expect(
+        service.createHabit(
+          'user-1',
+          { goal: 'Stretch', schedule: 'WEEKDAYS', weekdays: [] },
+          timezone,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.habit.create).not.toHaveBeenCalled();
+    });
+
+    it('requires a weekly target for TIMES_PER_WEEK', async () => {
+      await expect(
+        service.createHabit(
+          'user-1',
+          { goal: 'Run', schedule: 'TIMES_PER_WEEK' },
+          timezone,
+        ),
+      ).rejects.toThrow(
+        'timesPerWeek is required for a TIMES_PER_WEEK schedule',
+      );
+    });
+  });
+
+  describe('updateHabit', () => {
+    it('checks the merged schedule against the stored habit', async () => {
+      prisma.habit.findFirst.mockResolvedValue(habit('h1'));
+
+      await expect(
+        service.updateHabit('user-1', 'h1', { schedule: 'WEEKDAYS' }, timezone),
+      ).rejects.toThrow('weekdays must list at least one day');
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resumeHabit', () => {
+    it('drops a pause that started today', async () => {
+      jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+      prisma.habit.findFirst
+        .mockResolvedValueOnce(habit('h1', { pausedAt: now }))
+        .mockResolvedValueOnce({ ...habit('h1'), pauses: [], instances: [] });
+      prisma.habitPause.findFirst.mockResolvedValue({
+        id: 'p1',
+        startDay: '2026-06-17',
+        endDay: null,
+      });
+      prisma.habit.findMany.mockResolvedValue([]);
+
+      try {
+        await service.resumeHabit('user-1', 'h1', timezone);
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(prisma.habitPause.delete).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+      });
+      expect(prisma.habitPause.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects habits that are not paused', async () => {
+      prisma.habit.findFirst.mockResolvedValue(habit('h1'));
+
+      await expect(
+        service.resumeHabit('user-1', 'h1', timezone),
+      ).rejects.toThrow('Habit is not paused');
+    });
+  });
+});
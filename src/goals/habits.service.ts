@@ -0,0 +1,481 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { format, parseISO, startOfISOWeek } from 'date-fns';
+import { PrismaService } from '../database/database.service';
+import { Habit, HabitPause, HabitSchedule } from '../../generated/prisma';
+import { CreateHabitDto, UpdateHabitDto } from './dto/habit.dto';
+import { HabitResponse, HabitStats } from './dto/habit-response.dto';
+import {
+  localDayOf,
+  localDayToUtc,
+  resolveTimezone,
+  shiftDay,
+} from '../common/local-day';
+
+// Days covered by a habit's completion rate
+const STATS_WINDOW_DAYS = 30;
+
+type HabitScheduleFields = Pick<
+  Habit,
+  'schedule' | 'weekdays' | 'timesPerWeek'
+>;
+
+type HabitWithHistory = Habit & {
+  pauses: Pick<HabitPause, 'startDay' | 'endDay'>[];
+  instances: { date: Date }[]; // Completed instances only
+};
+
+@Injectable()
+export class HabitsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Active habits with their streaks and completion rate
+   */
+  async listHabits(
+    userId: string,
+    timezone: string,
+    now = new Date(),
+  ): Promise<HabitResponse[]> {
+    const tz = resolveTimezone(timezone);
+
+    const habits = await this.prisma.habit.findMany({
+      where: { userId, archivedAt: null },
+      include: {
+        pauses: { select: { startDay: true, endDay: true } },
+        instances: { where: { completed: true }, select: { date: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return habits.map((habit) =>
+      this.toResponse(habit, localDayOf(now, tz), tz),
+    );
+  }
+
+  async createHabit(userId: string, dto: CreateHabitDto, timezone: string) {
+    const habit = await this.prisma.habit.create({
+      data: {
+        userId,
+        goal: dto.goal.trim(),
+        ...this.resolveSchedule(dto),
+      },
+    });
+
+    // Show it on today's list straight away if it's due
+    await this.createDueInstances(userId, timezone);
+
+    const tz = resolveTimezone(timezone);
+    return this.toResponse(
+      { ...habit, pauses: [], instances: [] },
+      localDayOf(new Date(), tz),
+      tz,
+    );
+  }
+
+  async updateHabit(
+    userId: string,
+    habitId: string,
+    dto: UpdateHabitDto,
+    timezone: string,
+  ) {
+    const habit = await this.findHabit(userId, habitId);
+
+    const schedule = this.resolveSchedule({
+      schedule: dto.schedule ?? habit.schedule,
+      weekdays: dto.weekdays ?? habit.weekdays,
+      timesPerWeek: dto.timesPerWeek ?? habit.timesPerWeek,
+    });
+    const goal = dto.goal !== undefined ? dto.goal.trim() : habit.goal;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.habit.update({
+        where: { id: habitId },
+        data: { goal, ...schedule },
+      });
+
+      // Today's open instance follows the new wording
+      if (goal !== habit.goal) {
+        await tx.dailyGoal.updateMany({
+          where: { habitId, completed: false, rolloverOutcome: null },
+          data: { goal },
+        });
+      }
+    });
+
+    return this.getHabit(userId, habitId, timezone);
+  }
+
+  /**
+   * Stop a habit. Past instances stay in the goal history.
+   */
+  async archiveHabit(userId: string, habitId: string) {
+    await this.findHabit(userId, habitId);
+
+    await this.prisma.$transaction([
+      this.prisma.habit.update({
+        where: { id: habitId },
+        data: { archivedAt: new Date() },
+      }),
+      this.prisma.dailyGoal.deleteMany({
+        where: { habitId, completed: false, rolloverOutcome: null },
+      }),
+    ]);
+
+    return { message: 'Habit archived successfully' };
+  }
+
+  /**
+   * Pause a habit from today. Paused days don't count against its streak.
+   */
+  async pauseHabit(userId: string, habitId: string, timezone: string) {
+    const habit = await this.findHabit(userId, habitId);
+    if (habit.pausedAt) {
+      throw new BadRequestException('Habit is already paused');
+    }
+
+    const tz = resolveTimezone(timezone);
+    await this.prisma.$transaction([
+      this.prisma.habit.update({
+        where: { id: habitId },
+        data: { pausedAt: new Date() },
+      }),
+      this.prisma.habitPause.create({
+        data: { habitId, startDay: localDayOf(new Date(), tz) },
+      }),
+      this.prisma.dailyGoal.deleteMany({
+        where: { habitId, completed: false, rolloverOutcome: null },
+      }),
+    ]);
+
+    return this.getHabit(userId, habitId, timezone);
+  }
+
+  /**
+   * Resume a paused habit; today counts again
+   */
+  async resumeHabit(userId: string, habitId: string, timezone: string) {
+    const habit = await this.findHabit(userId, habitId);
+    if (!habit.pausedAt) {
+      throw new BadRequestException('Habit is not paused');
+    }
+
+    const tz = resolveTimezone(timezone);
+    const lastPausedDay = shiftDay(localDayOf(new Date(), tz), -1);
+    const pause = await this.prisma.habitPause.findFirst({
+      where: { habitId, endDay: null },
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.habit.update({
+        where: { id: habitId },
+        data: { pausedAt: null },
+      }),
+      ...(pause
+        ? [
+            // Paused and resumed on the same day: nothing was skipped
+            pause.startDay > lastPausedDay
+              ? this.prisma.habitPause.delete({ where: { id: pause.id } })
+              : this.prisma.habitPause.update({
+                  where: { id: pause.id },
+                  data: { endDay: lastPausedDay },
+                }),
+          ]
+        : []),
+    ]);
+
+    await this.createDueInstances(userId, timezone);
+    return this.getHabit(userId, habitId, timezone);
+  }
+
+  /**
+   * Create today's goal instance for every habit due today in the user's
+   * timezone. Safe to call repeatedly.
+   */
+  async createDueInstances(userId: string, timezone: string, now = new Date()) {
+    const tz = resolveTimezone(timezone);
+    const today = localDayOf(now, tz);
+    const todayStart = localDayToUtc(today, tz);
+
+    const habits = await this.prisma.habit.findMany({
+      where: { userId, archivedAt: null, pausedAt: null },
+    });
+    if (habits.length === 0) return;
+
+    const habitIds = habits.map((habit) => habit.id);
+    const todayRange = {
+      gte: todayStart,
+      lt: localDayToUtc(shiftDay(today, 1), tz),
+    };
+    const existing = await this.prisma.dailyGoal.findMany({
+      where: { habitId: { in: habitIds }, date: todayRange },
+      select: { habitId: true },
+    });
+    // Instances the user deleted today count as handled
+    const skipped = await this.prisma.habitSkip.findMany({
+      where: { habitId: { in: habitIds }, date: todayRange },
+      select: { habitId: true },
+    });
+    const hasInstance = new Set(
+      [...existing, ...skipped].map((goal) => goal.habitId),
+    );
+
+    const weekStart = format(startOfISOWeek(parseISO(today)), 'yyyy-MM-dd');
+    const doneThisWeek = await this.prisma.dailyGoal.groupBy({
+      by: ['habitId'],
+      where: {
+        habitId: { in: habitIds },
+        completed: true,
+        date: { gte: localDayToUtc(weekStart, tz), lt: todayStart },
+      },
+      _count: { _all: true },
+    });
+    const weeklyCounts = new Map(
+      doneThisWeek.map((row) => [row.habitId, row._count._all]),
+    );
+
+    const due = habits.filter(
+      (habit) =>
+        !hasInstance.has(habit.id) &&
+        this.isDue(habit, today, weeklyCounts.get(habit.id) ?? 0),
+    );
+    if (due.length === 0) return;
+
+    // Left at position 0, so habits head the day until the user reorders
+    await this.prisma.dailyGoal.createMany({
+      data: due.map((habit) => ({
+        userId,
+        goal: habit.goal,
+        date: todayStart,
+        habitId: habit.id,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  isDue(habit: HabitScheduleFields, day: string, doneThisWeek: number) {
+    switch (habit.schedule) {
+      case 'WEEKDAYS':
+        return habit.weekdays.includes(parseISO(day).getDay());
+      case 'TIMES_PER_WEEK':
+        return doneThisWeek < (habit.timesPerWeek ?? 1);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Streaks and completion rate. Daily and weekday habits count days;
+   * N-times-per-week habits count weeks in which the target was met.
+   * Paused days (or weeks with a pause) are skipped, never breaking a
+   * streak, and an unfinished today doesn't break one either.
+   */
+  computeStats(
+    habit: HabitScheduleFields,
+    startDay: string,
+    today: string,
+    completedDays: Set<string>,
+    pauses: Pick<HabitPause, 'startDay' | 'endDay'>[],
+  ): HabitStats {
+    const isPaused = (day: string) =>
+      pauses.some(
+        (pause) =>
+          day >= pause.startDay &&
+          (pause.endDay === null || day <= pause.endDay),
+      );
+    const windowStart = [
+      startDay,
+      shiftDay(today, 1 - STATS_WINDOW_DAYS),
+    ].sort()[1];
+
+    if (habit.schedule === 'TIMES_PER_WEEK') {
+      return this.computeWeeklyStats(
+        habit.timesPerWeek ?? 1,
+        startDay,
+        today,
+        windowStart,
+        completedDays,
+        isPaused,
+      );
+    }
+
+    let run = 0;
+    let best = 0;
+    let scheduled = 0;
+    let completed = 0;
+
+    for (let day = startDay; day <= today; day = shiftDay(day, 1)) {
+      if (isPaused(day) || !this.isDue(habit, day, 0)) continue;
+
+      const done = completedDays.has(day);
+      if (done) {
+        run++;
+        best = Math.max(best, run);
+      } else if (day !== today) {
+        run = 0;
+      }
+
+      if (day >= windowStart && (done || day !== today)) {
+        scheduled++;
+        if (done) completed++;
+      }
+    }
+
+    return {
+      currentStreak: run,
+      bestStreak: best,
+      streakUnit: 'days',
+      completionRate: this.rate(completed, scheduled),
+    };
+  }
+
+  private computeWeeklyStats(
+    target: number,
+    startDay: string,
+    today: string,
+    windowStart: string,
+    completedDays: Set<string>,
+    isPaused: (day: string) => boolean,
+  ): HabitStats {
+    const weekOf = (day: string) =>
+      format(startOfISOWeek(parseISO(day)), 'yyyy-MM-dd');
+    const currentWeek = weekOf(today);
+    const windowWeek = weekOf(windowStart);
+
+    let run = 0;
+    let best = 0;
+    let possible = 0;
+    let achieved = 0;
+
+    for (
+      let week = weekOf(startDay);
+      week <= currentWeek;
+      week = shiftDay(week, 7)
+    ) {
+      let count = 0;
+      let paused = false;
+      for (let i = 0; i < 7; i++) {
+        const day = shiftDay(week, i);
+        if (day < startDay || day > today) continue;
+        if (completedDays.has(day)) count++;
+        if (isPaused(day)) paused = true;
+      }
+      if (paused) continue;
+
+      const met = count >= target;
+      if (met) {
+        run++;
+        best = Math.max(best, run);
+      } else if (week !== currentWeek) {
+        run = 0;
+      }
+
+      if (week >= windowWeek && (met || week !== currentWeek)) {
+        possible += target;
+        achieved += Math.min(count, target);
+      }
+    }
+
+    return {
+      currentStreak: run,
+      bestStreak: best,
+      streakUnit: 'weeks',
+      completionRate: this.rate(achieved, possible),
+    };
+  }
+
+  private rate(done: number, total: number) {
+    return total === 0 ? 0 : Math.round((done / total) * 100) / 100;
+  }
+
+  private async getHabit(userId: string, habitId: string, timezone: string) {
+    const tz = resolveTimezone(timezone);
+    const habit = await this.prisma.habit.findFirst({
+      where: { id: habitId, userId },
+      include: {
+        pauses: { select: { startDay: true, endDay: true } },
+        instances: { where: { completed: true }, select: { date: true } },
+      },
+    });
+
+    if (!habit) {
+      throw new NotFoundException('Habit not found');
+    }
+
+    return this.toResponse(habit, localDayOf(new Date(), tz), tz);
+  }
+
+  private async findHabit(userId: string, habitId: string) {
+    const habit = await this.prisma.habit.findFirst({
+      where: { id: habitId, userId, archivedAt: null },
+    });
+
+    if (!habit) {
+      throw new NotFoundException('Habit not found');
+    }
+
+    return habit;
+  }
+
+  private toResponse(
+    habit: HabitWithHistory,
+    today: string,
+    tz: string,
+  ): HabitResponse {
+    return {
+      id: habit.id,
+      goal: habit.goal,
+      schedule: habit.schedule,
+      weekdays: habit.weekdays,
+      timesPerWeek: habit.timesPerWeek,
+      paused: habit.pausedAt !== null,
+      createdAt: habit.createdAt,
+      stats: this.computeStats(
+        habit,
+        localDayOf(habit.createdAt, tz),
+        today,
+        new Set(habit.instances.map((goal) => localDayOf(goal.date, tz))),
+        habit.pauses,
+      ),
+    };
+  }
+
+  /**
+   * The DTOs check each field; this checks the schedule's fields fit
+   * together and drops the ones it doesn't use
+   */
+  private resolveSchedule(fields: {
+    schedule: HabitSchedule;
+    weekdays?: number[];
+    timesPerWeek?: number | null;
+  }): HabitScheduleFields {
+    const { schedule } = fields;
+
+    if (schedule === 'WEEKDAYS') {
+      if (!fields.weekdays?.length) {
+        throw new BadRequestException(
+          'weekdays must list at least one day for a WEEKDAYS schedule',
+        );
+      }
+      return {
+        schedule,
+        weekdays: [...fields.weekdays].sort((a, b) => a - b),
+        timesPerWeek: null,
+      };
+    }
+
+    if (schedule === 'TIMES_PER_WEEK') {
+      if (!fields.timesPerWeek) {
+        throw new BadRequestException(
+          'timesPerWeek is required for a TIMES_PER_WEEK schedule',
+        );
+      }
+      return { schedule, weekdays: [], timesPerWeek: fields.timesPerWeek };
+    }
+
+    return { schedule, weekdays: [], timesPerWeek: null };
+  }
+}
@@ -0,0 +1,240 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  GoalRecommendationsService,
+  RecommendationSignals,
+} from './recommendations.service';
+import { GoalTemplatesService } from './goal-templates.service';
+import { GOAL_TEMPLATES } from './fixtures/goal-templates.fixture';
+import { PrismaService } from '../database/database.service';
+import { QuestionnairesService } from '../questionnaires/questionnaires.service';
+import { UsageService } from '../usage/usage.service';
+import { DAILY_CHECK_IN_V1 } from '../questionnaires/fixtures/daily-check-in.fixture';
+
+describe('GoalRecommendationsService', () => {
+  let service: GoalRecommendationsService;
+  const prisma = {
+    profile: { findUnique: jest.fn() },
+    checkIn: { findMany: jest.fn() },
+    dailyGoal: { findMany: jest.fn() },
+    goalTemplate: { findMany: jest.fn() },
+    goalRecommendationImpression: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+  const questionnairesService = {
+    getTemplate: jest.fn(),
+    getActiveTemplate: jest.fn(),
+  };
+  const usageService = {
+    assertWithinQuota: jest.fn(),
+    recordUsage: jest.fn(),
+  };
+  const timezone = 'America/Los_Angeles';
+  const now = new Date('2026-06-17T04:00:00Z'); // Tuesday evening locally
+
+  const signals = (
+    overrides: Partial<RecommendationSignals> = {},
+  ): RecommendationSignals => ({
+    struggles: new Set(),
+    scores: new Map(),
+    accepted: new Map(),
+    ignored: new Map(),
+    todaysGoals: new Set(),
+    ...overrides,
+  });
+
+  // Answers for steps 1-5: emotional, stress, energy, connection, control
+  const checkIn = (moods: number[]) => ({
+    templateId: DAILY_CHECK_IN_V1.id,
+    steps: moods.map((mood, index) => ({ step: index + 1, mood })),
+  });
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GoalRecommendationsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: QuestionnairesService, useValue: questionnairesService },
+        { provide: UsageService, useValue: usageService },
+        GoalTemplatesService,
+      ],
+    }).compile();
+
+    return module.get<GoalRecommendationsService>(GoalRecommendationsService);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.profile.findUnique.mockResolvedValue({ struggles: [] });
+    prisma.checkIn.findMany.mockResolvedValue([]);
+    prisma.dailyGoal.findMany.mockResolvedValue([]);
+    prisma.goalRecommendationImpression.findMany.mockResolvedValue([]);
+    prisma.goalTemplate.findMany.mockResolvedValue(GOAL_TEMPLATES);
+    questionnairesService.getTemplate.mockResolvedValue(DAILY_CHECK_IN_V1);
+    service = await createService();
+  });
+
+  afterEach(() => {
+    delete process.env.GOAL_RECOMMENDATIONS_AI_ENABLED;
+  });
+
+  describe('getRecommendations', () => {
+    it('surfaces connection goals after low connection check-ins', async () => {
+      prisma.checkIn.findMany.mockResolvedValue([
+        checkIn([3, 3, 3, 1, 3]),
+        checkIn([4, 3, 3, 2, 4]),
+      ]);
+
+      const recommendations = await service.getRecommendations(
+        'user-1',
+        timezone,
+        { count: 4 },
+        now,
+      );
+
+      expect(recommendations[0].reasons).toContain('low:connection');
+      expect(recommendations.map((r) => r.id)).toContain('reach-out-friend');
+    });
+
+    it('favours goals for the struggles in the profile', async () => {
+      prisma.profile.findUnique.mockResolvedValue({
+        struggles: ['Grieving my dad', 'Trouble sleeping'],
+      });
+
+      const recommendations = await service.getRecommendations(
+        'user-1',
+        timezone,
+        { count: 4 },
+        now,
+      );
+
+      for (const recommendation of recommendations) {
+        expect(recommendation.reasons.join(' ')).toMatch(
+          /struggle:(grief|sleep)/,
+        );
+      }
+    });
+
+    it('returns the same list for the same user and day', async () => {
+      const first = await service.getRecommendations(
+        'user-1',
+        timezone,
+        { count: 4 },
+        now,
+      );
+      const second = await service.getRecommendations(
+        'user-1',
+        timezone,
+        { count: 4 },
+        now,
+      );
+      const nextDay = await service.getRecommendations(
+        'user-1',
+        timezone,
+        { count: 4 },
+        new Date('2026-06-18T04:00:00Z'),
+      );
+
+      expect(second).toEqual(first);
+      expect(nextDay).not.toEqual(first);
+    });
+
+    it("records impressions on the user's local day", async () => {
+      await service.getRecommendations('user-1', timezone, { count: 3 }, now);
+
+      const [[{ data, skipDuplicates }]] = prisma.goalRecommendationImpression
+        .createMany.mock.calls as [
+        [{ data: { day: string }[]; skipDuplicates: boolean }],
+      ];
+      expect(data).toHaveLength(3);
+      expect(data[0]).toMatchObject({ userId: 'user-1', day: '2026-06-16' });
+      expect(skipDuplicates).toBe(true);
+    });
+
+    it('leaves the generated tier off by default', async () => {
+      await service.getRecommendations('user-1', timezone, { count: 4 }, now);
+
+      expect(usageService.assertWithinQuota).not.toHaveBeenCalled();
+    });
+
+    it('does not pay for a second call after an unusable reply', async () => {
+      process.env.GOAL_RECOMMENDATIONS_AI_ENABLED = 'true';
+      service = await createService();
+      const create = jest
+        .spyOn(service['anthropic'].messages, 'create')
+        .mockResolvedValue({
+          content: [{ type: 'text', text: 'Sorry, no JSON today' }],
+          usage: { input_tokens: 80, output_tokens: 6 },
+        } as never);
+
+      for (let i = 0; i < 2; i++) {
+        const recommendations = await service.getRecommendations(
+          'user-1',
+          timezone,
+          { count: 4 },
+          now,
+        );
+        expect(recommendations.map((r) => r.source)).toEqual([
+          'catalog',
+          'catalog',
+          'catalog',
+          'catalog',
+        ]);
+      }
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(usageService.recordUsage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('rank', () => {
+    it('pushes down recommendations the user keeps ignoring', () => {
+      const base = service.rank(GOAL_TEMPLATES, signals(), 'seed');
+      const top = base[0].id;
+
+      const ranked = service.rank(
+        GOAL_TEMPLATES,
+        signals({ ignored: new Map([[top, 4]]) }),
+        'seed',
+      );
+
+      expect(ranked.findIndex((r) => r.id === top)).toBeGreaterThan(10);
+    });
+
+    it('prefers low-effort goals when check-ins are low across the board', () => {
+      const ranked = service.rank(
+        GOAL_TEMPLATES,
+        signals({
+          scores: new Map([
+            ['emotional', 0.25],
+            ['energy', 0.25],
+          ]),
+        }),
+        'seed',
+      );
+
+      expect(ranked.slice(0, 10).every((r) => r.effort !== 'HIGH')).toBe(true);
+    });
+
+    it("skips goals already on today's list", () => {
+      const ranked = service.rank(
+        GOAL_TEMPLATES,
+        signals({ todaysGoals: new Set(['make my bed']) }),
+        'seed',
+      );
+
+      expect(ranked.map((r) => r.id)).not.toContain('make-bed');
+      expect(ranked).toHaveLength(GOAL_TEMPLATES.length - 1);
+    });
+  });
+
+  describe('markAccepted', () => {
+    it('ignores ids outside the catalog', async () => {
+      await service.markAccepted('user-1', 'generated:abc', '2026-06-16');
+
+      expect(prisma.goalRecommendationImpression.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,417 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Anthropic } from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import { PrismaService } from '../database/database.service';
+import { QuestionnairesService } from '../questionnaires/questionnaires.service';
+import type { QuestionnaireTemplate } from '../questionnaires/questionnaire.types';
+import { UsageService } from '../usage/usage.service';
+import { CheckInStepResponse } from '../check-in/dto/check-in-response.dto';
+import { STRUGGLE_TAGS } from './constants';
+import { GoalTemplatesService } from './goal-templates.service';
+import type { CatalogGoal } from './goal-template.types';
+import { GoalRecommendation } from './dto/goal-recommendation-response.dto';
+import {
+  localDayOf,
+  localDayToUtc,
+  resolveTimezone,
+  shiftDay,
+} from '../common/local-day';
+
+// Check-ins whose answers feed the per-question scores
+const RECENT_CHECK_INS = 5;
+const RECENT_CHECK_IN_DAYS = 14;
+// How far back accepted and ignored recommendations count
+const HISTORY_DAYS = 60;
+// Normalized answers (0-1) at or below this count as a low area
+const LOW_SCORE = 0.4;
+// Upper bound of the per-day tie-breaking noise added to each score
+const JITTER = 0.5;
+// Generated goals are cached per user and local day
+const MAX_GENERATED_CACHE_ENTRIES = 1000;
+
+export interface RecommendationSignals {
+  struggles: Set<string>; // Tags from STRUGGLE_TAGS
+  scores: Map<string, number>; // Question key -> average answer, 0-1
+  accepted: Map<string, number>;
+  ignored: Map<string, number>;
+  todaysGoals: Set<string>; // Lowercased text already on today's list
+}
+
+@Injectable()
+export class GoalRecommendationsService {
+  private readonly logger = new Logger(GoalRecommendationsService.name);
+  private readonly anthropic: Anthropic;
+  private readonly generationEnabled: boolean;
+  private readonly generationModel: string;
+  private generatedCache = new Map<string, GoalRecommendation[]>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly questionnairesService: QuestionnairesService,
+    private readonly usageService: UsageService,
+    private readonly goalTemplatesService: GoalTemplatesService,
+  ) {
+    this.anthropic = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY || '',
+    });
+
+    this.generationEnabled =
+      process.env.GOAL_RECOMMENDATIONS_AI_ENABLED === 'true';
+    this.generationModel =
+      process.env.GOAL_RECOMMENDATIONS_AI_MODEL || 'claude-3-5-haiku-20241022';
+  }
+
+  /**
+   * Recommendations ranked for the user's struggles, recent check-in answers
+   * and what they accepted or ignored before. The same user gets the same
+   * list all day; it rotates with the local day.
+   */
+  async getRecommendations(
+    userId: string,
+    timezone: string,
+    options: { count?: number; locale?: string } = {},
+    now = new Date(),
+  ): Promise<GoalRecommendation[]> {
+    const count = Math.min(Math.max(Number(options.count) || 4, 1), 10);
+    const tz = resolveTimezone(timezone);
+    const today = localDayOf(now, tz);
+    const signals = await this.loadSignals(userId, today, tz);
+
+    // Generated goals take at most one slot, and never the only one
+    const generated =
+      this.generationEnabled && count > 1
+        ? (await this.generate(userId, today, signals)).slice(0, 1)
+        : [];
+
+    const catalog = await this.goalTemplatesService.getCatalog(options.locale);
+    const picked = this.pick(
+      this.rank(catalog, signals, `${userId}:${today}`),
+      count - generated.length,
+    );
+
+    await this.prisma.goalRecommendationImpression.createMany({
+      data: picked.map((recommendation) => ({
+        userId,
+        recommendationId: recommendation.id,
+        day: today,
+      })),
+      skipDuplicates: true,
+    });
+
+    return [...picked, ...generated];
+  }
+
+  /**
+   * Remember that the user added a catalog recommendation as a goal.
+   * Generated recommendations aren't tracked.
+   */
+  async markAccepted(userId: string, recommendationId: string, day: string) {
+    if (!(await this.goalTemplatesService.isActiveTemplate(recommendationId))) {
+      return;
+    }
+
+    await this.prisma.goalRecommendationImpression.upsert({
+      where: {
+        userId_recommendationId_day: { userId, recommendationId, day },
+      },
+      create: { userId, recommendationId, day, acceptedAt: new Date() },
+      update: { acceptedAt: new Date() },
+    });
+  }
+
+  /**
+   * Score every catalog item, highest first. `seed` only breaks near-ties,
+   * so the order is stable for a given seed.
+   */
+  rank(
+    catalog: CatalogGoal[],
+    signals: RecommendationSignals,
+    seed: string,
+  ): GoalRecommendation[] {
+    const scores = [...signals.scores.values()];
+    const wellbeing =
+      scores.length > 0
+        ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+        : null;
+    const struggling = wellbeing !== null && wellbeing <= LOW_SCORE;
+
+    return catalog
+      .filter((item) => !signals.todaysGoals.has(item.text.toLowerCase()))
+      .map((item) => {
+        let score = 0;
+        const reasons: string[] = [];
+
+        const struggles = item.struggles.filter((tag) =>
+          signals.struggles.has(tag),
+        );
+        if (struggles.length > 0) {
+          score += 2;
+          reasons.push(...struggles.map((tag) => `struggle:${tag}`));
+        }
+
+        // Goals aimed squarely at a low area beat ones that touch it in passing
+        for (const dimension of item.dimensions) {
+          const value = signals.scores.get(dimension);
+          if (value !== undefined && value <= LOW_SCORE) {
+            score += (3 * (1 - value)) / item.dimensions.length;
+            reasons.push(`low:${dimension}`);
+          }
+        }
+
+        // Keep it small on heavy days
+        if (struggling) {
+          score += { LOW: 0.5, MEDIUM: -0.5, HIGH: -2 }[item.effort];
+          if (item.effort === 'LOW') reasons.push('low-effort');
+        }
+
+        const accepted = signals.accepted.get(item.id) ?? 0;
+        if (accepted > 0) {
+          score += 0.75 * Math.min(accepted, 2);
+          reasons.push('accepted-before');
+        }
+        score -= 0.75 * Math.min(signals.ignored.get(item.id) ?? 0, 4);
+
+        return {
+          recommendation: {
+            id: item.id,
+            text: item.text,
+            category: item.category,
+            effort: item.effort,
+            source: 'catalog' as const,
+            reasons,
+          },
+          score: score + JITTER * this.jitter(seed, item.id),
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .map(({ recommendation }) => recommendation);
+  }
+
+  /**
+   * Take the top `count`, preferring one per category
+   */
+  private pick(ranked: GoalRecommendation[], count: number) {
+    const picked: GoalRecommendation[] = [];
+    const categories = new Set<string>();
+
+    for (const recommendation of ranked) {
+      if (picked.length >= count) break;
+      if (categories.has(recommendation.category)) continue;
+      picked.push(recommendation);
+      categories.add(recommendation.category);
+    }
+
+    for (const recommendation of ranked) {
+      if (picked.length >= count) break;
+      if (!picked.includes(recommendation)) picked.push(recommendation);
+    }
+
+    return picked;
+  }
+
+  private async loadSignals(
+    userId: string,
+    today: string,
+    tz: string,
+  ): Promise<RecommendationSignals> {
+    const todayStart = localDayToUtc(today, tz);
+
+    const [profile, checkIns, impressions, todaysGoals] = await Promise.all([
+      this.prisma.profile.findUnique({
+        where: { userId },
+        select: { struggles: true },
+      }),
+      this.prisma.checkIn.findMany({
+        where: {
+          userId,
+          date: {
+            gte: localDayToUtc(shiftDay(today, -RECENT_CHECK_IN_DAYS), tz),
+          },
+        },
+        orderBy: { date: 'desc' },
+        take: RECENT_CHECK_INS,
+        select: { steps: true, templateId: true },
+      }),
+      this.prisma.goalRecommendationImpression.findMany({
+        where: {
+          userId,
+          // Today's impressions can still be accepted
+          day: { gte: shiftDay(today, -HISTORY_DAYS), lt: today },
+        },
+        select: { recommendationId: true, acceptedAt: true },
+      }),
+      this.prisma.dailyGoal.findMany({
+        where: {
+          userId,
+          date: { gte: todayStart, lt: localDayToUtc(shiftDay(today, 1), tz) },
+        },
+        select: { goal: true },
+      }),
+    ]);
+
+    const accepted = new Map<string, number>();
+    const ignored = new Map<string, number>();
+    for (const impression of impressions) {
+      const counts = impression.acceptedAt ? accepted : ignored;
+      counts.set(
+        impression.recommendationId,
+        (counts.get(impression.recommendationId) ?? 0) + 1,
+      );
+    }
+
+    return {
+      struggles: this.struggleTags(profile?.struggles ?? []),
+      scores: await this.answerScores(checkIns),
+      accepted,
+      ignored,
+      todaysGoals: new Set(todaysGoals.map((goal) => goal.goal.toLowerCase())),
+    };
+  }
+
+  private struggleTags(struggles: string[]): Set<string> {
+    const text = struggles.map((struggle) => struggle.toLowerCase());
+    return new Set(
+      Object.entries(STRUGGLE_TAGS)
+        .filter(([, fragments]) =>
+          text.some((struggle) =>
+            fragments.some((fragment) => struggle.includes(fragment)),
+          ),
+        )
+        .map(([tag]) => tag),
+    );
+  }
+
+  /**
+   * Average answer per question key, scaled to 0-1 by each question's scale
+   */
+  private async answerScores(
+    checkIns: { steps: unknown; templateId: string | null }[],
+  ): Promise<Map<string, number>> {
+    const values = new Map<string, number[]>();
+    const templates = new Map<string | null, QuestionnaireTemplate>();
+
+    for (const checkIn of checkIns) {
+      let template = templates.get(checkIn.templateId);
+      if (!template) {
+        template = checkIn.templateId
+          ? await this.questionnairesService.getTemplate(checkIn.templateId)
+          : await this.questionnairesService.getActiveTemplate();
+        templates.set(checkIn.templateId, template);
+      }
+
+      for (const step of (checkIn.steps as CheckInStepResponse[]) ?? []) {
+        const question = template.questions.find((q) => q.step === step.step);
+        if (!question || question.scale.max === question.scale.min) continue;
+
+        const { min, max } = question.scale;
+        values.set(question.key, [
+          ...(values.get(question.key) ?? []),
+          (step.mood - min) / (max - min),
+        ]);
+      }
+    }
+
+    return new Map(
+      [...values].map(([key, list]) => [
+        key,
+        list.reduce((sum, value) => sum + value, 0) / list.length,
+      ]),
+    );
+  }
+
+  /**
+   * Ask the model for a goal tailored to the user. Only struggle tags and
+   * low areas are sent - never check-in notes or profile text.
+   */
+  private async generate(
+    userId: string,
+    today: string,
+    signals: RecommendationSignals,
+  ): Promise<GoalRecommendation[]> {
+    const cacheKey = `${userId}:${today}`;
+    const cached = this.generatedCache.get(cacheKey);
+    if (cached) return cached;
+
+    const lowAreas = [...signals.scores]
+      .filter(([, value]) => value <= LOW_SCORE)
+      .map(([key]) => key);
+
+    // Set once the model has been paid for, so a bad reply isn't retried
+    let called = false;
+    try {
+      await this.usageService.assertWithinQuota(userId);
+
+      const response = await this.anthropic.messages.create({
+        model: this.generationModel,
+        max_tokens: 200,
+        temperature: 0,
+        system: `You suggest one small, concrete goal for today to a user of a mental health support app.
+The goal must be doable in under 30 minutes, kind in tone and under 80 characters.
+Avoid anything medical, and anything that needs money or other people's agreement.
+Reply with JSON only: {"goals": ["<goal>"]}`,
+        messages: [
+          {
+            role: 'user',
+            content: `Struggles: ${[...signals.struggles].join(', ') || 'none shared'}
+Areas that felt low in recent check-ins: ${lowAreas.join(', ') || 'none'}`,
+          },
+        ],
+      });
+      called = true;
+
+      await this.usageService.recordUsage(userId, {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        cacheCreationInputTokens:
+          response.usage.cache_creation_input_tokens ?? 0,
+        cacheReadInputTokens: response.usage.cache_read_input_tokens ?? 0,
+      });
+
+      const raw = response.content
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text)
+        .join('');
+      const parsed = JSON.parse(
+        raw.substring(raw.indexOf('{'), raw.lastIndexOf('}') + 1),
+      ) as { goals?: unknown };
+
+      const generated = (Array.isArray(parsed.goals) ? parsed.goals : [])
+        .filter(
+          (goal): goal is string =>
+            typeof goal === 'string' &&
+            goal.trim().length > 0 &&
+            goal.length <= 120,
+        )
+        .map((goal) => ({
+          id: `generated:${createHash('sha256').update(goal).digest('hex').slice(0, 12)}`,
+          text: goal.trim(),
+          category: 'personal',
+          effort: 'LOW' as const,
+          source: 'generated' as const,
+          reasons: ['generated'],
+        }));
+
+      this.cacheGenerated(cacheKey, generated);
+      return generated;
+    } catch (error) {
+      // The catalog tier is enough on its own
+      this.logger.warn(`Goal generation skipped: ${(error as Error).message}`);
+      if (called) this.cacheGenerated(cacheKey, []);
+      return [];
+    }
+  }
+
+  private cacheGenerated(key: string, generated: GoalRecommendation[]) {
+    if (this.generatedCache.size >= MAX_GENERATED_CACHE_ENTRIES) {
+      this.generatedCache.clear();
+    }
+    this.generatedCache.set(key, generated);
+  }
+
+  private jitter(seed: string, id: string): number {
+    return (
+      createHash('sha256').update(`${seed}:${id}`).digest().readUInt32BE(0) /
+      0x100000000
+    );
+  }
+}
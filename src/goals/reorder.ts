@@ -0,0 +1,25 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * A reorder must list every current item exactly once, so two clients
+ * reordering at the same time can't leave gaps or duplicates behind
+ */
+export function assertCompleteOrder(
+  currentIds: string[],
+  ids: string[],
+  label: string,
+) {
+  const current = new Set(currentIds);
+  const unknown = ids.filter((id) => !current.has(id));
+  if (unknown.length > 0) {
+    throw new BadRequestException(`Unknown ${label}: ${unknown.join(', ')}`);
+  }
+
+  const given = new Set(ids);
+  const missing = currentIds.filter((id) => !given.has(id));
+  if (missing.length > 0 || given.size !== ids.length) {
+    throw new BadRequestException(
+      `Order must list every ${label} exactly once; missing: ${missing.join(', ') || 'none'}`,
+    );
+  }
+}
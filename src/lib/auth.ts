@@ -1,7 +1,7 @@
 import { betterAuth } from 'better-auth';
 import { prismaAdapter } from 'better-auth/adapters/prisma';
 import { PrismaClient } from '../../generated/prisma';
-import { admin, customSession } from 'better-auth/plugins';
+import { admin, bearer, customSession } from 'better-auth/plugins';
 import { expo } from '@better-auth/expo';
 
 const prisma = new PrismaClient();
@@ -58,6 +58,7 @@ export const auth = betterAuth({
   },
   plugins: [
     expo(),
+    bearer(),
     admin({
       defaultBanReason: 'Misconduct/Inappropriate Behavior',
       adminRoles: ['admin', 'superadmin'],
@@ -5,6 +5,8 @@ describe('MediaService', () => {
   let service: MediaService;
 
   beforeEach(async () => {
+    process.env.CLOUDFLARE_PUBLIC_DOMAIN_LIVE = 'https://cdn.example.com';
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [MediaService],
     }).compile();
@@ -15,4 +17,49 @@ describe('MediaService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  afterEach(() => {
+    delete process.env.CLOUDFLARE_PUBLIC_DOMAIN_LIVE;
+  });
+
+  it('recognizes only the user’s own avatar urls', () => {
+    const own = 'https://cdn.example.com/user-avatars/user-1/123-abc.jpg';
+
+    expect(service.isOwnAvatarUrl(own, 'user-1')).toBe(true);
+    expect(service.isOwnAvatarUrl(own, 'user-12')).toBe(false);
+    expect(
+      service.isOwnAvatarUrl(
+        'https://cdn.example.com/user-avatars/user-1/../user-2/a.jpg',
+        'user-1',
+      ),
+    ).toBe(false);
+    expect(
+      service.isOwnAvatarUrl('https://evil.example.com/a.jpg', 'user-1'),
+    ).toBe(false);
+  });
+
+  it('lists and deletes every page under a prefix', async () => {
+    const send = jest
+      .spyOn(service['s3Client'], 'send')
+      .mockResolvedValueOnce({
+        Contents: [{ Key: 'user-avatars/user-1/a.jpg' }],
+        IsTruncated: true,
+        NextContinuationToken: 'page-2',
+      } as never)
+      .mockResolvedValueOnce({} as never)
+      .mockResolvedValueOnce({
+        Contents: [{ Key: 'user-avatars/user-1/b.jpg' }],
+        IsTruncated: false,
+      } as never)
+      .mockResolvedValueOnce({} as never);
+
+    expect(await service.deletePrefix('user-avatars/user-1/')).toBe(2);
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+
+  it('refuses to delete an unscoped prefix', async () => {
+    await expect(service.deletePrefix('user-avatars/user-1')).rejects.toThrow(
+      'unscoped prefix',
+    );
+  });
 });
@@ -4,17 +4,25 @@ import {
   S3Client,
   PutObjectCommand,
   DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
 } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { randomUUID } from 'crypto';
 
 @Injectable()
 export class MediaService {
   private readonly logger = new Logger(MediaService.name);
   private readonly s3Client: S3Client;
   private readonly bucketName: string;
+  // Bucket with no public access, for files like data exports
+  private readonly privateBucketName?: string;
   private readonly publicDomain: string;
 
   constructor() {
     this.bucketName = process.env.CLOUDFLARE_BUCKET_NAME!;
+    this.privateBucketName = process.env.CLOUDFLARE_PRIVATE_BUCKET_NAME;
     this.publicDomain =
       process.env.CLOUDFLARE_PUBLIC_DOMAIN_LIVE ??
       (process.env.CLOUDFLARE_PUBLIC_DOMAIN_DEV || '');
@@ -56,6 +64,56 @@ export class MediaService {
     }
   }
 
+  /**
+   * Upload a file to the private bucket, where it is never cached or
+   * served publicly. Returns the key; use getSignedDownloadUrl to hand out access.
+   */
+  async uploadPrivateFile(
+    key: string,
+    buffer: Buffer,
+    contentType: string,
+  ): Promise<string> {
+    const bucket = this.getPrivateBucket();
+    try {
+      const command = new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: buffer,
+        ContentType: contentType,
+        CacheControl: 'private, no-store',
+      });
+
+      await this.s3Client.send(command);
+      this.logger.log(`Private file uploaded: ${key}`);
+
+      return key;
+    } catch (error) {
+      this.logger.error(`Failed to upload private file ${key}:`, error);
+      throw new Error(`Upload failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Time-limited download link for a file in the private bucket
+   */
+  async getSignedDownloadUrl(
+    key: string,
+    expiresInSeconds: number,
+    downloadName?: string,
+  ): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.getPrivateBucket(),
+      Key: key,
+      ...(downloadName && {
+        ResponseContentDisposition: `attachment; filename="${downloadName}"`,
+      }),
+    });
+
+    return getSignedUrl(this.s3Client, command, {
+      expiresIn: expiresInSeconds,
+    });
+  }
+
   /**
    * Delete a file
    */
@@ -78,6 +136,73 @@ export class MediaService {
     }
   }
 
+  /**
+   * Delete every file under a key prefix (e.g. all of a user's avatars).
+   * Returns how many files were removed.
+   */
+  async deletePrefix(prefix: string): Promise<number> {
+    // An empty or partial prefix could match other users' files
+    if (!prefix.endsWith('/') || prefix === '/') {
+      throw new Error(`Refusing to delete unscoped prefix "${prefix}"`);
+    }
+
+    let deleted = 0;
+    let continuationToken: string | undefined;
+    do {
+      const listed = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+
+      const objects = (listed.Contents ?? []).flatMap(({ Key }) =>
+        Key ? [{ Key }] : [],
+      );
+      if (objects.length > 0) {
+        const result = await this.s3Client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.bucketName,
+            Delete: { Objects: objects, Quiet: true },
+          }),
+        );
+        if (result.Errors?.length) {
+          throw new Error(
+            `Delete failed for ${result.Errors.length} file(s) under ${prefix}`,
+          );
+        }
+        deleted += objects.length;
+      }
+
+      continuationToken = listed.IsTruncated
+        ? listed.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    this.logger.log(`Deleted ${deleted} file(s) under ${prefix}`);
+    return deleted;
+  }
+
+  /**
+   * Delete a file from the private bucket
+   */
+  async deletePrivateFile(key: string): Promise<void> {
+    const bucket = this.getPrivateBucket();
+    try {
+      const command = new DeleteObjectCommand({
+        Bucket: bucket,
+        Key: key,
+      });
+
+      await this.s3Client.send(command);
+      this.logger.log(`Private file deleted: ${key}`);
+    } catch (error) {
+      this.logger.error(`Failed to delete private file ${key}:`, error);
+      throw new Error(`Delete failed: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Generate public URL - works immediately after upload
    */
@@ -92,13 +217,34 @@ export class MediaService {
   }
 
   /**
-   * Generate avatar key: /avatars/:userId/avatar.jpg
+   * Folder holding every avatar a user has uploaded: /user-avatars/:userId/
+   */
+  getAvatarPrefix(userId: string): string {
+    return `user-avatars/${userId}/`;
+  }
+
+  /**
+   * Whether a URL is an avatar this user uploaded to our bucket
+   */
+  isOwnAvatarUrl(url: string, userId: string): boolean {
+    const prefix = this.getPublicUrl(this.getAvatarPrefix(userId));
+    const fileName = url.slice(prefix.length);
+    return (
+      url.startsWith(prefix) &&
+      fileName.length > 0 &&
+      !fileName.includes('/') &&
+      !fileName.includes('..')
+    );
+  }
+
+  /**
+   * Generate avatar key: /user-avatars/:userId/:timestamp-:random.jpg
    */
   generateAvatarKey(userId: string, originalName: string): string {
     const timestamp = Date.now();
     const randomString = Math.random().toString(36).substring(2, 8);
     const extension = originalName.split('.').pop()?.toLowerCase() || 'jpg';
-    return `user-avatars/${userId}/${timestamp}-${randomString}.${extension}`;
+    return `${this.getAvatarPrefix(userId)}${timestamp}-${randomString}.${extension}`;
   }
 
   /**
@@ -111,4 +257,20 @@ export class MediaService {
     const baseName = originalName.replace(/\.[^/.]+$/, '');
     return `brand-assets/${baseName}-${timestamp}-${randomString}.${extension}`;
   }
+
+  /**
+   * Generate data export key: /private-exports/:userId/:uuid.zip
+   * The random id keeps the key unguessable.
+   */
+  generateExportKey(userId: string): string {
+    return `private-exports/${userId}/${randomUUID()}.zip`;
+  }
+
+  // Never fall back to the public bucket - private files must not be served
+  private getPrivateBucket(): string {
+    if (!this.privateBucketName) {
+      throw new Error('CLOUDFLARE_PRIVATE_BUCKET_NAME is not configured');
+    }
+    return this.privateBucketName;
+  }
 }
@@ -0,0 +1,14 @@
+import { IsIn, IsNotEmpty, IsString } from 'class-validator';
+
+export class RegisterPushTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @IsString()
+  @IsNotEmpty()
+  device: string;
+
+  @IsIn(['ios', 'android', 'web'])
+  platform: string;
+}
@@ -0,0 +1,81 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { PushMessage, PushProvider, PushResult } from './push-provider.types';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+// Expo rejects requests with more than 100 messages
+const EXPO_BATCH_SIZE = 100;
+
+interface ExpoPushTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+@Injectable()
+export class ExpoPushProvider implements PushProvider {
+  readonly name = 'expo';
+  private readonly logger = new Logger(ExpoPushProvider.name);
+  private readonly accessToken = process.env.EXPO_ACCESS_TOKEN;
+
+  async send(tokens: string[], message: PushMessage): Promise<PushResult[]> {
+    const results: PushResult[] = [];
+
+    for (let i = 0; i < tokens.length; i += EXPO_BATCH_SIZE) {
+      const batch = tokens.slice(i, i + EXPO_BATCH_SIZE);
+      results.push(...(await this.sendBatch(batch, message)));
+    }
+
+    return results;
+  }
+
+  private async sendBatch(
+    tokens: string[],
+    message: PushMessage,
+  ): Promise<PushResult[]> {
+    try {
+      const response = await axios.post<{ data: ExpoPushTicket[] }>(
+        EXPO_PUSH_URL,
+        tokens.map((to) => ({
+          to,
+          title: message.title,
+          body: message.body,
+          data: message.data,
+          sound: 'default',
+        })),
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.accessToken && {
+              Authorization: `Bearer ${this.accessToken}`,
+            }),
+          },
+          timeout: 10000,
+        },
+      );
+
+      return tokens.map((token, index) => {
+        const ticket = response.data.data[index];
+        return {
+          token,
+          ok: ticket?.status === 'ok',
+          invalidToken: ticket?.details?.error === 'DeviceNotRegistered',
+          error: ticket?.status === 'error' ? ticket.message : undefined,
+        };
+      });
+    } catch (error) {
+      // Whole request failed - nothing here says the tokens themselves are bad
+      this.logger.error(
+        `Expo push request failed: ${(error as Error).message}`,
+      );
+      return tokens.map((token) => ({
+        token,
+        ok: false,
+        invalidToken: false,
+        error: (error as Error).message,
+      }));
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  AuthGuard,
+  Session,
+  type UserSession,
+} from '@thallesp/nestjs-better-auth';
+import { validateBody } from '../common/validate-body';
+import { PushService } from './push.service';
+import { RegisterPushTokenDto } from './dto/register-push-token.dto';
+import { UnregisterPushTokenDto } from './dto/unregister-push-token.dto';
+
+@Controller('notifications')
+@UseGuards(AuthGuard)
+export class NotificationsController {
+  constructor(private readonly pushService: PushService) {}
+
+  /**
+   * POST /notifications/push-tokens
+   * Register (or refresh) this device's push token
+   */
+  @Post('push-tokens')
+  @HttpCode(HttpStatus.OK)
+  async registerPushToken(
+    @Body() body: unknown,
+    @Session() session: UserSession,
+  ) {
+    const dto = await validateBody(RegisterPushTokenDto, body);
+    const pushToken = await this.pushService.registerToken(
+      session.user.id,
+      dto,
+    );
+    return {
+      message: 'Push token registered',
+      data: pushToken,
+    };
+  }
+
+  /**
+   * DELETE /notifications/push-tokens
+   * Stop sending to this device, e.g. on sign-out
+   */
+  @Delete('push-tokens')
+  async unregisterPushToken(
+    @Body() body: unknown,
+    @Session() session: UserSession,
+  ) {
+    const dto = await validateBody(UnregisterPushTokenDto, body);
+    await this.pushService.unregisterToken(session.user.id, dto.token);
+    return {
+      message: 'Push token removed',
+    };
+  }
+}
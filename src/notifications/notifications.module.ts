@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { CheckInModule } from '../check-in/check-in.module';
+import { NotificationsController } from './notifications.controller';
+import { PushService } from './push.service';
+import { ReminderScheduler } from './reminder.scheduler';
+import { ExpoPushProvider } from './expo-push.provider';
+import { PUSH_PROVIDER } from './push-provider.types';
+
+@Module({
+  imports: [CheckInModule],
+  controllers: [NotificationsController],
+  providers: [
+    PushService,
+    ReminderScheduler,
+    { provide: PUSH_PROVIDER, useClass: ExpoPushProvider },
+  ],
+  exports: [PushService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,24 @@
+export interface PushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushResult {
+  token: string;
+  ok: boolean;
+  // Provider says the token will never work again (uninstalled app, etc.)
+  invalidToken: boolean;
+  error?: string;
+}
+
+/**
+ * Delivery backend for push notifications. Returns one result per token,
+ * in the same order they were given.
+ */
+export interface PushProvider {
+  readonly name: string;
+  send(tokens: string[], message: PushMessage): Promise<PushResult[]>;
+}
+
+export const PUSH_PROVIDER = Symbol('PUSH_PROVIDER');
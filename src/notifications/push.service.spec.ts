@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PushService } from './push.service';
+import { PUSH_PROVIDER } from './push-provider.types';
+import { PrismaService } from '../database/database.service';
+
+describe('PushService', () => {
+  let service: PushService;
+  const prisma = {
+    pushToken: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  const provider = { name: 'test', send: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PushService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PUSH_PROVIDER, useValue: provider },
+      ],
+    }).compile();
+
+    service = module.get<PushService>(PushService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('prunes tokens the provider reports as dead', async () => {
+    prisma.pushToken.findMany.mockResolvedValue([
+      { token: 'good' },
+      { token: 'dead' },
+    ]);
+    provider.send.mockResolvedValue([
+      { token: 'good', ok: true, invalidToken: false },
+      {
+        token: 'dead',
+        ok: false,
+        invalidToken: true,
+        error: 'DeviceNotRegistered',
+      },
+    ]);
+
+    const delivered = await service.sendToUser('user-1', {
+      title: 'Hi',
+      body: 'There',
+    });
+
+    expect(delivered).toBe(1);
+    expect(prisma.pushToken.deleteMany).toHaveBeenCalledWith({
+      where: { token: { in: ['dead'] } },
+    });
+  });
+
+  it('keeps tokens when the request itself failed', async () => {
+    prisma.pushToken.findMany.mockResolvedValue([{ token: 'good' }]);
+    provider.send.mockResolvedValue([
+      { token: 'good', ok: false, invalidToken: false, error: 'timeout' },
+    ]);
+
+    expect(
+      await service.sendToUser('user-1', { title: 'Hi', body: 'There' }),
+    ).toBe(0);
+    expect(prisma.pushToken.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('skips the provider when the user has no devices', async () => {
+    prisma.pushToken.findMany.mockResolvedValue([]);
+
+    expect(
+      await service.sendToUser('user-1', { title: 'Hi', body: 'There' }),
+    ).toBe(0);
+    expect(provider.send).not.toHaveBeenCalled();
+  });
+
+  it('moves a device to the signed-in user on register', async () => {
+    await service.registerToken('user-2', {
+      token: 'ExponentPushToken[abc]',
+      device: 'device-1',
+      platform: 'ios',
+    });
+
+    expect(prisma.pushToken.deleteMany).toHaveBeenCalledWith({
+      where: { token: 'ExponentPushToken[abc]', device: { not: 'device-1' } },
+    });
+    expect(prisma.pushToken.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { device: 'device-1' },
+        update: {
+          userId: 'user-2',
+          token: 'ExponentPushToken[abc]',
+          platform: 'ios',
+        },
+      }),
+    );
+  });
+
+  it('rejects unknown platforms', async () => {
+    await expect(
+      service.registerToken('user-1', {
+        token: 't',
+        device: 'd',
+        platform: 'blackberry',
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('refuses to unregister without a token', async () => {
+    await expect(
+      service.unregisterToken('user-1', undefined as unknown as string),
+    ).rejects.toThrow(BadRequestException);
+    await expect(service.unregisterToken('user-1', '  ')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(prisma.pushToken.deleteMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../database/database.service';
+import { PUSH_PROVIDER } from './push-provider.types';
+import type { PushMessage, PushProvider } from './push-provider.types';
+import { RegisterPushTokenDto } from './dto/register-push-token.dto';
+
+const PUSH_PLATFORMS = ['ios', 'android', 'web'];
+
+@Injectable()
+export class PushService {
+  private readonly logger = new Logger(PushService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(PUSH_PROVIDER) private readonly provider: PushProvider,
+  ) {}
+
+  /**
+   * Store the device's current token. A device that signs in to another
+   * account, or gets a fresh token, replaces its old row.
+   */
+  async registerToken(userId: string, dto: RegisterPushTokenDto) {
+    if (!dto.token?.trim() || !dto.device?.trim()) {
+      throw new BadRequestException('token and device are required');
+    }
+    if (!PUSH_PLATFORMS.includes(dto.platform)) {
+      throw new BadRequestException(
+        `platform must be one of: ${PUSH_PLATFORMS.join(', ')}`,
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Token moved to a different device id (reinstall) - drop the stale row
+      await tx.pushToken.deleteMany({
+        where: { token: dto.token, device: { not: dto.device } },
+      });
+
+      return tx.pushToken.upsert({
+        where: { device: dto.device },
+        create: {
+          userId,
+          token: dto.token,
+          device: dto.device,
+          platform: dto.platform,
+        },
+        update: { userId, token: dto.token, platform: dto.platform },
+        select: { id: true, device: true, platform: true, updatedAt: true },
+      });
+    });
+  }
+
+  /**
+   * Remove a token on sign-out. Only the owner's rows are touched, and an
+   * empty token is refused so the filter can never match every device.
+   */
+  async unregisterToken(userId: string, token: string) {
+    if (typeof token !== 'string' || !token.trim()) {
+      throw new BadRequestException('token is required');
+    }
+    const { count } = await this.prisma.pushToken.deleteMany({
+      where: { userId, token },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Send to every device the user has registered, pruning tokens the
+   * provider reports as dead. Returns how many devices accepted it.
+   */
+  async sendToUser(userId: string, message: PushMessage): Promise<number> {
+    const tokens = await this.prisma.pushToken.findMany({
+      where: { userId },
+      select: { token: true },
+    });
+    if (tokens.length === 0) return 0;
+
+    const results = await this.provider.send(
+      tokens.map((t) => t.token),
+      message,
+    );
+
+    const deadTokens = results
+      .filter((r) => r.invalidToken)
+      .map((r) => r.token);
+    if (deadTokens.length > 0) {
+      await this.prisma.pushToken.deleteMany({
+        where: { token: { in: deadTokens } },
+      });
+      this.logger.log(
+        `Pruned ${deadTokens.length} dead ${this.provider.name} token(s) for user ${userId}`,
+      );
+    }
+
+    const failures = results.filter((r) => !r.ok && !r.invalidToken);
+    if (failures.length > 0) {
+      this.logger.warn(
+        `${failures.length} push(es) to user ${userId} failed: ${failures[0].error}`,
+      );
+    }
+
+    return results.filter((r) => r.ok).length;
+  }
+}
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReminderScheduler } from './reminder.scheduler';
+import { PushService } from './push.service';
+import { CheckInService } from '../check-in/check-in.service';
+import { PrismaService } from '../database/database.service';
+
+describe('ReminderScheduler', () => {
+  let scheduler: ReminderScheduler;
+  const prisma = {
+    user: { findMany: jest.fn(), updateMany: jest.fn() },
+  };
+  const checkInService = { hasCheckedInToday: jest.fn() };
+  const pushService = { sendToUser: jest.fn() };
+
+  // 14:30 in New York
+  const now = new Date('2026-03-16T18:30:00Z');
+  const user = {
+    id: 'user-1',
+    reminderTime: '14:00',
+    reminderTimezone: 'America/New_York',
+    lastReminderSentAt: null,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReminderScheduler,
+        { provide: PrismaService, useValue: prisma },
+        { provide: CheckInService, useValue: checkInService },
+        { provide: PushService, useValue: pushService },
+      ],
+    }).compile();
+
+    scheduler = module.get<ReminderScheduler>(ReminderScheduler);
+  });
+
+  describe('isDue', () => {
+    it('uses the reminder time in the user timezone', () => {
+      expect(scheduler.isDue(user, now)).toBe(true);
+      expect(scheduler.isDue({ ...user, reminderTime: '15:00' }, now)).toBe(
+        false,
+      );
+    });
+
+    it('skips reminders missed by more than the grace period', () => {
+      expect(scheduler.isDue({ ...user, reminderTime: '09:00' }, now)).toBe(
+        false,
+      );
+    });
+
+    it('sends at most once per local day', () => {
+      expect(
+        scheduler.isDue(
+          { ...user, lastReminderSentAt: new Date('2026-03-16T18:05:00Z') },
+          now,
+        ),
+      ).toBe(false);
+      expect(
+        scheduler.isDue(
+          { ...user, lastReminderSentAt: new Date('2026-03-15T18:05:00Z') },
+          now,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  it('reminds users who have not checked in', async () => {
+    prisma.user.findMany.mockResolvedValue([user]);
+    checkInService.hasCheckedInToday.mockResolvedValue(false);
+    prisma.user.updateMany.mockResolvedValue({ count: 1 });
+    pushService.sendToUser.mockResolvedValue(1);
+
+    expect(await scheduler.sendDueReminders(now)).toBe(1);
+    expect(checkInService.hasCheckedInToday).toHaveBeenCalledWith(
+      'user-1',
+      'America/New_York',
+    );
+    expect(pushService.sendToUser).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ data: { type: 'check-in-reminder' } }),
+    );
+  });
+
+  it('does not remind users who already checked in', async () => {
+    prisma.user.findMany.mockResolvedValue([user]);
+    checkInService.hasCheckedInToday.mockResolvedValue(true);
+
+    expect(await scheduler.sendDueReminders(now)).toBe(0);
+    expect(pushService.sendToUser).not.toHaveBeenCalled();
+  });
+
+  it('does not send when another instance claimed the reminder', async () => {
+    prisma.user.findMany.mockResolvedValue([user]);
+    checkInService.hasCheckedInToday.mockResolvedValue(false);
+    prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await scheduler.sendDueReminders(now)).toBe(0);
+    expect(pushService.sendToUser).not.toHaveBeenCalled();
+  });
+
+  it('keeps reminding other users when one of them fails', async () => {
+    prisma.user.findMany.mockResolvedValue([
+      { ...user, id: 'user-1' },
+      { ...user, id: 'user-2' },
+    ]);
+    checkInService.hasCheckedInToday
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce(false);
+    prisma.user.updateMany.mockResolvedValue({ count: 1 });
+    pushService.sendToUser.mockResolvedValue(1);
+
+    expect(await scheduler.sendDueReminders(now)).toBe(1);
+    const [[userId]] = pushService.sendToUser.mock.calls as [[string]];
+    expect(pushService.sendToUser).toHaveBeenCalledTimes(1);
+    expect(userId).toBe('user-2');
+  });
+});
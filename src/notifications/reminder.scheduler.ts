@@ -0,0 +1,172 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { PrismaService } from '../database/database.service';
+import { CheckInService } from '../check-in/check-in.service';
+import { PushService } from './push.service';
+
+// Users loaded per query while scanning for due reminders
+const REMINDER_BATCH_SIZE = 500;
+
+export interface ReminderCandidate {
+  id: string;
+  reminderTime: string | null;
+  reminderTimezone: string | null;
+  lastReminderSentAt: Date | null;
+}
+
+@Injectable()
+export class ReminderScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ReminderScheduler.name);
+  private readonly pollIntervalMs: number;
+  // Reminders missed for longer than this (e.g. during downtime) are skipped
+  private readonly graceMinutes: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly checkInService: CheckInService,
+    private readonly pushService: PushService,
+  ) {
+    this.pollIntervalMs =
+      Number(process.env.REMINDER_POLL_INTERVAL_MS) || 60000;
+    this.graceMinutes = Number(process.env.REMINDER_GRACE_MINUTES) || 180;
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => {
+      void this.sendDueReminders();
+    }, this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Push a reminder to everyone whose local reminder time has passed today
+   * and who hasn't checked in yet. Returns how many users were reminded.
+   */
+  async sendDueReminders(now = new Date()): Promise<number> {
+    // A slow run shouldn't overlap with the next tick
+    if (this.running) return 0;
+    this.running = true;
+
+    let sent = 0;
+    try {
+      let cursor: string | undefined;
+
+      while (true) {
+        const users: ReminderCandidate[] = await this.prisma.user.findMany({
+          where: {
+            reminderTime: { not: null },
+            deletionScheduledFor: null,
+            pushTokens: { some: {} },
+          },
+          select: {
+            id: true,
+            reminderTime: true,
+            reminderTimezone: true,
+            lastReminderSentAt: true,
+          },
+          orderBy: { id: 'asc' },
+          take: REMINDER_BATCH_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+
+        for (const user of users) {
+          // One bad timezone or push token shouldn't stop everyone else's reminder
+          try {
+            if (await this.remindUser(user, now)) sent++;
+          } catch (error) {
+            this.logger.error(
+              `Reminder failed for user ${user.id}: ${(error as Error).message}`,
+              (error as Error).stack,
+            );
+          }
+        }
+
+        if (users.length < REMINDER_BATCH_SIZE) break;
+        cursor = users[users.length - 1].id;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Reminder run failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    } finally {
+      this.running = false;
+    }
+
+    if (sent > 0) {
+      this.logger.log(`Sent ${sent} check-in reminder(s)`);
+    }
+    return sent;
+  }
+
+  isDue(user: ReminderCandidate, now: Date): boolean {
+    if (!user.reminderTime) return false;
+    const timezone = user.reminderTimezone ?? 'UTC';
+
+    const [hours, minutes] = user.reminderTime.split(':').map(Number);
+    const [nowHours, nowMinutes] = formatInTimeZone(now, timezone, 'HH:mm')
+      .split(':')
+      .map(Number);
+    const minutesLate = nowHours * 60 + nowMinutes - (hours * 60 + minutes);
+
+    if (minutesLate < 0 || minutesLate >= this.graceMinutes) return false;
+
+    // Already reminded on this local date
+    if (user.lastReminderSentAt) {
+      const today = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+      const lastSent = formatInTimeZone(
+        user.lastReminderSentAt,
+        timezone,
+        'yyyy-MM-dd',
+      );
+      if (today === lastSent) return false;
+    }
+
+    return true;
+  }
+
+  private async remindUser(
+    user: ReminderCandidate,
+    now: Date,
+  ): Promise<boolean> {
+    if (!this.isDue(user, now)) return false;
+
+    const timezone = user.reminderTimezone ?? 'UTC';
+    if (await this.checkInService.hasCheckedInToday(user.id, timezone)) {
+      return false;
+    }
+
+    // Claim the reminder first so another instance polling at the same
+    // time doesn't send a duplicate
+    const claimed = await this.prisma.user.updateMany({
+      where: { id: user.id, lastReminderSentAt: user.lastReminderSentAt },
+      data: { lastReminderSentAt: now },
+    });
+    if (claimed.count === 0) return false;
+
+    try {
+      const delivered = await this.pushService.sendToUser(user.id, {
+        title: 'Time to check in',
+        body: 'How are you feeling today? Take a minute to log your check-in.',
+        data: { type: 'check-in-reminder' },
+      });
+      return delivered > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to send reminder to user ${user.id}: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+}
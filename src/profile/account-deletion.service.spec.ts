@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { AccountDeletionService } from './account-deletion.service';
+import { PrismaService } from '../database/database.service';
+import { MediaService } from '../media/media.service';
+
+const deletable = [
+  'message',
+  'conversationSummary',
+  'conversation',
+  'checkInRevision',
+  'checkIn',
+  'goalStep',
+  'dailyGoal',
+  'habitPause',
+  'habitSkip',
+  'habit',
+  'goalRecommendationImpression',
+  'screenerResult',
+  'safetyEvent',
+  'tokenUsageDaily',
+  'dataExport',
+  'onboardingEvent',
+  'profileChange',
+  'pushToken',
+  'session',
+  'account',
+  'profile',
+] as const;
+
+describe('AccountDeletionService', () => {
+  let service: AccountDeletionService;
+  const prisma = {
+    ...(Object.fromEntries(
+      deletable.map((model) => [model, { deleteMany: jest.fn() }]),
+    ) as Record<(typeof deletable)[number], { deleteMany: jest.Mock }>),
+    user: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    accountDeletionAudit: { create: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const mediaService = {
+    getAvatarPrefix: jest.fn(),
+    deletePrefix: jest.fn(),
+    deletePrivateFile: jest.fn(),
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountDeletionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MediaService, useValue: mediaService },
+      ],
+    }).compile();
+
+    return module.get<AccountDeletionService>(AccountDeletionService);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma),
+    );
+    service = await createService();
+  });
+
+  describe('requestDeletion', () => {
+    const now = new Date('2026-06-01T12:00:00Z');
+
+    it('schedules deletion after the grace period', async () => {
+      prisma.user.findUnique.mockResolvedValue({ deletionScheduledFor: null });
+
+      const result = await service.requestDeletion('user-1', now);
+
+      expect(result).toEqual({
+        status: 'SCHEDULED',
+        scheduledFor: new Date('2026-06-08T12:00:00Z'),
+      });
+      expect(prisma.user.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('keeps the original deadline when asked again', async () => {
+      const scheduledFor = new Date('2026-06-05T12:00:00Z');
+      prisma.user.findUnique.mockResolvedValue({
+        deletionScheduledFor: scheduledFor,
+      });
+
+      const result = await service.requestDeletion('user-1', now);
+
+      expect(result).toEqual({ status: 'SCHEDULED', scheduledFor });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('deletes immediately when the grace period is disabled', async () => {
+      process.env.ACCOUNT_DELETION_GRACE_DAYS = '0';
+      service = await createService();
+      prisma.user.findUnique.mockResolvedValue({ dataExports: [] });
+
+      const result = await service.requestDeletion('user-1', now);
+
+      expect(result).toEqual({ status: 'DELETED' });
+      expect(prisma.user.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+      });
+    });
+  });
+
+  describe('cancelDeletion', () => {
+    it('rejects when nothing is scheduled', async () => {
+      prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.cancelDeletion('user-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('deleteAccount', () => {
+    it('removes every relation and writes a hashed audit record', async () => {
+      prisma.user.findUnique.mockResolvedValue({ dataExports: [] });
+
+      await service.deleteAccount('user-1');
+
+      for (const model of deletable) {
+        expect(prisma[model].deleteMany).toHaveBeenCalled();
+      }
+      expect(prisma.accountDeletionAudit.create).toHaveBeenCalledWith({
+        data: { userIdHash: service.hashUserId('user-1') },
+      });
+      expect(service.hashUserId('user-1')).not.toContain('user-1');
+    });
+
+    it('deletes the user’s avatar folder and export files', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        dataExports: [
+          { fileKey: 'private-exports/user-1/x.zip' },
+          { fileKey: null },
+        ],
+      });
+      mediaService.getAvatarPrefix.mockReturnValue('user-avatars/user-1/');
+
+      await service.deleteAccount('user-1');
+
+      expect(mediaService.getAvatarPrefix).toHaveBeenCalledWith('user-1');
+      expect(mediaService.deletePrefix.mock.calls).toEqual([
+        ['user-avatars/user-1/'],
+      ]);
+      expect(mediaService.deletePrivateFile.mock.calls).toEqual([
+        ['private-exports/user-1/x.zip'],
+      ]);
+    });
+
+    it('still completes when file cleanup fails', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        dataExports: [{ fileKey: 'private-exports/user-1/x.zip' }],
+      });
+      mediaService.deletePrefix.mockRejectedValue(new Error('R2 down'));
+      mediaService.deletePrivateFile.mockRejectedValue(new Error('R2 down'));
+
+      await expect(service.deleteAccount('user-1')).resolves.toEqual({
+        success: true,
+      });
+      expect(mediaService.deletePrivateFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves storage untouched when the transaction fails', async () => {
+      prisma.user.findUnique.mockResolvedValue({ dataExports: [] });
+      prisma.$transaction.mockRejectedValue(new Error('deadlock'));
+
+      await expect(service.deleteAccount('user-1')).rejects.toThrow('deadlock');
+      expect(mediaService.deletePrefix).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeDueAccounts', () => {
+    it('deletes accounts whose grace period has ended', async () => {
+      prisma.user.findMany.mockResolvedValue([
+        { id: 'user-1' },
+        { id: 'user-2' },
+      ]);
+      prisma.user.findUnique.mockResolvedValue({ dataExports: [] });
+
+      const purged = await service.purgeDueAccounts(new Date());
+
+      expect(purged).toBe(2);
+      expect(prisma.accountDeletionAudit.create).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from '../database/database.service';
+import { MediaService } from '../media/media.service';
+
+// Accounts purged per query by the background sweep
+const PURGE_BATCH_SIZE = 100;
+
+export type DeletionRequestResult =
+  | { status: 'SCHEDULED'; scheduledFor: Date }
+  | { status: 'DELETED' };
+
+@Injectable()
+export class AccountDeletionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AccountDeletionService.name);
+  // 0 deletes immediately with no undo
+  private readonly graceDays: number;
+  private readonly sweepIntervalMs: number;
+  private readonly auditSalt: string;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly db: PrismaService,
+    private readonly mediaService: MediaService,
+  ) {
+    this.graceDays = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS ?? 7);
+    this.sweepIntervalMs =
+      Number(process.env.ACCOUNT_DELETION_SWEEP_INTERVAL_MS) || 60 * 60 * 1000;
+    this.auditSalt = process.env.ACCOUNT_DELETION_AUDIT_SALT ?? '';
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => {
+      void this.purgeDueAccounts();
+    }, this.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Schedule the account for deletion after the grace period, or delete it
+   * right away when no grace period is configured.
+   */
+  async requestDeletion(
+    userId: string,
+    now = new Date(),
+  ): Promise<DeletionRequestResult> {
+    if (this.graceDays <= 0) {
+      await this.deleteAccount(userId);
+      return { status: 'DELETED' };
+    }
+
+    const user = await this.db.user.findUnique({
+      where: { id: userId },
+      select: { deletionScheduledFor: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Asking twice doesn't push the deadline back
+    if (user.deletionScheduledFor) {
+      return { status: 'SCHEDULED', scheduledFor: user.deletionScheduledFor };
+    }
+
+    const scheduledFor = new Date(
+      now.getTime() + this.graceDays * 24 * 60 * 60 * 1000,
+    );
+    await this.db.user.update({
+      where: { id: userId },
+      data: { deletionScheduledFor: scheduledFor },
+    });
+
+    this.logger.log(`Account ${userId} scheduled for deletion`);
+    return { status: 'SCHEDULED', scheduledFor };
+  }
+
+  /**
+   * Undo a pending deletion while still inside the grace period
+   */
+  async cancelDeletion(userId: string) {
+    const { count } = await this.db.user.updateMany({
+      where: { id: userId, deletionScheduledFor: { not: null } },
+      data: { deletionScheduledFor: null },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('No account deletion is scheduled');
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Hard-delete every account whose grace period has run out
+   */
+  async purgeDueAccounts(now = new Date()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    let purged = 0;
+    try {
+      while (true) {
+        const due = await this.db.user.findMany({
+          where: { deletionScheduledFor: { lte: now } },
+          select: { id: true },
+          take: PURGE_BATCH_SIZE,
+        });
+
+        let batchPurged = 0;
+        for (const { id } of due) {
+          try {
+            await this.deleteAccount(id);
+            batchPurged++;
+          } catch (error) {
+            this.logger.error(
+              `Failed to purge account ${id}: ${(error as Error).message}`,
+            );
+          }
+        }
+
+        purged += batchPurged;
+        // Stop if a full batch keeps failing rather than spinning on it
+        if (due.length < PURGE_BATCH_SIZE || batchPurged === 0) break;
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return purged;
+  }
+
+  /**
+   * Remove the user and everything they own in one transaction, record the
+   * audit entry, then clean up their files in storage.
+   */
+  async deleteAccount(userId: string) {
+    const user = await this.db.user.findUnique({
+      where: { id: userId },
+      select: { dataExports: { select: { fileKey: true } } },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.db.$transaction(async (tx) => {
+      await tx.message.deleteMany({ where: { conversation: { userId } } });
+      await tx.conversationSummary.deleteMany({
+        where: { conversation: { userId } },
+      });
+      await tx.conversation.deleteMany({ where: { userId } });
+      await tx.checkInRevision.deleteMany({ where: { checkIn: { userId } } });
+      await tx.checkIn.deleteMany({ where: { userId } });
+      await tx.goalStep.deleteMany({ where: { goal: { userId } } });
+      await tx.dailyGoal.deleteMany({ where: { userId } });
+      await tx.habitPause.deleteMany({ where: { habit: { userId } } });
+      await tx.habitSkip.deleteMany({ where: { habit: { userId } } });
+      await tx.habit.deleteMany({ where: { userId } });
+      await tx.goalRecommendationImpression.deleteMany({ where: { userId } });
+      await tx.screenerResult.deleteMany({ where: { userId } });
+      await tx.safetyEvent.deleteMany({ where: { userId } });
+      await tx.tokenUsageDaily.deleteMany({ where: { userId } });
+      await tx.dataExport.deleteMany({ where: { userId } });
+      await tx.onboardingEvent.deleteMany({ where: { userId } });
+      await tx.profileChange.deleteMany({ where: { userId } });
+      await tx.pushToken.deleteMany({ where: { userId } });
+      await tx.session.deleteMany({ where: { userId } });
+      await tx.account.deleteMany({ where: { userId } });
+      await tx.profile.deleteMany({ where: { userId } });
+      await tx.user.deleteMany({ where: { id: userId } });
+
+      await tx.accountDeletionAudit.create({
+        data: { userIdHash: this.hashUserId(userId) },
+      });
+    });
+
+    // Storage isn't transactional; do it only once the rows are gone
+    const results = await Promise.allSettled([
+      // Every avatar they ever uploaded, and nothing outside their own folder
+      this.mediaService.deletePrefix(this.mediaService.getAvatarPrefix(userId)),
+      // Export archives live in the private bucket
+      ...user.dataExports.flatMap(({ fileKey }) =>
+        fileKey ? [this.mediaService.deletePrivateFile(fileKey)] : [],
+      ),
+    ]);
+    const failed = results.filter((r) => r.status === 'rejected').length;
+    if (failed > 0) {
+      this.logger.warn(
+        `Account ${userId} deleted but ${failed} file(s) could not be removed`,
+      );
+    }
+
+    this.logger.log(`Account ${userId} deleted`);
+    return { success: true };
+  }
+
+  /**
+   * Stable one-way id for the audit log, so a deletion can be confirmed
+   * for a known user id without storing it
+   */
+  hashUserId(userId: string): string {
+    return createHash('sha256')
+      .update(`${this.auditSalt}${userId}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,293 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import JSZip from 'jszip';
+import { DataExportService } from './data-export.service';
+import { PrismaService } from '../database/database.service';
+import { MediaService } from '../media/media.service';
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+  const prisma = {
+    dataExport: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    user: { findUnique: jest.fn() },
+    checkIn: { findMany: jest.fn() },
+    dailyGoal: { findMany: jest.fn() },
+    habit: { findMany: jest.fn() },
+    goalRecommendationImpression: { findMany: jest.fn() },
+    screenerResult: { findMany: jest.fn() },
+    conversation: { findMany: jest.fn() },
+    profileChange: { findMany: jest.fn() },
+  };
+  const mediaService = {
+    generateExportKey: jest.fn(),
+    uploadPrivateFile: jest.fn(),
+    getSignedDownloadUrl: jest.fn(),
+    deletePrivateFile: jest.fn(),
+  };
+
+  const pendingExport = {
+    id: 'exp-1',
+    userId: 'user-1',
+    status: 'PENDING',
+    fileKey: null,
+    sizeBytes: null,
+    error: null,
+    createdAt: new Date('2026-06-01T10:00:00Z'),
+    completedAt: null,
+  };
+
+  const seedUserData = () => {
+    prisma.user.findUnique.mockResolvedValue({
+      id: 'user-1',
+      name: 'Sam',
+      email: 'sam@example.com',
+      completedOnboarding: true,
+      onboardingStep: 5,
+      profile: { struggles: ['sleep'], inTherapy: true, therapyDetails: null },
+    });
+    prisma.checkIn.findMany.mockResolvedValue([
+      {
+        date: new Date('2026-05-30T00:00:00Z'),
+        overallMood: 4,
+        completed: true,
+        backfilled: false,
+        templateId: 'tpl-1',
+        steps: [
+          { step: 1, mood: 4, notes: 'slept "well", mostly' },
+          { step: 2, mood: 3, notes: '=HYPERLINK("http://evil")' },
+        ],
+        createdAt: new Date('2026-05-30T08:00:00Z'),
+        editedAt: null,
+        revisions: [],
+      },
+    ]);
+    prisma.dailyGoal.findMany.mockResolvedValue([
+      {
+        goal: 'Walk',
+        notes: null,
+        date: new Date('2026-05-30T00:00:00Z'),
+        rolloverOutcome: null,
+        completed: true,
+        completedAt: new Date('2026-05-30T18:00:00Z'),
+        createdAt: new Date('2026-05-30T07:00:00Z'),
+        steps: [{ completed: true }, { completed: false }],
+      },
+    ]);
+    prisma.screenerResult.findMany.mockResolvedValue([]);
+    prisma.habit.findMany.mockResolvedValue([]);
+    prisma.goalRecommendationImpression.findMany.mockResolvedValue([]);
+    prisma.profileChange.findMany.mockResolvedValue([]);
+    prisma.conversation.findMany.mockResolvedValue([
+      {
+        id: 'conv-1',
+        title: 'Evening',
+        messages: [{ role: 'USER', content: 'Hi' }],
+      },
+    ]);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.dataExport.updateMany.mockResolvedValue({ count: 0 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MediaService, useValue: mediaService },
+      ],
+    }).compile();
+
+    service = module.get<DataExportService>(DataExportService);
+  });
+
+  describe('requestExport', () => {
+    it('returns the in-flight export instead of starting another', async () => {
+      prisma.dataExport.findFirst.mockResolvedValue(pendingExport);
+
+      const result = await service.requestExport('user-1');
+
+      expect(result.id).toBe('exp-1');
+      expect(prisma.dataExport.create).not.toHaveBeenCalled();
+    });
+
+    it('queues a new export in the background', async () => {
+      prisma.dataExport.findFirst.mockResolvedValue(null);
+      prisma.dataExport.create.mockResolvedValue(pendingExport);
+      const process = jest
+        .spyOn(service, 'processExport')
+        .mockResolvedValue(undefined);
+
+      const result = await service.requestExport('user-1');
+      expect(result.status).toBe('PENDING');
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(process).toHaveBeenCalledWith('exp-1', 'user-1');
+    });
+  });
+
+  describe('processExport', () => {
+    it('uploads the archive privately and marks the export ready', async () => {
+      seedUserData();
+      mediaService.generateExportKey.mockReturnValue('private-exports/u/x.zip');
+
+      await service.processExport('exp-1', 'user-1');
+
+      const [, buffer, contentType] = mediaService.uploadPrivateFile.mock
+        .calls[0] as [string, Buffer, string];
+      expect(contentType).toBe('application/zip');
+      const [{ data }] = prisma.dataExport.update.mock.calls.at(-1) as [
+        { data: Record<string, unknown> },
+      ];
+      expect(data).toMatchObject({
+        status: 'READY',
+        fileKey: 'private-exports/u/x.zip',
+        sizeBytes: buffer.length,
+      });
+    });
+
+    it('records the failure when the archive cannot be built', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+      prisma.dataExport.update.mockResolvedValue({});
+
+      await service.processExport('exp-1', 'user-1');
+
+      expect(mediaService.uploadPrivateFile).not.toHaveBeenCalled();
+      const [{ data }] = prisma.dataExport.update.mock.calls.at(-1) as [
+        { data: Record<string, unknown> },
+      ];
+      expect(data.status).toBe('FAILED');
+    });
+  });
+
+  describe('buildArchive', () => {
+    it('includes JSON plus check-in and goal CSVs', async () => {
+      seedUserData();
+
+      const zip = await JSZip.loadAsync(await service.buildArchive('user-1'));
+
+      const data = JSON.parse(await zip.file('data.json')!.async('string')) as {
+        onboarding: { struggles: string[] };
+        conversations: { messages: unknown[] }[];
+      };
+      expect(data.onboarding.struggles).toEqual(['sleep']);
+      expect(data.conversations[0].messages).toHaveLength(1);
+
+      const checkIns = (await zip.file('check-ins.csv')!.async('string')).split(
+        '\r\n',
+      );
+      expect(checkIns[0]).toBe(
+        'date,overallMood,completed,backfilled,questionnaire,step1,step1Notes,step2,step2Notes,createdAt,editedAt',
+      );
+      expect(checkIns[1]).toContain('"slept ""well"", mostly"');
+      expect(checkIns[1]).toContain(`"'=HYPERLINK(""http://evil"")"`);
+
+      const goals = await zip.file('goals.csv')!.async('string');
+      expect(goals).toContain(
+        '2026-05-30T00:00:00.000Z,Walk,,true,2026-05-30T18:00:00.000Z,1,2,,',
+      );
+    });
+  });
+
+  describe('getExport', () => {
+    it('throws when the export belongs to someone else', async () => {
+      prisma.dataExport.findFirst.mockResolvedValue(null);
+
+      await expect(service.getExport('user-2', 'exp-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('signs a download link once the export is ready', async () => {
+      prisma.dataExport.findFirst.mockResolvedValue({
+        ...pendingExport,
+        status: 'READY',
+        fileKey: 'private-exports/u/x.zip',
+        completedAt: new Date(),
+      });
+      mediaService.getSignedDownloadUrl.mockResolvedValue('https://signed');
+
+      const result = await service.getExport('user-1', 'exp-1');
+
+      expect(result).toMatchObject({ downloadUrl: 'https://signed' });
+      expect(mediaService.getSignedDownloadUrl).toHaveBeenCalledWith(
+        'private-exports/u/x.zip',
+        900,
+        'export-2026-06-01.zip',
+      );
+    });
+
+    it('does not sign links for archives past retention', async () => {
+      prisma.dataExport.findFirst.mockResolvedValue({
+        ...pendingExport,
+        status: 'READY',
+        fileKey: 'private-exports/u/x.zip',
+        completedAt: new Date(Date.now() - 25 * 60 * 60 * 1000),
+      });
+
+      const result = await service.getExport('user-1', 'exp-1');
+
+      expect(result.status).toBe('EXPIRED');
+      expect(mediaService.getSignedDownloadUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireExports', () => {
+    it('deletes old archives and marks their exports expired', async () => {
+      const now = new Date('2026-06-02T12:00:00Z');
+      prisma.dataExport.findMany.mockResolvedValue([
+        { id: 'exp-1', fileKey: 'private-exports/u/x.zip' },
+      ]);
+
+      expect(await service.expireExports(now)).toBe(1);
+
+      const [[{ where }]] = prisma.dataExport.findMany.mock.calls as [
+        [{ where: { completedAt: { lt: Date } } }],
+      ];
+      expect(where.completedAt.lt).toEqual(new Date('2026-06-01T12:00:00Z'));
+      expect(mediaService.deletePrivateFile).toHaveBeenCalledWith(
+        'private-exports/u/x.zip',
+      );
+      expect(prisma.dataExport.update).toHaveBeenCalledWith({
+        where: { id: 'exp-1' },
+        data: { status: 'EXPIRED', fileKey: null },
+      });
+    });
+
+    it('fails exports stuck in progress past the timeout', async () => {
+      const now = new Date('2026-06-02T12:00:00Z');
+      prisma.dataExport.findMany.mockResolvedValue([]);
+      prisma.dataExport.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.expireExports(now);
+
+      expect(prisma.dataExport.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: { in: ['PENDING', 'PROCESSING'] },
+          createdAt: { lt: new Date('2026-06-02T11:30:00Z') },
+        },
+        data: {
+          status: 'FAILED',
+          error: 'Export did not finish in time',
+          completedAt: now,
+        },
+      });
+    });
+
+    it('keeps the row when the archive could not be deleted', async () => {
+      prisma.dataExport.findMany.mockResolvedValue([
+        { id: 'exp-1', fileKey: 'private-exports/u/x.zip' },
+      ]);
+      mediaService.deletePrivateFile.mockRejectedValue(new Error('R2 down'));
+
+      expect(await service.expireExports()).toBe(0);
+      expect(prisma.dataExport.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,469 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import JSZip from 'jszip';
+import { PrismaService } from '../database/database.service';
+import { MediaService } from '../media/media.service';
+
+// Exports stuck in progress longer than this (e.g. after a restart) are
+// marked failed by the sweep, and the user can request a new one
+const STALE_EXPORT_MS = 30 * 60 * 1000;
+// Expired archives deleted per query by the background sweep
+const EXPIRY_BATCH_SIZE = 100;
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+@Injectable()
+export class DataExportService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DataExportService.name);
+  private readonly downloadTtlSeconds: number;
+  // How long a finished archive is kept before it is deleted from storage
+  private readonly retentionMs: number;
+  private readonly sweepIntervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly db: PrismaService,
+    private readonly mediaService: MediaService,
+  ) {
+    this.downloadTtlSeconds =
+      Number(process.env.DATA_EXPORT_DOWNLOAD_TTL_SECONDS) || 15 * 60;
+    this.retentionMs =
+      (Number(process.env.DATA_EXPORT_RETENTION_HOURS) || 24) * 60 * 60 * 1000;
+    this.sweepIntervalMs =
+      Number(process.env.DATA_EXPORT_SWEEP_INTERVAL_MS) || 60 * 60 * 1000;
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => {
+      void this.expireExports();
+    }, this.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Queue an export of everything we hold for the user. The archive is
+   * built in the background; poll getExport for the download link.
+   */
+  async requestExport(userId: string) {
+    const inProgress = await this.db.dataExport.findFirst({
+      where: {
+        userId,
+        status: { in: ['PENDING', 'PROCESSING'] },
+        createdAt: { gt: new Date(Date.now() - STALE_EXPORT_MS) },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (inProgress) {
+      return this.toResponse(inProgress);
+    }
+
+    const dataExport = await this.db.dataExport.create({
+      data: { userId },
+    });
+
+    setImmediate(() => {
+      void this.processExport(dataExport.id, userId);
+    });
+
+    return this.toResponse(dataExport);
+  }
+
+  /**
+   * Export status, with a fresh time-limited link once it's ready
+   */
+  async getExport(userId: string, exportId: string) {
+    const dataExport = await this.db.dataExport.findFirst({
+      where: { id: exportId, userId },
+    });
+
+    if (!dataExport) {
+      throw new NotFoundException('Export not found');
+    }
+
+    const response = this.toResponse(dataExport);
+    if (dataExport.status !== 'READY' || !dataExport.fileKey) {
+      return response;
+    }
+
+    // The sweep may not have caught up yet - don't hand out a link regardless
+    if (this.isPastRetention(dataExport.completedAt, new Date())) {
+      return { ...response, status: 'EXPIRED' };
+    }
+
+    const downloadUrl = await this.mediaService.getSignedDownloadUrl(
+      dataExport.fileKey,
+      this.downloadTtlSeconds,
+      `export-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`,
+    );
+
+    return {
+      ...response,
+      downloadUrl,
+      downloadExpiresAt: new Date(Date.now() + this.downloadTtlSeconds * 1000),
+    };
+  }
+
+  async processExport(exportId: string, userId: string) {
+    try {
+      await this.db.dataExport.update({
+        where: { id: exportId },
+        data: { status: 'PROCESSING' },
+      });
+
+      const archive = await this.buildArchive(userId);
+      const key = this.mediaService.generateExportKey(userId);
+      await this.mediaService.uploadPrivateFile(
+        key,
+        archive,
+        'application/zip',
+      );
+
+      await this.db.dataExport.update({
+        where: { id: exportId },
+        data: {
+          status: 'READY',
+          fileKey: key,
+          sizeBytes: archive.length,
+          completedAt: new Date(),
+        },
+      });
+
+      this.logger.log(`Data export ${exportId} ready for user ${userId}`);
+    } catch (error) {
+      this.logger.error(
+        `Data export ${exportId} failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+
+      await this.db.dataExport
+        .update({
+          where: { id: exportId },
+          data: {
+            status: 'FAILED',
+            error: (error as Error).message.substring(0, 500),
+            completedAt: new Date(),
+          },
+        })
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * Delete archives older than the retention period from storage and mark
+   * their exports expired, and fail exports that died mid-run. Returns how
+   * many were expired.
+   */
+  async expireExports(now = new Date()): Promise<number> {
+    // A slow run shouldn't overlap with the next tick
+    if (this.running) return 0;
+    this.running = true;
+
+    let expired = 0;
+    try {
+      const stale = await this.db.dataExport.updateMany({
+        where: {
+          status: { in: ['PENDING', 'PROCESSING'] },
+          createdAt: { lt: new Date(now.getTime() - STALE_EXPORT_MS) },
+        },
+        data: {
+          status: 'FAILED',
+          error: 'Export did not finish in time',
+          completedAt: now,
+        },
+      });
+      if (stale.count > 0) {
+        this.logger.warn(`Marked ${stale.count} stuck data export(s) failed`);
+      }
+
+      while (true) {
+        const due = await this.db.dataExport.findMany({
+          where: {
+            status: 'READY',
+            completedAt: { lt: new Date(now.getTime() - this.retentionMs) },
+          },
+          select: { id: true, fileKey: true },
+          orderBy: { completedAt: 'asc' },
+          take: EXPIRY_BATCH_SIZE,
+        });
+
+        const before = expired;
+        for (const dataExport of due) {
+          try {
+            if (dataExport.fileKey) {
+              await this.mediaService.deletePrivateFile(dataExport.fileKey);
+            }
+            await this.db.dataExport.update({
+              where: { id: dataExport.id },
+              data: { status: 'EXPIRED', fileKey: null },
+            });
+            expired++;
+          } catch (error) {
+            this.logger.error(
+              `Failed to expire data export ${dataExport.id}: ${(error as Error).message}`,
+            );
+          }
+        }
+
+        // Stop on a short batch, or when nothing in it could be expired
+        if (due.length < EXPIRY_BATCH_SIZE || expired === before) break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Data export expiry failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    } finally {
+      this.running = false;
+    }
+
+    if (expired > 0) {
+      this.logger.log(`Expired ${expired} data export(s)`);
+    }
+    return expired;
+  }
+
+  /**
+   * data.json with everything, plus spreadsheet-friendly CSVs
+   */
+  async buildArchive(userId: string): Promise<Buffer> {
+    const data = await this.collectUserData(userId);
+
+    const stepNumbers = [
+      ...new Set(
+        data.checkIns.flatMap((checkIn) => checkIn.steps.map((s) => s.step)),
+      ),
+    ].sort((a, b) => a - b);
+
+    const checkInsCsv = this.toCsv(
+      [
+        'date',
+        'overallMood',
+        'completed',
+        'backfilled',
+        'questionnaire',
+        ...stepNumbers.flatMap((n) => [`step${n}`, `step${n}Notes`]),
+        'createdAt',
+        'editedAt',
+      ],
+      data.checkIns.map((checkIn) => {
+        const byStep = new Map(checkIn.steps.map((s) => [s.step, s]));
+        return [
+          checkIn.date,
+          checkIn.overallMood,
+          checkIn.completed,
+          checkIn.backfilled,
+          checkIn.templateId,
+          ...stepNumbers.flatMap((n) => [
+            byStep.get(n)?.mood,
+            byStep.get(n)?.notes,
+          ]),
+          checkIn.createdAt,
+          checkIn.editedAt,
+        ];
+      }),
+    );
+
+    const goalsCsv = this.toCsv(
+      [
+        'date',
+        'goal',
+        'notes',
+        'completed',
+        'completedAt',
+        'stepsDone',
+        'stepsTotal',
+        'rollover',
+        'createdAt',
+      ],
+      data.goals.map((goal) => [
+        goal.date,
+        goal.goal,
+        goal.notes,
+        goal.completed,
+        goal.completedAt,
+        goal.steps.filter((step) => step.completed).length,
+        goal.steps.length,
+        goal.rolloverOutcome,
+        goal.createdAt,
+      ]),
+    );
+
+    const zip = new JSZip();
+    zip.file('data.json', JSON.stringify(data, null, 2));
+    zip.file('check-ins.csv', checkInsCsv);
+    zip.file('goals.csv', goalsCsv);
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  private async collectUserData(userId: string) {
+    const user = await this.db.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        username: true,
+        image: true,
+        createdAt: true,
+        planTier: true,
+        reminderTime: true,
+        reminderTimezone: true,
+        completedOnboarding: true,
+        onboardingStep: true,
+        profile: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const [
+      checkIns,
+      goals,
+      habits,
+      goalRecommendations,
+      screeners,
+      conversations,
+      profileChanges,
+    ] = await Promise.all([
+      this.db.checkIn.findMany({
+        where: { userId },
+        orderBy: { date: 'asc' },
+        include: { revisions: { orderBy: { createdAt: 'asc' } } },
+      }),
+      this.db.dailyGoal.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        include: { steps: { orderBy: { position: 'asc' } } },
+      }),
+      this.db.habit.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          pauses: {
+            orderBy: { startDay: 'asc' },
+            select: { startDay: true, endDay: true },
+          },
+          skips: { orderBy: { date: 'asc' }, select: { date: true } },
+        },
+      }),
+      this.db.goalRecommendationImpression.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        select: { recommendationId: true, day: true, acceptedAt: true },
+      }),
+      this.db.screenerResult.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.db.conversation.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          title: true,
+          createdAt: true,
+          archivedAt: true,
+          messages: {
+            orderBy: { createdAt: 'asc' },
+            select: { role: true, content: true, createdAt: true },
+          },
+        },
+      }),
+      this.db.profileChange.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          field: true,
+          oldValue: true,
+          newValue: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+
+    const { profile, completedOnboarding, onboardingStep, ...account } = user;
+
+    return {
+      exportedAt: new Date(),
+      account,
+      profile,
+      profileChanges,
+      onboarding: {
+        completedOnboarding,
+        onboardingStep,
+        struggles: profile?.struggles ?? [],
+        importantDate: profile?.struggleTimestamp ?? null,
+        importantDateNotes: profile?.struggleNotes ?? null,
+        inTherapy: profile?.inTherapy ?? false,
+        therapyDetails: profile?.therapyDetails ?? null,
+      },
+      checkIns: checkIns.map((checkIn) => ({
+        ...checkIn,
+        steps: checkIn.steps as unknown as {
+          step: number;
+          mood: number;
+          notes?: string;
+        }[],
+      })),
+      goals,
+      habits,
+      goalRecommendations,
+      screeners,
+      conversations,
+    };
+  }
+
+  private isPastRetention(completedAt: Date | null, now: Date): boolean {
+    return (
+      completedAt !== null &&
+      now.getTime() - completedAt.getTime() > this.retentionMs
+    );
+  }
+
+  private toCsv(header: string[], rows: CsvValue[][]): string {
+    const escape = (value: CsvValue) => {
+      if (value === null || value === undefined) return '';
+      let text = value instanceof Date ? value.toISOString() : String(value);
+      // Spreadsheets run cells starting with these as formulas
+      if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [header, ...rows]
+      .map((row) => row.map(escape).join(','))
+      .join('\r\n');
+  }
+
+  private toResponse(dataExport: {
+    id: string;
+    status: string;
+    createdAt: Date;
+    completedAt: Date | null;
+    sizeBytes: number | null;
+    error: string | null;
+  }) {
+    return {
+      id: dataExport.id,
+      status: dataExport.status,
+      createdAt: dataExport.createdAt,
+      completedAt: dataExport.completedAt,
+      sizeBytes: dataExport.sizeBytes,
+      error: dataExport.error,
+    };
+  }
+}
@@ -1,11 +1,14 @@
 export class OnboardingStepResponse {
   success: boolean;
   currentStep: number;
+  currentStepId: string;
 }
 
 export class OnboardingStatusResponse {
   completedOnboarding: boolean;
   currentStep: number;
+  currentStepId: string;
+  flowVersion: number;
   profile?: {
     struggles?: string[];
     struggleTimestamp: Date | null;
@@ -14,3 +17,24 @@ export class OnboardingStatusResponse {
     therapyDetails: string | null;
   };
 }
+
+export class OnboardingFlowResponse {
+  version: number;
+  steps: {
+    index: number;
+    id: string;
+    skippable: boolean;
+    fields: string[];
+  }[];
+}
+
+export class OnboardingFunnelResponse {
+  version: number;
+  completed: number;
+  steps: {
+    id: string;
+    reached: number;
+    skipped: number;
+    droppedOff: number; // Got this far and no further
+  }[];
+}
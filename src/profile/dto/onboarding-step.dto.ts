@@ -5,28 +5,29 @@ import {
   IsBoolean,
   IsOptional,
   IsDateString,
-  IsInt,
-  Min,
-  Max,
+  IsNotEmpty,
+  ArrayMaxSize,
+  MaxLength,
+  Equals,
 } from 'class-validator';
 
-export class OnboardingStepParamDto {
-  @IsInt()
-  @Min(0)
-  @Max(5)
-  step: number;
-}
+// Upper bound on the struggles a user can pick, shared with profile updates
+export const MAX_STRUGGLES = 20;
 
 // Step 0: Name
 export class OnboardingStep0Dto {
   @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
   name: string;
 }
 
 // Step 1: Struggles
 export class OnboardingStep1Dto {
   @IsArray()
+  @ArrayMaxSize(MAX_STRUGGLES)
   @IsString({ each: true })
+  @MaxLength(100, { each: true })
   struggles: string[];
 }
 
@@ -38,6 +39,7 @@ export class OnboardingStep2Dto {
 
   @IsOptional()
   @IsString()
+  @MaxLength(2000)
   importantDateText?: string;
 }
 
@@ -48,12 +50,14 @@ export class OnboardingStep3Dto {
 
   @IsOptional()
   @IsString()
+  @MaxLength(2000)
   therapyDetails?: string; // Will contain duration if yes, or why not if no
 }
 
 // Step 4: Paywall (handled on frontend, just confirms completion)
 export class OnboardingStep4Dto {
   @IsBoolean()
+  @Equals(true, { message: 'Paywall step must be completed' })
   paywallCompleted: boolean;
 }
 
@@ -0,0 +1,71 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { MAX_STRUGGLES } from './onboarding-step.dto';
+
+// Leave a field out to keep it; send null to clear it. Fields that can't be
+// empty use ValidateIf so null is rejected rather than ignored.
+const isPresent = (_: object, value: unknown) => value !== undefined;
+
+export class UpdateProfileFieldsDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  bio?: string | null;
+
+  // Clear with []
+  @ValidateIf(isPresent)
+  @IsArray()
+  @ArrayMaxSize(MAX_STRUGGLES)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  struggles?: string[];
+
+  @IsOptional()
+  @IsDateString()
+  struggleTimestamp?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  struggleNotes?: string | null;
+
+  @ValidateIf(isPresent)
+  @IsBoolean()
+  inTherapy?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  therapyDetails?: string | null;
+}
+
+export class UpdateProfileDto {
+  @ValidateIf(isPresent)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsUrl()
+  image?: string | null;
+
+  @ValidateIf(isPresent)
+  @IsObject()
+  @ValidateNested()
+  @Type(() => UpdateProfileFieldsDto)
+  profile?: UpdateProfileFieldsDto;
+}
@@ -0,0 +1,118 @@
+import { ClassConstructor } from 'class-transformer';
+import {
+  OnboardingStep0Dto,
+  OnboardingStep1Dto,
+  OnboardingStep2Dto,
+  OnboardingStep3Dto,
+  OnboardingStep4Dto,
+  OnboardingStep5Dto,
+} from './dto/onboarding-step.dto';
+
+export interface OnboardingField {
+  name: string; // Property on the step DTO
+  // Where the value is stored; omitted for confirmation-only fields
+  target?: {
+    model: 'user' | 'profile';
+    column: string;
+    transform?: (value: unknown) => unknown;
+  };
+}
+
+export interface OnboardingStepDefinition {
+  id: string;
+  dto: ClassConstructor<object>;
+  fields: OnboardingField[];
+  skippable: boolean;
+}
+
+export interface OnboardingFlow {
+  version: number;
+  steps: OnboardingStepDefinition[];
+}
+
+/**
+ * The onboarding flow. Bump the version when steps are added, removed or
+ * reordered, add the old step ids to PREVIOUS_ONBOARDING_FLOWS, and move the
+ * user.onboardingVersion column default to the new version in a migration.
+ */
+export const ONBOARDING_FLOW: OnboardingFlow = {
+  version: 2,
+  steps: [
+    {
+      id: 'name',
+      dto: OnboardingStep0Dto,
+      skippable: false,
+      fields: [{ name: 'name', target: { model: 'user', column: 'name' } }],
+    },
+    {
+      id: 'struggles',
+      dto: OnboardingStep1Dto,
+      skippable: false,
+      fields: [
+        {
+          name: 'struggles',
+          target: { model: 'profile', column: 'struggles' },
+        },
+      ],
+    },
+    {
+      id: 'important-date',
+      dto: OnboardingStep2Dto,
+      skippable: true,
+      fields: [
+        {
+          name: 'importantDate',
+          target: {
+            model: 'profile',
+            column: 'struggleTimestamp',
+            transform: (value) => new Date(value as string),
+          },
+        },
+        {
+          name: 'importantDateText',
+          target: { model: 'profile', column: 'struggleNotes' },
+        },
+      ],
+    },
+    {
+      id: 'therapy',
+      dto: OnboardingStep3Dto,
+      skippable: false,
+      fields: [
+        {
+          name: 'inTherapy',
+          target: { model: 'profile', column: 'inTherapy' },
+        },
+        {
+          name: 'therapyDetails',
+          target: { model: 'profile', column: 'therapyDetails' },
+        },
+      ],
+    },
+    {
+      // Purchase happens in the app; the server only records that it was seen
+      id: 'paywall',
+      dto: OnboardingStep4Dto,
+      skippable: false,
+      fields: [{ name: 'paywallCompleted' }],
+    },
+    {
+      id: 'biometric',
+      dto: OnboardingStep5Dto,
+      skippable: true,
+      fields: [
+        {
+          name: 'biometricEnabled',
+          target: { model: 'user', column: 'localSecurityEnabled' },
+        },
+      ],
+    },
+  ],
+};
+
+// Step ids of earlier flow versions, for moving users who were part-way through
+export const PREVIOUS_ONBOARDING_FLOWS: Record<number, string[]> = {
+  1: ['name', 'struggles', 'important-date', 'therapy', 'paywall'],
+};
+
+export const LAST_ONBOARDING_STEP = ONBOARDING_FLOW.steps.length - 1;
@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { OnboardingService } from './onboarding.service';
+import { PrismaService } from '../database/database.service';
+import { LAST_ONBOARDING_STEP, ONBOARDING_FLOW } from './onboarding-flow';
+
+describe('OnboardingService', () => {
+  let service: OnboardingService;
+  const prisma = {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    profile: { findUnique: jest.fn(), upsert: jest.fn() },
+    onboardingEvent: { create: jest.fn(), groupBy: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  const progress = (onboardingStep: number, overrides = {}) => ({
+    completedOnboarding: false,
+    onboardingStep,
+    onboardingVersion: ONBOARDING_FLOW.version,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation((arg: unknown) =>
+      typeof arg === 'function'
+        ? (arg as (tx: typeof prisma) => Promise<unknown>)(prisma)
+        : Promise.all(arg as Promise<unknown>[]),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OnboardingService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<OnboardingService>(OnboardingService);
+  });
+
+  it('describes the flow without exposing DTO classes', () => {
+    const flow = service.getFlow();
+
+    expect(flow.version).toBe(ONBOARDING_FLOW.version);
+    expect(flow.steps[2]).toEqual({
+      index: 2,
+      id: 'important-date',
+      skippable: true,
+      fields: ['importantDate', 'importantDateText'],
+    });
+  });
+
+  describe('completeOnboardingStep', () => {
+    it('writes mapped profile fields and records the event', async () => {
+      prisma.user.findUnique.mockResolvedValue(progress(2));
+
+      const result = await service.completeOnboardingStep(
+        'user-1',
+        'important-date',
+        { importantDate: '2025-03-01', importantDateText: 'moved city' },
+      );
+
+      expect(result).toEqual({
+        success: true,
+        currentStep: 3,
+        currentStepId: 'therapy',
+      });
+      const [[{ update }]] = prisma.profile.upsert.mock.calls as [
+        [{ update: Record<string, unknown> }],
+      ];
+      expect(update).toEqual({
+        struggleTimestamp: new Date('2025-03-01'),
+        struggleNotes: 'moved city',
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { onboardingStep: 3 },
+      });
+      expect(prisma.onboardingEvent.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          flowVersion: ONBOARDING_FLOW.version,
+          stepId: 'important-date',
+          type: 'STEP_COMPLETED',
+        },
+      });
+    });
+
+    it('accepts the step index as well as its id', async () => {
+      prisma.user.findUnique.mockResolvedValue(progress(0));
+
+      await service.completeOnboardingStep('user-1', '0', { name: 'Sam' });
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { name: 'Sam', onboardingStep: 1 },
+      });
+      expect(prisma.profile.upsert).not.toHaveBeenCalled();
+    });
+
+    it('saves the biometric step to the user', async () => {
+      prisma.user.findUnique.mockResolvedValue(progress(LAST_ONBOARDING_STEP));
+
+      const result = await service.completeOnboardingStep(
+        'user-1',
+        'biometric',
+        { biometricEnabled: true },
+      );
+
+      expect(result.currentStep).toBe(LAST_ONBOARDING_STEP);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { localSecurityEnabled: true },
+      });
+    });
+
+    it('rejects jumping ahead', async () => {
+      prisma.user.findUnique.mockResolvedValue(progress(0));
+
+      await expect(
+        service.completeOnboardingStep('user-1', 'therapy', {
+          inTherapy: false,
+        }),
+      ).rejects.toThrow('Cannot skip steps');
+    });
+
+    it('rejects unknown steps', async () => {
+      await expect(
+        service.completeOnboardingStep('user-1', 'favourite-colour', {}),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.completeOnboardingStep('user-1', '99', {}),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('skipOnboardingStep', () => {
+    it('skips optional steps', async () => {
+      prisma.user.findUnique.mockResolvedValue(progress(2));
+
+      await service.skipOnboardingStep('user-1', 'important-date');
+
+      expect(prisma.profile.upsert).not.toHaveBeenCalled();
+      expect(prisma.onboardingEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'STEP_SKIPPED' }) as object,
+      });
+    });
+
+    it('refuses to skip required steps', async () => {
+      await expect(
+        service.skipOnboardingStep('user-1', 'paywall'),
+      ).rejects.toThrow('cannot be skipped');
+    });
+  });
+
+  describe('flow versions', () => {
+    it('resumes v1 users at the first step they have not done', () => {
+      // Finished v1's last step (paywall): biometric is new for them
+      expect(service.migrateStepIndex(1, 5)).toBe(5);
+      expect(service.migrateStepIndex(1, 2)).toBe(2);
+    });
+
+    it('migrates stored progress on first read', async () => {
+      prisma.user.findUnique.mockResolvedValue(
+        progress(4, { onboardingVersion: 1 }),
+      );
+      prisma.profile.findUnique.mockResolvedValue(null);
+
+      const status = await service.getOnboardingStatus('user-1');
+
+      expect(status).toMatchObject({
+        currentStep: 4,
+        currentStepId: 'paywall',
+        flowVersion: ONBOARDING_FLOW.version,
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { onboardingVersion: ONBOARDING_FLOW.version, onboardingStep: 4 },
+      });
+      expect(prisma.onboardingEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'MIGRATED' }) as object,
+      });
+    });
+  });
+
+  describe('getFunnel', () => {
+    it('counts where unfinished users stopped', async () => {
+      prisma.onboardingEvent.groupBy.mockResolvedValue([
+        { userId: 'a', stepId: 'name', type: 'STEP_COMPLETED' },
+        { userId: 'a', stepId: 'struggles', type: 'STEP_COMPLETED' },
+        { userId: 'b', stepId: 'name', type: 'STEP_COMPLETED' },
+        { userId: 'c', stepId: 'name', type: 'STEP_COMPLETED' },
+        { userId: 'c', stepId: 'biometric', type: 'STEP_SKIPPED' },
+        { userId: 'c', stepId: null, type: 'COMPLETED' },
+      ]);
+
+      const funnel = await service.getFunnel();
+
+      expect(funnel.completed).toBe(1);
+      expect(funnel.steps[0]).toEqual({
+        id: 'name',
+        reached: 3,
+        skipped: 0,
+        droppedOff: 1,
+      });
+      expect(funnel.steps[1]).toMatchObject({ reached: 1, droppedOff: 1 });
+      expect(funnel.steps[5]).toMatchObject({ skipped: 1, droppedOff: 0 });
+    });
+
+    it('rejects unknown versions', async () => {
+      await expect(service.getFunnel(99)).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,344 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../database/database.service';
+import { Prisma } from '../../generated/prisma';
+import {
+  LAST_ONBOARDING_STEP,
+  ONBOARDING_FLOW,
+  OnboardingStepDefinition,
+  PREVIOUS_ONBOARDING_FLOWS,
+} from './onboarding-flow';
+import { validateBody } from '../common/validate-body';
+import {
+  OnboardingFlowResponse,
+  OnboardingFunnelResponse,
+  OnboardingStatusResponse,
+  OnboardingStepResponse,
+} from './dto/onboarding-response.dto';
+
+interface OnboardingProgress {
+  completedOnboarding: boolean;
+  onboardingStep: number;
+}
+
+@Injectable()
+export class OnboardingService {
+  constructor(private readonly db: PrismaService) {}
+
+  /**
+   * The current flow, for the app to render
+   */
+  getFlow(): OnboardingFlowResponse {
+    return {
+      version: ONBOARDING_FLOW.version,
+      steps: ONBOARDING_FLOW.steps.map((step, index) => ({
+        index,
+        id: step.id,
+        skippable: step.skippable,
+        fields: step.fields.map((field) => field.name),
+      })),
+    };
+  }
+
+  async getOnboardingStatus(userId: string): Promise<OnboardingStatusResponse> {
+    const progress = await this.loadProgress(userId);
+
+    const profile = await this.db.profile.findUnique({
+      where: { userId },
+      select: {
+        struggles: true,
+        struggleTimestamp: true,
+        struggleNotes: true,
+        inTherapy: true,
+        therapyDetails: true,
+      },
+    });
+
+    return {
+      completedOnboarding: progress.completedOnboarding,
+      currentStep: progress.onboardingStep,
+      currentStepId: ONBOARDING_FLOW.steps[progress.onboardingStep].id,
+      flowVersion: ONBOARDING_FLOW.version,
+      profile: profile || undefined,
+    };
+  }
+
+  /**
+   * Validate and save one step. `stepParam` is the step id or its index.
+   */
+  async completeOnboardingStep(
+    userId: string,
+    stepParam: string,
+    body: unknown,
+  ): Promise<OnboardingStepResponse> {
+    const { index, step } = this.resolveStep(stepParam);
+    const progress = await this.loadProgress(userId);
+    this.assertCanSubmit(progress, index);
+
+    const data = await validateBody(step.dto, body);
+    const { user, profile } = this.mapFields(step, data);
+
+    return this.advance(userId, progress, index, 'STEP_COMPLETED', {
+      user,
+      profile,
+    });
+  }
+
+  async skipOnboardingStep(
+    userId: string,
+    stepParam: string,
+  ): Promise<OnboardingStepResponse> {
+    const { index, step } = this.resolveStep(stepParam);
+    if (!step.skippable) {
+      throw new BadRequestException(`Step "${step.id}" cannot be skipped`);
+    }
+
+    const progress = await this.loadProgress(userId);
+    this.assertCanSubmit(progress, index);
+
+    return this.advance(userId, progress, index, 'STEP_SKIPPED');
+  }
+
+  async completeOnboarding(userId: string) {
+    const progress = await this.loadProgress(userId);
+
+    if (progress.completedOnboarding) {
+      throw new BadRequestException('Onboarding already completed');
+    }
+
+    await this.db.$transaction([
+      this.db.user.update({
+        where: { id: userId },
+        data: { completedOnboarding: true },
+      }),
+      this.db.onboardingEvent.create({
+        data: {
+          userId,
+          flowVersion: ONBOARDING_FLOW.version,
+          type: 'COMPLETED',
+        },
+      }),
+    ]);
+
+    return { success: true };
+  }
+
+  /**
+   * How many users got past each step, and where the rest stopped
+   */
+  async getFunnel(
+    version = ONBOARDING_FLOW.version,
+  ): Promise<OnboardingFunnelResponse> {
+    const stepIds =
+      version === ONBOARDING_FLOW.version
+        ? ONBOARDING_FLOW.steps.map((step) => step.id)
+        : PREVIOUS_ONBOARDING_FLOWS[version];
+
+    if (!stepIds) {
+      throw new BadRequestException(`Unknown onboarding version ${version}`);
+    }
+
+    const events = await this.db.onboardingEvent.groupBy({
+      by: ['userId', 'stepId', 'type'],
+      where: { flowVersion: version },
+    });
+
+    const finished = new Set(
+      events.filter((e) => e.type === 'COMPLETED').map((e) => e.userId),
+    );
+    const reached = stepIds.map(() => new Set<string>());
+    const skipped = stepIds.map(() => new Set<string>());
+    const furthest = new Map<string, number>();
+
+    for (const event of events) {
+      if (event.type !== 'STEP_COMPLETED' && event.type !== 'STEP_SKIPPED') {
+        continue;
+      }
+      const index = stepIds.indexOf(event.stepId ?? '');
+      if (index === -1) continue;
+
+      reached[index].add(event.userId);
+      if (event.type === 'STEP_SKIPPED') skipped[index].add(event.userId);
+      furthest.set(
+        event.userId,
+        Math.max(furthest.get(event.userId) ?? -1, index),
+      );
+    }
+
+    const droppedOff = stepIds.map(() => 0);
+    for (const [userId, index] of furthest) {
+      if (!finished.has(userId)) droppedOff[index]++;
+    }
+
+    return {
+      version,
+      completed: finished.size,
+      steps: stepIds.map((id, index) => ({
+        id,
+        reached: reached[index].size,
+        skipped: skipped[index].size,
+        droppedOff: droppedOff[index],
+      })),
+    };
+  }
+
+  /**
+   * Where a user on an older flow should resume in the current one: the
+   * first current step they haven't already done.
+   */
+  migrateStepIndex(fromVersion: number, stepIndex: number): number {
+    const previousIds = PREVIOUS_ONBOARDING_FLOWS[fromVersion];
+    if (!previousIds) {
+      return Math.min(stepIndex, LAST_ONBOARDING_STEP);
+    }
+
+    const done = new Set(previousIds.slice(0, stepIndex));
+    const next = ONBOARDING_FLOW.steps.findIndex((step) => !done.has(step.id));
+    return next === -1 ? LAST_ONBOARDING_STEP : next;
+  }
+
+  private resolveStep(stepParam: string) {
+    const index = /^\d+$/.test(stepParam)
+      ? Number(stepParam)
+      : ONBOARDING_FLOW.steps.findIndex((step) => step.id === stepParam);
+    const step = ONBOARDING_FLOW.steps[index];
+
+    if (!step) {
+      throw new BadRequestException(`Unknown onboarding step "${stepParam}"`);
+    }
+
+    return { index, step };
+  }
+
+  private assertCanSubmit(progress: OnboardingProgress, index: number) {
+    if (progress.completedOnboarding) {
+      throw new BadRequestException('Onboarding already completed');
+    }
+
+    // Allow submitting any step up to the max they've reached
+    if (index > progress.onboardingStep + 1) {
+      throw new BadRequestException(
+        `Cannot skip steps. Current step is ${progress.onboardingStep}`,
+      );
+    }
+  }
+
+  /**
+   * Load the user's progress, moving it onto the current flow version first
+   */
+  private async loadProgress(userId: string): Promise<OnboardingProgress> {
+    const user = await this.db.user.findUnique({
+      where: { id: userId },
+      select: {
+        completedOnboarding: true,
+        onboardingStep: true,
+        onboardingVersion: true,
+      },
+    });
+
+    if (!user) {
+      throw new BadRequestException('User not found');
+    }
+
+    if (user.onboardingVersion === ONBOARDING_FLOW.version) {
+      return user;
+    }
+
+    const onboardingStep = user.completedOnboarding
+      ? user.onboardingStep
+      : this.migrateStepIndex(user.onboardingVersion, user.onboardingStep);
+
+    await this.db.$transaction([
+      this.db.user.update({
+        where: { id: userId },
+        data: { onboardingVersion: ONBOARDING_FLOW.version, onboardingStep },
+      }),
+      ...(user.completedOnboarding
+        ? []
+        : [
+            this.db.onboardingEvent.create({
+              data: {
+                userId,
+                flowVersion: ONBOARDING_FLOW.version,
+                stepId: ONBOARDING_FLOW.steps[onboardingStep].id,
+                type: 'MIGRATED',
+              },
+            }),
+          ]),
+    ]);
+
+    return { completedOnboarding: user.completedOnboarding, onboardingStep };
+  }
+
+  /**
+   * Split a validated step payload into user and profile column updates
+   */
+  private mapFields(step: OnboardingStepDefinition, data: object) {
+    const user: Record<string, unknown> = {};
+    const profile: Record<string, unknown> = {};
+
+    for (const { name, target } of step.fields) {
+      const value = (data as Record<string, unknown>)[name];
+      if (!target || value === undefined) continue;
+
+      const columns = target.model === 'user' ? user : profile;
+      columns[target.column] = target.transform
+        ? target.transform(value)
+        : value;
+    }
+
+    return {
+      user: user as Prisma.UserUpdateInput,
+      profile: profile as Prisma.ProfileUpdateInput,
+    };
+  }
+
+  private async advance(
+    userId: string,
+    progress: OnboardingProgress,
+    index: number,
+    type: 'STEP_COMPLETED' | 'STEP_SKIPPED',
+    updates: {
+      user?: Prisma.UserUpdateInput;
+      profile?: Prisma.ProfileUpdateInput;
+    } = {},
+  ): Promise<OnboardingStepResponse> {
+    const nextStep = Math.min(index + 1, LAST_ONBOARDING_STEP);
+    const userData: Prisma.UserUpdateInput = {
+      ...updates.user,
+      // Only move forward when this step is at or past the saved step
+      ...(nextStep > progress.onboardingStep && { onboardingStep: nextStep }),
+    };
+
+    await this.db.$transaction(async (tx) => {
+      if (updates.profile && Object.keys(updates.profile).length > 0) {
+        await tx.profile.upsert({
+          where: { userId },
+          create: {
+            ...(updates.profile as Prisma.ProfileCreateWithoutUserInput),
+            user: { connect: { id: userId } },
+          },
+          update: updates.profile,
+        });
+      }
+
+      if (Object.keys(userData).length > 0) {
+        await tx.user.update({ where: { id: userId }, data: userData });
+      }
+
+      await tx.onboardingEvent.create({
+        data: {
+          userId,
+          flowVersion: ONBOARDING_FLOW.version,
+          stepId: ONBOARDING_FLOW.steps[index].id,
+          type,
+        },
+      });
+    });
+
+    return {
+      success: true,
+      currentStep: nextStep, // Always return next step
+      currentStepId: ONBOARDING_FLOW.steps[nextStep].id,
+    };
+  }
+}
@@ -11,34 +11,42 @@ import {
   UploadedFile,
   UseInterceptors,
   Delete,
+  HttpCode,
+  HttpStatus,
+  Query,
+  Patch,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import {
   AuthGuard,
+  Roles,
   Session,
   type UserSession,
 } from '@thallesp/nestjs-better-auth';
 import { ProfileService } from './profile.service';
-import {
-  OnboardingStep0Dto,
-  OnboardingStep1Dto,
-  OnboardingStep2Dto,
-  OnboardingStep3Dto,
-  OnboardingStep4Dto,
-  OnboardingStep5Dto,
-} from './dto/onboarding-step.dto';
+import { OnboardingService } from './onboarding.service';
+import { validateBody } from '../common/validate-body';
+import { UpdateProfileDto } from './dto/update-profile.dto';
 import {
   OnboardingStepResponse,
   OnboardingStatusResponse,
+  OnboardingFlowResponse,
+  OnboardingFunnelResponse,
 } from './dto/onboarding-response.dto';
 import { MediaService } from 'src/media/media.service';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { DataExportService } from './data-export.service';
+import { AccountDeletionService } from './account-deletion.service';
 
 @Controller('profile')
 @UseGuards(AuthGuard)
 export class ProfileController {
   constructor(
     private readonly profileService: ProfileService,
+    private readonly onboardingService: OnboardingService,
     private readonly mediaService: MediaService,
+    private readonly dataExportService: DataExportService,
+    private readonly accountDeletionService: AccountDeletionService,
   ) {}
 
   @Get('me')
@@ -46,26 +54,40 @@ export class ProfileController {
     return this.profileService.getUserProfile(session.user.id);
   }
 
+  /**
+   * PATCH /profile
+   * Partial update: omit a field to keep it, send null to clear it
+   */
+  @Patch()
+  async patchProfile(@Session() session: UserSession, @Body() body: unknown) {
+    const data = await validateBody(UpdateProfileDto, body);
+    return this.profileService.updateProfile(session.user.id, data);
+  }
+
+  /**
+   * POST /profile/update
+   * Same as PATCH /profile, kept for existing app versions
+   */
   @Post('update')
-  async updateProfile(
-    @Session() session: UserSession,
-    @Body()
-    data: {
-      name?: string;
-      image?: string;
-      profile?: {
-        bio?: string;
-        struggles?: string[];
-        inTherapy?: boolean;
-        therapyDetails?: string;
-        struggleNotes?: string;
-      };
-    },
-  ) {
+  async updateProfile(@Session() session: UserSession, @Body() body: unknown) {
+    const data = await validateBody(UpdateProfileDto, body);
     return this.profileService.updateProfile(session.user.id, data);
   }
 
+  /**
+   * GET /profile/changes
+   * History of profile edits, newest first
+   */
+  @Get('changes')
+  async getProfileChanges(@Session() session: UserSession) {
+    const changes = await this.profileService.getProfileChanges(
+      session.user.id,
+    );
+    return { data: changes, count: changes.length };
+  }
+
   @Post('avatar')
+  @RateLimit('profile:avatar')
   @UseInterceptors(FileInterceptor('file'))
   async updateAvatar(
     @UploadedFile() file: Express.Multer.File,
@@ -99,47 +121,35 @@ export class ProfileController {
 
   @Post('onboarding/complete')
   async completeOnboarding(@Session() session: UserSession) {
-    return this.profileService.completeOnboarding(session.user.id);
+    return this.onboardingService.completeOnboarding(session.user.id);
+  }
+
+  /**
+   * POST /profile/onboarding/:step/skip
+   * Skip an optional step; :step is the step id or index
+   */
+  @Post('onboarding/:step/skip')
+  async skipOnboardingStep(
+    @Session() session: UserSession,
+    @Param('step') step: string,
+  ): Promise<OnboardingStepResponse> {
+    return this.onboardingService.skipOnboardingStep(session.user.id, step);
   }
 
+  /**
+   * POST /profile/onboarding/:step
+   * Save one step; :step is the step id or index
+   */
   @Post('onboarding/:step')
   async completeOnboardingStep(
     @Session() session: UserSession,
-    @Param('step', ParseIntPipe) step: number,
-    @Body() body: any,
+    @Param('step') step: string,
+    @Body() body: unknown,
   ): Promise<OnboardingStepResponse> {
-    // Validate step number (0-5)
-    if (step < 0 || step > 5) {
-      throw new BadRequestException('Step must be between 0 and 5');
-    }
-
-    // Validate body based on step
-    let validatedData: any;
-    switch (step) {
-      case 0:
-        validatedData = body as OnboardingStep0Dto;
-        break;
-      case 1:
-        validatedData = body as OnboardingStep1Dto;
-        break;
-      case 2:
-        validatedData = body as OnboardingStep2Dto;
-        break;
-      case 3:
-        validatedData = body as OnboardingStep3Dto;
-        break;
-      case 4:
-        validatedData = body as OnboardingStep4Dto;
-        break;
-      case 5:
-        validatedData = body as OnboardingStep5Dto;
-        break;
-    }
-
-    return this.profileService.completeOnboardingStep(
+    return this.onboardingService.completeOnboardingStep(
       session.user.id,
       step,
-      validatedData,
+      body,
     );
   }
 
@@ -147,11 +157,76 @@ export class ProfileController {
   async getOnboardingStatus(
     @Session() session: UserSession,
   ): Promise<OnboardingStatusResponse> {
-    return this.profileService.getOnboardingStatus(session.user.id);
+    return this.onboardingService.getOnboardingStatus(session.user.id);
+  }
+
+  /**
+   * GET /profile/onboarding/flow
+   * Steps of the current onboarding flow, in order
+   */
+  @Get('onboarding/flow')
+  getOnboardingFlow(): OnboardingFlowResponse {
+    return this.onboardingService.getFlow();
+  }
+
+  /**
+   * GET /profile/onboarding/funnel?version=2
+   * Per-step completion and drop-off counts
+   */
+  @Get('onboarding/funnel')
+  @Roles(['admin', 'superadmin'])
+  async getOnboardingFunnel(
+    @Query('version', new ParseIntPipe({ optional: true })) version?: number,
+  ): Promise<OnboardingFunnelResponse> {
+    return this.onboardingService.getFunnel(version);
   }
 
+  /**
+   * POST /profile/export
+   * Start building a downloadable archive of the user's data
+   */
+  @Post('export')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RateLimit('profile:export')
+  async requestExport(@Session() session: UserSession) {
+    const data = await this.dataExportService.requestExport(session.user.id);
+    return { message: 'Export started', data };
+  }
+
+  /**
+   * GET /profile/export/:id
+   * Export status, with a time-limited download link once ready
+   */
+  @Get('export/:id')
+  async getExport(@Session() session: UserSession, @Param('id') id: string) {
+    const data = await this.dataExportService.getExport(session.user.id, id);
+    return { data };
+  }
+
+  /**
+   * DELETE /profile/delete
+   * Schedule account deletion (or delete now if there's no grace period)
+   */
   @Delete('delete')
   async deleteProfile(@Session() session: UserSession) {
-    return this.profileService.deleteProfile(session.user.id);
+    const data = await this.accountDeletionService.requestDeletion(
+      session.user.id,
+    );
+    return {
+      message:
+        data.status === 'DELETED'
+          ? 'Account deleted'
+          : 'Account scheduled for deletion',
+      data,
+    };
+  }
+
+  /**
+   * POST /profile/delete/cancel
+   * Undo a scheduled deletion during the grace period
+   */
+  @Post('delete/cancel')
+  async cancelDeletion(@Session() session: UserSession) {
+    return this.accountDeletionService.cancelDeletion(session.user.id);
   }
 }
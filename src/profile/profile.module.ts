@@ -2,9 +2,19 @@ import { Module } from '@nestjs/common';
 import { ProfileController } from './profile.controller';
 import { ProfileService } from './profile.service';
 import { MediaService } from 'src/media/media.service';
+import { DataExportService } from './data-export.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { OnboardingService } from './onboarding.service';
 
 @Module({
   controllers: [ProfileController],
-  providers: [ProfileService, MediaService],
+  providers: [
+    ProfileService,
+    OnboardingService,
+    MediaService,
+    DataExportService,
+    AccountDeletionService,
+  ],
+  exports: [ProfileService],
 })
 export class ProfileModule {}
@@ -1,18 +1,155 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { ProfileService } from './profile.service';
+import { PrismaService } from '../database/database.service';
+import { MediaService } from '../media/media.service';
+import { Prisma } from '../../generated/prisma';
 
 describe('ProfileService', () => {
   let service: ProfileService;
+  const prisma = {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    profile: { upsert: jest.fn() },
+    profileChange: { createMany: jest.fn(), findMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const mediaService = { isOwnAvatarUrl: jest.fn() };
+
+  const existing = {
+    name: 'Sam',
+    image: null,
+    profile: {
+      bio: 'Hi',
+      struggles: ['sleep'],
+      struggleTimestamp: null,
+      struggleNotes: null,
+      inTherapy: false,
+      therapyDetails: 'Looking for one',
+    },
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma),
+    );
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ProfileService],
+      providers: [
+        ProfileService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MediaService, useValue: mediaService },
+      ],
     }).compile();
 
     service = module.get<ProfileService>(ProfileService);
   });
 
-  it('should be defined', () => {
-    expect(service).toBeDefined();
+  const recordedChanges = () => {
+    const [[{ data }]] = prisma.profileChange.createMany.mock.calls as [
+      [{ data: { field: string; oldValue: unknown; newValue: unknown }[] }],
+    ];
+    return data;
+  };
+
+  describe('updateProfile', () => {
+    it('writes only the fields that changed and records them', async () => {
+      prisma.user.findUnique.mockResolvedValue(existing);
+
+      const result = await service.updateProfile('user-1', {
+        name: 'Sam',
+        profile: { inTherapy: true, struggles: ['sleep'] },
+      });
+
+      expect(result).toEqual({ success: true, changed: ['inTherapy'] });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(prisma.profile.upsert).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        create: { userId: 'user-1', inTherapy: true },
+        update: { inTherapy: true },
+      });
+      expect(recordedChanges()).toEqual([
+        {
+          userId: 'user-1',
+          field: 'inTherapy',
+          oldValue: false,
+          newValue: true,
+        },
+      ]);
+    });
+
+    it('clears a field on null and leaves omitted fields alone', async () => {
+      prisma.user.findUnique.mockResolvedValue(existing);
+
+      await service.updateProfile('user-1', {
+        profile: { therapyDetails: null },
+      });
+
+      expect(prisma.profile.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { therapyDetails: null } }),
+      );
+      expect(recordedChanges()).toEqual([
+        expect.objectContaining({
+          field: 'therapyDetails',
+          oldValue: 'Looking for one',
+          newValue: Prisma.DbNull,
+        }),
+      ]);
+    });
+
+    it('stores dates as ISO strings in the history', async () => {
+      prisma.user.findUnique.mockResolvedValue(existing);
+
+      await service.updateProfile('user-1', {
+        profile: { struggleTimestamp: '2025-03-01T00:00:00.000Z' },
+      });
+
+      expect(recordedChanges()[0].newValue).toBe('2025-03-01T00:00:00.000Z');
+    });
+
+    it('records nothing when nothing changed', async () => {
+      prisma.user.findUnique.mockResolvedValue(existing);
+
+      const result = await service.updateProfile('user-1', {
+        profile: { bio: 'Hi' },
+      });
+
+      expect(result.changed).toEqual([]);
+      expect(prisma.profile.upsert).not.toHaveBeenCalled();
+      expect(prisma.profileChange.createMany).not.toHaveBeenCalled();
+    });
+
+    it('treats a missing profile row as defaults', async () => {
+      prisma.user.findUnique.mockResolvedValue({ ...existing, profile: null });
+
+      const result = await service.updateProfile('user-1', {
+        profile: { struggles: [], inTherapy: true },
+      });
+
+      expect(result.changed).toEqual(['inTherapy']);
+    });
+
+    it('only accepts avatars from the user’s own folder', async () => {
+      mediaService.isOwnAvatarUrl.mockReturnValue(false);
+
+      await expect(
+        service.updateProfile('user-1', {
+          image: 'https://cdn.example.com/user-avatars/user-2/a.jpg',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mediaService.isOwnAvatarUrl).toHaveBeenCalledWith(
+        'https://cdn.example.com/user-avatars/user-2/a.jpg',
+        'user-1',
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('throws for unknown users', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.updateProfile('user-1', { name: 'Sam' }),
+      ).rejects.toThrow(NotFoundException);
+    });
   });
 });
@@ -1,19 +1,38 @@
 // profile/profile.service.ts
-import { Injectable, BadRequestException } from '@nestjs/common';
-import { PrismaService } from 'src/database/database.service';
 import {
-  OnboardingStep0Dto,
-  OnboardingStep1Dto,
-  OnboardingStep2Dto,
-  OnboardingStep3Dto,
-  OnboardingStep4Dto,
-  OnboardingStep5Dto,
-} from './dto/onboarding-step.dto';
-import { User } from 'generated/prisma';
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../database/database.service';
+import { MediaService } from '../media/media.service';
+import { Prisma } from '../../generated/prisma';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+
+// Profile columns clients may edit, with the value an unset column reads as
+const EDITABLE_PROFILE_FIELDS = {
+  bio: null,
+  struggles: [],
+  struggleTimestamp: null,
+  struggleNotes: null,
+  inTherapy: false,
+  therapyDetails: null,
+} as const;
+
+type EditableProfileField = keyof typeof EDITABLE_PROFILE_FIELDS;
+
+interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
 
 @Injectable()
 export class ProfileService {
-  constructor(private readonly db: PrismaService) {}
+  constructor(
+    private readonly db: PrismaService,
+    private readonly mediaService: MediaService,
+  ) {}
 
   async getUserProfile(userId: string) {
     return this.db.user.findUnique({
@@ -22,261 +41,120 @@ export class ProfileService {
     });
   }
 
-  async updateProfile(
-    userId: string,
-    data: {
-      name?: string;
-      image?: string;
-      profile?: {
-        bio?: string;
-        struggles?: string[];
-        inTherapy?: boolean;
-        therapyDetails?: string;
-        struggleNotes?: string;
-      };
-    },
-  ) {
-    const userUpdateData: Partial<User> = {};
-    if (data.name !== undefined) userUpdateData.name = data.name;
-    if (data.image !== undefined) userUpdateData.image = data.image;
-
-    if (Object.keys(userUpdateData).length > 0) {
-      await this.db.user.update({
-        where: { id: userId },
-        data: userUpdateData,
-      });
-    }
-
-    if (data.profile && Object.keys(data.profile).length > 0) {
-      await this.db.profile.upsert({
-        where: { userId },
-        create: {
-          userId,
-          ...data.profile,
-        },
-        update: data.profile,
-      });
-    }
-
-    return { success: true };
-  }
-
-  async getOnboardingStatus(userId: string) {
-    const user = await this.db.user.findUnique({
-      where: { id: userId },
-      select: {
-        completedOnboarding: true,
-        onboardingStep: true,
-        profile: {
-          select: {
-            struggles: true,
-            struggleTimestamp: true,
-            struggleNotes: true,
-            inTherapy: true,
-            therapyDetails: true,
-          },
-        },
-      },
-    });
-
-    if (!user) {
-      throw new BadRequestException('User not found');
-    }
-
-    console.log('Onboarding status for user', userId, user);
-
-    return {
-      completedOnboarding: user.completedOnboarding,
-      currentStep: user.onboardingStep,
-      profile: user.profile || undefined,
-    };
-  }
-
-  async completeOnboardingStep(
-    userId: string,
-    step: number,
-    data: any,
-  ): Promise<{ success: boolean; currentStep: number }> {
-    const user = await this.db.user.findUnique({
-      where: { id: userId },
-      select: { onboardingStep: true, completedOnboarding: true },
-    });
-
-    if (!user) {
-      throw new BadRequestException('User not found');
-    }
-
-    if (user.completedOnboarding) {
-      throw new BadRequestException('Onboarding already completed');
-    }
-
-    // Allow submitting any step up to the max they've reached
-    if (step > user.onboardingStep + 1) {
+  /**
+   * Apply a partial update. Omitted fields are left alone, null clears a
+   * field, and every actual change is written to the profile history.
+   */
+  async updateProfile(userId: string, data: UpdateProfileDto) {
+    // Only avatars uploaded through POST /profile/avatar, never someone else's file
+    if (
+      typeof data.image === 'string' &&
+      !this.mediaService.isOwnAvatarUrl(data.image, userId)
+    ) {
       throw new BadRequestException(
-        `Cannot skip steps. Current step is ${user.onboardingStep}`,
+        'image must be an avatar uploaded through /profile/avatar',
       );
     }
 
-    switch (step) {
-      case 0:
-        await this.handleStep0(userId, data as OnboardingStep0Dto);
-        break;
-      case 1:
-        await this.handleStep1(userId, data as OnboardingStep1Dto);
-        break;
-      case 2:
-        await this.handleStep2(userId, data as OnboardingStep2Dto);
-        break;
-      case 3:
-        await this.handleStep3(userId, data as OnboardingStep3Dto);
-        break;
-      case 4:
-        await this.handleStep4(userId, data as OnboardingStep4Dto);
-        break;
-      // case 5:
-      //   await this.handleStep5(userId, data as OnboardingStep5Dto);
-      //   break;
-      default:
-        throw new BadRequestException('Invalid step');
-    }
-
-    // Always move to next step after submission
-    const nextStep = Math.min(step + 1, 4);
-
-    // Only update DB if we're at or past the current saved step
-    if (nextStep > user.onboardingStep) {
-      await this.db.user.update({
+    return this.db.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
         where: { id: userId },
-        data: { onboardingStep: nextStep },
+        select: { name: true, image: true, profile: true },
       });
-    }
-
-    return {
-      success: true,
-      currentStep: nextStep, // Always return next step
-    };
-  }
 
-  // Step 0: Name (on User model)
-  private async handleStep0(userId: string, data: OnboardingStep0Dto) {
-    await this.db.user.update({
-      where: { id: userId },
-      data: { name: data.name },
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      const changes: FieldChange[] = [];
+      const userData: Prisma.UserUpdateInput = {};
+      const profileData: Record<string, unknown> = {};
+
+      if (data.name !== undefined && data.name !== user.name) {
+        changes.push({
+          field: 'name',
+          oldValue: user.name,
+          newValue: data.name,
+        });
+        userData.name = data.name;
+      }
+
+      if (data.image !== undefined && data.image !== user.image) {
+        changes.push({
+          field: 'image',
+          oldValue: user.image,
+          newValue: data.image,
+        });
+        userData.image = data.image;
+      }
+
+      for (const field of Object.keys(
+        EDITABLE_PROFILE_FIELDS,
+      ) as EditableProfileField[]) {
+        const requested = data.profile?.[field];
+        if (requested === undefined) continue;
+
+        const newValue =
+          field === 'struggleTimestamp' && requested !== null
+            ? new Date(requested as string)
+            : requested;
+        const oldValue =
+          user.profile?.[field] ?? EDITABLE_PROFILE_FIELDS[field];
+
+        if (this.sameValue(oldValue, newValue)) continue;
+
+        changes.push({ field, oldValue, newValue });
+        profileData[field] = newValue;
+      }
+
+      if (Object.keys(userData).length > 0) {
+        await tx.user.update({ where: { id: userId }, data: userData });
+      }
+
+      if (Object.keys(profileData).length > 0) {
+        await tx.profile.upsert({
+          where: { userId },
+          create: { userId, ...profileData },
+          update: profileData,
+        });
+      }
+
+      if (changes.length > 0) {
+        await tx.profileChange.createMany({
+          data: changes.map((change) => ({
+            userId,
+            field: change.field,
+            oldValue: this.toJson(change.oldValue),
+            newValue: this.toJson(change.newValue),
+          })),
+        });
+      }
+
+      return { success: true, changed: changes.map((c) => c.field) };
     });
   }
 
-  // Step 1: Struggles (on Profile model)
-  private async handleStep1(userId: string, data: OnboardingStep1Dto) {
-    await this.db.profile.upsert({
-      where: { userId },
-      create: {
+  /**
+   * Profile edits, newest first
+   */
+  async getProfileChanges(userId: string, options: { since?: Date } = {}) {
+    return this.db.profileChange.findMany({
+      where: {
         userId,
-        struggles: data.struggles,
-      },
-      update: {
-        struggles: data.struggles,
+        ...(options.since && { createdAt: { gte: options.since } }),
       },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
     });
   }
 
-  // Step 2: Important Date (on Profile model)
-  private async handleStep2(userId: string, data: OnboardingStep2Dto) {
-    const updateData: any = {};
-
-    if (data.importantDate) {
-      updateData.struggleTimestamp = new Date(data.importantDate);
-    }
-
-    if (data.importantDateText) {
-      updateData.struggleNotes = data.importantDateText;
-    }
-
-    await this.db.profile.upsert({
-      where: { userId },
-      create: {
-        userId,
-        ...updateData,
-      },
-      update: updateData,
-    });
-  }
-
-  // Step 3: Therapy (on Profile model)
-  private async handleStep3(userId: string, data: OnboardingStep3Dto) {
-    await this.db.profile.upsert({
-      where: { userId },
-      create: {
-        userId,
-        inTherapy: data.inTherapy,
-        therapyDetails: data.therapyDetails,
-      },
-      update: {
-        inTherapy: data.inTherapy,
-        therapyDetails: data.therapyDetails,
-      },
-    });
-  }
-
-  // Step 4: Paywall (frontend only, just validation)
-  private async handleStep4(userId: string, data: OnboardingStep4Dto) {
-    if (!data.paywallCompleted) {
-      throw new BadRequestException('Paywall step must be completed');
-    }
-    // No database update needed
-  }
-
-  // Step 5: Biometric (on User model)
-  private async handleStep5(userId: string, data: OnboardingStep5Dto) {
-    await this.db.user.update({
-      where: { id: userId },
-      data: { localSecurityEnabled: data.biometricEnabled },
-    });
-  }
-
-  async completeOnboarding(userId: string) {
-    const user = await this.db.user.findUnique({
-      where: { id: userId },
-      select: { onboardingStep: true, completedOnboarding: true },
-    });
-
-    if (!user) {
-      console.log('User not found during onboarding completion');
-      throw new BadRequestException('User not found');
-    }
-
-    if (user.completedOnboarding) {
-      console.log('Onboarding already completed');
-      throw new BadRequestException('Onboarding already completed');
-    }
-
-    // if (user.onboardingStep < 5) {
-    //   console.log('All steps must be complete');
-    //   throw new BadRequestException('All onboarding steps must be completed');
-    // }
-
-    await this.db.user.update({
-      where: { id: userId },
-      data: { completedOnboarding: true },
-    });
-
-    return { success: true };
+  private sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
   }
 
-  async deleteProfile(userId: string) {
-    try {
-      await this.db.message.deleteMany({ where: { conversation: { userId } } });
-      await this.db.conversation.delete({ where: { userId } });
-      await this.db.checkIn.deleteMany({ where: { userId } });
-      await this.db.dailyGoal.deleteMany({ where: { userId } });
-      await this.db.profile.delete({ where: { userId } });
-      await this.db.user.delete({ where: { id: userId } });
-
-      return { success: true };
-    } catch (error) {
-      console.error('Error deleting profile for user', userId, error);
-      throw new BadRequestException(
-        `Failed to delete profile: ${error.message}`,
-      );
-    }
+  private toJson(value: unknown) {
+    return value === null || value === undefined
+      ? Prisma.DbNull
+      : (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue);
   }
 }
@@ -0,0 +1,73 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QuestionScaleDto {
+  @IsInt()
+  min: number;
+
+  @IsInt()
+  max: number;
+}
+
+export class QuestionnaireQuestionDto {
+  @IsInt()
+  step: number;
+
+  @Matches(/^[a-z][a-z0-9-]*$/)
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  prompt: string;
+
+  @ValidateNested()
+  @Type(() => QuestionScaleDto)
+  scale: QuestionScaleDto;
+
+  @IsOptional()
+  @IsObject()
+  labels?: Record<string, string>;
+
+  @IsOptional()
+  @IsString()
+  freeTextPrompt?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean = true;
+
+  @IsOptional()
+  @IsBoolean()
+  scored?: boolean = true;
+}
+
+// ✅ BODY DTO - Publishes a new version of a questionnaire
+export class CreateQuestionnaireDto {
+  @IsOptional()
+  @Matches(/^[a-z][a-z0-9-]*$/)
+  key?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuestionnaireQuestionDto)
+  questions: QuestionnaireQuestionDto[];
+
+  // Make this version the one new check-ins use
+  @IsOptional()
+  @IsBoolean()
+  activate?: boolean;
+}
@@ -0,0 +1,28 @@
+import type { QuestionnaireTemplate } from '../questionnaire.types';
+
+const LABELS = { 1: 'Heavy', 2: 'Low', 3: 'Even', 4: 'Calm', 5: 'Hopeful' };
+
+// Matches the version 1 template seeded by the questionnaire migration
+export const DAILY_CHECK_IN_V1: QuestionnaireTemplate = {
+  id: 'daily-check-in-v1',
+  key: 'daily-check-in',
+  version: 1,
+  name: 'Daily check-in',
+  isActive: true,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  questions: [
+    ['emotional', 'How are you feeling emotionally right now?'],
+    ['stress', 'How much stress or worry did you feel today?'],
+    ['energy', 'How was your energy or motivation today?'],
+    ['connection', 'How connected did you feel to others today?'],
+    ['control', 'How in control did you feel today?'],
+  ].map(([key, prompt], index) => ({
+    step: index + 1,
+    key,
+    prompt,
+    scale: { min: 1, max: 5 },
+    labels: LABELS,
+    required: true,
+    scored: true,
+  })),
+};
@@ -0,0 +1,43 @@
+// The questionnaire the daily check-in answers
+export const DEFAULT_QUESTIONNAIRE_KEY = 'daily-check-in';
+
+export interface QuestionnaireQuestion {
+  // Answers reference questions by step number within a template version
+  step: number;
+  // Stable across versions, used to line up answers in analytics
+  key: string;
+  prompt: string;
+  scale: { min: number; max: number };
+  // Label per scale value, e.g. { "1": "Heavy", "5": "Hopeful" }
+  labels?: Record<string, string>;
+  // Shown under the scale to invite an optional note
+  freeTextPrompt?: string;
+  required: boolean;
+  // Whether the answer counts towards overallMood
+  scored: boolean;
+}
+
+export interface QuestionnaireTemplate {
+  id: string;
+  key: string;
+  version: number;
+  name: string;
+  isActive: boolean;
+  questions: QuestionnaireQuestion[];
+  createdAt: Date;
+}
+
+export interface CheckInAnswer {
+  step: number;
+  mood: number;
+  notes?: string;
+}
+
+export interface DescribedAnswer {
+  key: string;
+  prompt: string;
+  value: number;
+  max: number;
+  label?: string;
+  notes?: string;
+}
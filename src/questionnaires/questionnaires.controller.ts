@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard, Roles } from '@thallesp/nestjs-better-auth';
+import { QuestionnairesService } from './questionnaires.service';
+import { CreateQuestionnaireDto } from './dto/create-questionnaire.dto';
+import { validateBody } from '../common/validate-body';
+
+@Controller('questionnaires')
+@UseGuards(AuthGuard)
+export class QuestionnairesController {
+  constructor(private readonly questionnairesService: QuestionnairesService) {}
+
+  /**
+   * GET /questionnaires/active
+   * The questions the app should show for today's check-in
+   */
+  @Get('active')
+  async getActiveQuestionnaire(@Query('key') key?: string) {
+    const template = await this.questionnairesService.getActiveTemplate(key);
+    return {
+      data: template,
+    };
+  }
+
+  /**
+   * GET /questionnaires?key=daily-check-in
+   * Every published version, newest first
+   */
+  @Get()
+  @Roles(['admin', 'superadmin'])
+  async listQuestionnaires(@Query('key') key?: string) {
+    const templates = await this.questionnairesService.listTemplates(key);
+    return {
+      data: templates,
+      count: templates.length,
+    };
+  }
+
+  /**
+   * POST /questionnaires
+   * Publish a new version
+   */
+  @Post()
+  @Roles(['admin', 'superadmin'])
+  async createQuestionnaire(@Body() body: unknown) {
+    const dto = await validateBody(CreateQuestionnaireDto, body);
+    const template = await this.questionnairesService.createVersion(dto);
+    return {
+      message: `Questionnaire version ${template.version} created`,
+      data: template,
+    };
+  }
+
+  /**
+   * PATCH /questionnaires/:id/activate
+   * Switch new check-ins over to this version
+   */
+  @Patch(':id/activate')
+  @Roles(['admin', 'superadmin'])
+  async activateQuestionnaire(@Param('id') id: string) {
+    const template = await this.questionnairesService.activateTemplate(id);
+    return {
+      message: `Questionnaire version ${template.version} is now active`,
+      data: template,
+    };
+  }
+}
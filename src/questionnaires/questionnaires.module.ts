@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { QuestionnairesController } from './questionnaires.controller';
+import { QuestionnairesService } from './questionnaires.service';
+
+@Module({
+  controllers: [QuestionnairesController],
+  providers: [QuestionnairesService],
+  exports: [QuestionnairesService],
+})
+export class QuestionnairesModule {}
@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { QuestionnairesService } from './questionnaires.service';
+import { PrismaService } from '../database/database.service';
+import { DAILY_CHECK_IN_V1 } from './fixtures/daily-check-in.fixture';
+import type { QuestionnaireTemplate } from './questionnaire.types';
+
+// v1 plus an optional 0-10 sleep question
+const WITH_SLEEP: QuestionnaireTemplate = {
+  ...DAILY_CHECK_IN_V1,
+  id: 'daily-check-in-v2',
+  version: 2,
+  questions: [
+    ...DAILY_CHECK_IN_V1.questions,
+    {
+      step: 6,
+      key: 'sleep',
+      prompt: 'How well did you sleep?',
+      scale: { min: 0, max: 10 },
+      required: false,
+      scored: true,
+    },
+  ],
+};
+
+const answers = (moods: number[]) =>
+  moods.map((mood, index) => ({ step: index + 1, mood }));
+
+describe('QuestionnairesService', () => {
+  let service: QuestionnairesService;
+  const prisma = {
+    questionnaireTemplate: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionnairesService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<QuestionnairesService>(QuestionnairesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('validateAnswers', () => {
+    it('accepts every required step answered once', () => {
+      expect(() =>
+        service.validateAnswers(DAILY_CHECK_IN_V1, answers([1, 2, 3, 4, 5])),
+      ).not.toThrow();
+    });
+
+    it('allows optional questions to be skipped', () => {
+      expect(() =>
+        service.validateAnswers(WITH_SLEEP, answers([1, 2, 3, 4, 5])),
+      ).not.toThrow();
+    });
+
+    it.each([
+      ['a missing step', answers([1, 2, 3, 4])],
+      ['a duplicate step', [...answers([1, 2, 3, 4, 5]), { step: 1, mood: 3 }]],
+      ['an unknown step', [...answers([1, 2, 3, 4, 5]), { step: 9, mood: 3 }]],
+      ['a value off the scale', answers([1, 2, 3, 4, 6])],
+    ])('rejects %s', (_case, given) => {
+      expect(() => service.validateAnswers(DAILY_CHECK_IN_V1, given)).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('scoreOverallMood', () => {
+    it('averages scored answers', () => {
+      expect(
+        service.scoreOverallMood(DAILY_CHECK_IN_V1, answers([1, 2, 3, 4, 5])),
+      ).toBe(3);
+    });
+
+    it('rescales other scales onto 1-5', () => {
+      // Five 2s plus a perfect 10/10 sleep (= 5) averages 2.5
+      expect(
+        service.scoreOverallMood(WITH_SLEEP, answers([2, 2, 2, 2, 2, 10])),
+      ).toBe(3);
+    });
+  });
+
+  it('describes answers with their prompt and label', () => {
+    expect(
+      service.describeAnswers(DAILY_CHECK_IN_V1, [
+        { step: 2, mood: 4, notes: 'busy day' },
+      ]),
+    ).toEqual([
+      {
+        key: 'stress',
+        prompt: 'How much stress or worry did you feel today?',
+        value: 4,
+        max: 5,
+        label: 'Calm',
+        notes: 'busy day',
+      },
+    ]);
+  });
+
+  it('turns an unknown template id into a bad request', async () => {
+    prisma.questionnaireTemplate.findUnique.mockResolvedValue(null);
+
+    await expect(service.resolveTemplate('missing')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('publishes the next version and can make it active', async () => {
+    prisma.questionnaireTemplate.findFirst.mockResolvedValue({ version: 1 });
+    prisma.questionnaireTemplate.create.mockImplementation(
+      ({ data }: { data: object }) => ({ id: 'new', ...data }),
+    );
+
+    const template = await service.createVersion({
+      name: 'Daily check-in',
+      questions: WITH_SLEEP.questions,
+      activate: true,
+    });
+
+    expect(template).toMatchObject({ version: 2, isActive: true });
+    expect(prisma.questionnaireTemplate.updateMany).toHaveBeenCalledWith({
+      where: { key: 'daily-check-in', isActive: true },
+      data: { isActive: false },
+    });
+  });
+
+  it('rejects questions with the wrong shape', async () => {
+    const [first] = WITH_SLEEP.questions;
+    const malformed = [
+      { ...first, step: 1.5 },
+      { ...first, prompt: 42 },
+      { ...first, scale: { min: '1', max: 5 } },
+    ];
+
+    for (const question of malformed) {
+      await expect(
+        service.createVersion({
+          name: 'Daily check-in',
+          questions: [question] as never,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    }
+    expect(prisma.questionnaireTemplate.create).not.toHaveBeenCalled();
+  });
+});
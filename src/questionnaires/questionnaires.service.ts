@@ -0,0 +1,317 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../database/database.service';
+import { Prisma } from '../../generated/prisma';
+import {
+  CheckInAnswer,
+  DEFAULT_QUESTIONNAIRE_KEY,
+  DescribedAnswer,
+  QuestionnaireQuestion,
+  QuestionnaireTemplate,
+} from './questionnaire.types';
+import { CreateQuestionnaireDto } from './dto/create-questionnaire.dto';
+
+// overallMood stays on the original 1-5 scale whatever the question scales are
+const MOOD_SCALE = { min: 1, max: 5 };
+
+@Injectable()
+export class QuestionnairesService {
+  // Questions never change once a version is published, so templates are
+  // cached by id. isActive on a cached copy can lag - use getActiveTemplate.
+  private templateCache = new Map<string, QuestionnaireTemplate>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * The version new check-ins should answer
+   */
+  async getActiveTemplate(
+    key = DEFAULT_QUESTIONNAIRE_KEY,
+  ): Promise<QuestionnaireTemplate> {
+    const template = await this.prisma.questionnaireTemplate.findFirst({
+      where: { key, isActive: true },
+      orderBy: { version: 'desc' },
+    });
+
+    if (!template) {
+      throw new NotFoundException(`No active questionnaire for ${key}`);
+    }
+
+    return this.toTemplate(template);
+  }
+
+  async getTemplate(id: string): Promise<QuestionnaireTemplate> {
+    const cached = this.templateCache.get(id);
+    if (cached) return cached;
+
+    const template = await this.prisma.questionnaireTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Questionnaire ${id} not found`);
+    }
+
+    return this.toTemplate(template);
+  }
+
+  /**
+   * Template a check-in answers: the one the client named, else the active
+   * one. Older clients may keep submitting against a previous version.
+   */
+  async resolveTemplate(templateId?: string | null) {
+    if (!templateId) {
+      return this.getActiveTemplate();
+    }
+
+    try {
+      return await this.getTemplate(templateId);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw new BadRequestException(`Unknown questionnaire: ${templateId}`);
+      }
+      throw error;
+    }
+  }
+
+  async listTemplates(key = DEFAULT_QUESTIONNAIRE_KEY) {
+    const templates = await this.prisma.questionnaireTemplate.findMany({
+      where: { key },
+      orderBy: { version: 'desc' },
+    });
+    return templates.map((template) => this.toTemplate(template));
+  }
+
+  /**
+   * Publish the next version of a questionnaire. Existing check-ins keep
+   * pointing at the version they answered.
+   */
+  async createVersion(
+    dto: CreateQuestionnaireDto,
+  ): Promise<QuestionnaireTemplate> {
+    const key = dto.key ?? DEFAULT_QUESTIONNAIRE_KEY;
+    const questions = this.validateQuestions(dto.questions);
+
+    const template = await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.questionnaireTemplate.findFirst({
+        where: { key },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      if (dto.activate) {
+        await tx.questionnaireTemplate.updateMany({
+          where: { key, isActive: true },
+          data: { isActive: false },
+        });
+      }
+
+      return tx.questionnaireTemplate.create({
+        data: {
+          key,
+          version: (latest?.version ?? 0) + 1,
+          name: dto.name,
+          isActive: dto.activate ?? false,
+          questions: questions as unknown as Prisma.JsonArray,
+        },
+      });
+    });
+
+    return this.toTemplate(template);
+  }
+
+  async activateTemplate(id: string): Promise<QuestionnaireTemplate> {
+    const template = await this.getTemplate(id);
+
+    await this.prisma.$transaction([
+      this.prisma.questionnaireTemplate.updateMany({
+        where: { key: template.key, isActive: true },
+        data: { isActive: false },
+      }),
+      this.prisma.questionnaireTemplate.update({
+        where: { id },
+        data: { isActive: true },
+      }),
+    ]);
+
+    return { ...template, isActive: true };
+  }
+
+  /**
+   * Throws BadRequestException unless every required question is answered
+   * once, within its scale, and nothing else is answered
+   */
+  validateAnswers(template: QuestionnaireTemplate, answers: CheckInAnswer[]) {
+    if (!Array.isArray(answers) || answers.length === 0) {
+      throw new BadRequestException('Check-in must include at least one step');
+    }
+
+    const questions = new Map(template.questions.map((q) => [q.step, q]));
+    const seen = new Set<number>();
+
+    for (const answer of answers) {
+      const question = questions.get(answer.step);
+      if (!question) {
+        throw new BadRequestException(
+          `Step ${answer.step} is not part of this questionnaire`,
+        );
+      }
+      if (seen.has(answer.step)) {
+        throw new BadRequestException(
+          `Step ${answer.step} was answered more than once`,
+        );
+      }
+      seen.add(answer.step);
+
+      const { min, max } = question.scale;
+      if (
+        !Number.isInteger(answer.mood) ||
+        answer.mood < min ||
+        answer.mood > max
+      ) {
+        throw new BadRequestException(
+          `Step ${answer.step} must be a whole number from ${min} to ${max}`,
+        );
+      }
+    }
+
+    const missing = template.questions
+      .filter((q) => q.required && !seen.has(q.step))
+      .map((q) => q.step);
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Check-in is missing step(s) ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Average of the scored answers, each rescaled onto 1-5
+   */
+  scoreOverallMood(
+    template: QuestionnaireTemplate,
+    answers: CheckInAnswer[],
+  ): number {
+    const questions = new Map(template.questions.map((q) => [q.step, q]));
+    const scores = answers.flatMap((answer) => {
+      const question = questions.get(answer.step);
+      if (!question?.scored) return [];
+
+      const { min, max } = question.scale;
+      const ratio = max === min ? 1 : (answer.mood - min) / (max - min);
+      return [MOOD_SCALE.min + ratio * (MOOD_SCALE.max - MOOD_SCALE.min)];
+    });
+
+    if (scores.length === 0) {
+      throw new BadRequestException('Check-in must include a scored step');
+    }
+
+    const average = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+    return Math.round(average);
+  }
+
+  /**
+   * Pair each answer with its question, for display and the chat context
+   */
+  describeAnswers(
+    template: QuestionnaireTemplate,
+    answers: CheckInAnswer[],
+  ): DescribedAnswer[] {
+    const questions = new Map(template.questions.map((q) => [q.step, q]));
+
+    return answers.flatMap((answer) => {
+      const question = questions.get(answer.step);
+      if (!question) return [];
+
+      return [
+        {
+          key: question.key,
+          prompt: question.prompt,
+          value: answer.mood,
+          max: question.scale.max,
+          label: question.labels?.[String(answer.mood)],
+          notes: answer.notes || undefined,
+        },
+      ];
+    });
+  }
+
+  private validateQuestions(
+    questions: CreateQuestionnaireDto['questions'],
+  ): QuestionnaireQuestion[] {
+    if (!Array.isArray(questions) || questions.length === 0) {
+      throw new BadRequestException(
+        'A questionnaire needs at least one question',
+      );
+    }
+
+    // Templates can also arrive from seeds and scripts, so don't trust the shape
+    for (const q of questions) {
+      if (!Number.isInteger(q.step)) {
+        throw new BadRequestException('Question steps must be whole numbers');
+      }
+      if (typeof q.key !== 'string' || q.key.length === 0) {
+        throw new BadRequestException(`Question ${q.step} needs a key`);
+      }
+      if (typeof q.prompt !== 'string' || q.prompt.trim().length === 0) {
+        throw new BadRequestException(`Question ${q.key} needs a prompt`);
+      }
+    }
+
+    const steps = new Set(questions.map((q) => q.step));
+    const keys = new Set(questions.map((q) => q.key));
+    if (steps.size !== questions.length || keys.size !== questions.length) {
+      throw new BadRequestException('Question steps and keys must be unique');
+    }
+
+    const normalized = questions.map((q) => {
+      if (
+        !q.scale ||
+        !Number.isFinite(q.scale.min) ||
+        !Number.isFinite(q.scale.max) ||
+        q.scale.min >= q.scale.max
+      ) {
+        throw new BadRequestException(
+          `Question ${q.key} needs a scale with min below max`,
+        );
+      }
+
+      return {
+        step: q.step,
+        key: q.key,
+        prompt: q.prompt,
+        scale: { min: q.scale.min, max: q.scale.max },
+        labels: q.labels,
+        freeTextPrompt: q.freeTextPrompt,
+        required: q.required ?? true,
+        scored: q.scored ?? true,
+      };
+    });
+
+    if (!normalized.some((q) => q.scored)) {
+      throw new BadRequestException('At least one question must be scored');
+    }
+
+    return normalized.sort((a, b) => a.step - b.step);
+  }
+
+  private toTemplate(template: {
+    id: string;
+    key: string;
+    version: number;
+    name: string;
+    isActive: boolean;
+    questions: Prisma.JsonValue;
+    createdAt: Date;
+  }): QuestionnaireTemplate {
+    const mapped = {
+      ...template,
+      questions: template.questions as unknown as QuestionnaireQuestion[],
+    };
+    this.templateCache.set(template.id, mapped);
+    return mapped;
+  }
+}
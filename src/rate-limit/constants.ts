@@ -0,0 +1,17 @@
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Sliding-window limits per event type.
+ * Override with RATE_LIMITS='{"chat:sendMessage":{"limit":20,"windowMs":60000}}'
+ */
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimitRule> = {
+  'chat:sendMessage': { limit: 10, windowMs: 60 * 1000 },
+  'check-in:create': { limit: 5, windowMs: 60 * 1000 },
+  'profile:avatar': { limit: 5, windowMs: 10 * 60 * 1000 },
+  'profile:export': { limit: 3, windowMs: 24 * 60 * 60 * 1000 },
+};
+
+export const RATE_LIMIT_KEY = 'RATE_LIMIT';
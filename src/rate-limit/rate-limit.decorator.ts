@@ -0,0 +1,12 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { RATE_LIMIT_KEY } from './constants';
+import { RateLimitGuard } from './rate-limit.guard';
+
+/**
+ * Apply a named rule from DEFAULT_RATE_LIMITS to a REST route
+ */
+export const RateLimit = (ruleName: string) =>
+  applyDecorators(
+    SetMetadata(RATE_LIMIT_KEY, ruleName),
+    UseGuards(RateLimitGuard),
+  );
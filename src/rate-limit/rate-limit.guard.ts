@@ -0,0 +1,53 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { RateLimitService } from './rate-limit.service';
+import { RATE_LIMIT_KEY } from './constants';
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const ruleName = this.reflector.getAllAndOverride<string | undefined>(
+      RATE_LIMIT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!ruleName) return true;
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { user?: { id: string } }>();
+    const response = http.getResponse<Response>();
+
+    // AuthGuard runs first, so signed-in requests are limited per user
+    const subject = request.user?.id ?? `ip:${request.ip}`;
+    const result = await this.rateLimitService.consume(ruleName, subject);
+
+    response.setHeader('X-RateLimit-Limit', result.limit);
+    response.setHeader('X-RateLimit-Remaining', result.remaining);
+
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+      response.setHeader('Retry-After', retryAfterSeconds);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many requests. Please wait a moment.',
+          retryAfter: retryAfterSeconds,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return true;
+  }
+}
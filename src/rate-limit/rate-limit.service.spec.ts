@@ -0,0 +1,78 @@
+import { RateLimitService } from './rate-limit.service';
+
+describe('RateLimitService (in-memory fallback)', () => {
+  let service: RateLimitService;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+    delete process.env.REDIS_URL;
+    process.env.RATE_LIMITS = JSON.stringify({
+      test: { limit: 3, windowMs: 60_000 },
+    });
+    service = new RateLimitService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.env = { ...originalEnv };
+  });
+
+  it('allows hits up to the limit and reports remaining', async () => {
+    const results = [
+      await service.consume('test', 'user-1'),
+      await service.consume('test', 'user-1'),
+      await service.consume('test', 'user-1'),
+    ];
+
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true]);
+    expect(results.map((r) => r.remaining)).toEqual([2, 1, 0]);
+  });
+
+  it('blocks once the window is full and says when to retry', async () => {
+    await service.consume('test', 'user-1');
+    jest.advanceTimersByTime(20_000);
+    await service.consume('test', 'user-1');
+    await service.consume('test', 'user-1');
+
+    const blocked = await service.consume('test', 'user-1');
+
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterMs).toBe(40_000);
+  });
+
+  it('slides the window rather than resetting it', async () => {
+    await service.consume('test', 'user-1');
+    jest.advanceTimersByTime(30_000);
+    await service.consume('test', 'user-1');
+    await service.consume('test', 'user-1');
+
+    jest.advanceTimersByTime(30_001);
+
+    // Only the first hit has aged out
+    expect((await service.consume('test', 'user-1')).allowed).toBe(true);
+    expect((await service.consume('test', 'user-1')).allowed).toBe(false);
+  });
+
+  it('tracks subjects independently', async () => {
+    for (let i = 0; i < 3; i++) {
+      await service.consume('test', 'user-1');
+    }
+
+    expect((await service.consume('test', 'user-1')).allowed).toBe(false);
+    expect((await service.consume('test', 'user-2')).allowed).toBe(true);
+  });
+
+  it('keeps the default rules alongside overrides', async () => {
+    const result = await service.consume('chat:sendMessage', 'user-1');
+
+    expect(result).toMatchObject({ allowed: true, limit: 10 });
+  });
+
+  it('rejects unknown rule names', async () => {
+    await expect(service.consume('nope', 'user-1')).rejects.toThrow(
+      'Unknown rate limit rule',
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { createClient } from 'redis';
+import { DEFAULT_RATE_LIMITS, RateLimitRule } from './constants';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// Trims the window, then records the hit only if there's room. Atomic per key.
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  redis.call('PEXPIRE', key, window)
+  return {1, count + 1, 0}
+end
+
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {0, count, tonumber(oldest[2]) + window - now}
+`;
+
+// How often the in-memory fallback drops keys with no recent hits
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class RateLimitService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly rules: Record<string, RateLimitRule>;
+  private redis: ReturnType<typeof createClient> | null = null;
+  private memoryHits = new Map<string, { hits: number[]; windowMs: number }>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor() {
+    this.rules = {
+      ...DEFAULT_RATE_LIMITS,
+      ...this.parseRules(process.env.RATE_LIMITS),
+    };
+  }
+
+  async onModuleInit() {
+    this.sweepTimer = setInterval(
+      () => this.sweepMemory(),
+      MEMORY_SWEEP_INTERVAL_MS,
+    );
+    this.sweepTimer.unref();
+
+    const redisUrl = process.env.REDIS_URL;
+    if (!redisUrl) {
+      this.logger.warn('No REDIS_URL found - rate limits are per instance');
+      return;
+    }
+
+    try {
+      const client = createClient({ url: redisUrl });
+      client.on('error', (error: Error) =>
+        this.logger.error(`Redis rate limiter error: ${error.message}`),
+      );
+      await client.connect();
+      this.redis = client;
+      this.logger.log('Rate limiter connected to Redis');
+    } catch (error) {
+      this.logger.error(
+        `Failed to connect rate limiter to Redis, using memory: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+    if (this.redis) {
+      await this.redis.quit();
+    }
+  }
+
+  /**
+   * Record one hit for `subject` against the named rule
+   */
+  async consume(ruleName: string, subject: string): Promise<RateLimitResult> {
+    const rule = this.rules[ruleName];
+    if (!rule) {
+      throw new Error(`Unknown rate limit rule: ${ruleName}`);
+    }
+
+    const key = `rate-limit:${ruleName}:${subject}`;
+
+    if (this.redis?.isReady) {
+      try {
+        return await this.consumeRedis(key, rule);
+      } catch (error) {
+        this.logger.warn(
+          `Redis rate limit check failed, using memory: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return this.consumeMemory(key, rule);
+  }
+
+  private async consumeRedis(
+    key: string,
+    rule: RateLimitRule,
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+    const [allowed, count, retryAfterMs] = (await this.redis!.eval(
+      SLIDING_WINDOW_SCRIPT,
+      {
+        keys: [key],
+        arguments: [
+          String(now),
+          String(rule.windowMs),
+          String(rule.limit),
+          `${now}-${randomUUID()}`,
+        ],
+      },
+    )) as [number, number, number];
+
+    return {
+      allowed: allowed === 1,
+      limit: rule.limit,
+      remaining: Math.max(rule.limit - count, 0),
+      retryAfterMs: Math.max(retryAfterMs, 0),
+    };
+  }
+
+  private consumeMemory(key: string, rule: RateLimitRule): RateLimitResult {
+    const now = Date.now();
+    const entry = this.memoryHits.get(key) ?? {
+      hits: [],
+      windowMs: rule.windowMs,
+    };
+    entry.hits = entry.hits.filter((hit) => hit > now - rule.windowMs);
+
+    if (entry.hits.length >= rule.limit) {
+      this.memoryHits.set(key, entry);
+      return {
+        allowed: false,
+        limit: rule.limit,
+        remaining: 0,
+        retryAfterMs: entry.hits[0] + rule.windowMs - now,
+      };
+    }
+
+    entry.hits.push(now);
+    this.memoryHits.set(key, entry);
+
+    return {
+      allowed: true,
+      limit: rule.limit,
+      remaining: rule.limit - entry.hits.length,
+      retryAfterMs: 0,
+    };
+  }
+
+  private sweepMemory() {
+    const now = Date.now();
+    for (const [key, entry] of this.memoryHits) {
+      const newest = entry.hits[entry.hits.length - 1];
+      if (newest === undefined || newest <= now - entry.windowMs) {
+        this.memoryHits.delete(key);
+      }
+    }
+  }
+
+  private parseRules(raw?: string): Record<string, RateLimitRule> {
+    if (!raw) return {};
+
+    try {
+      return JSON.parse(raw) as Record<string, RateLimitRule>;
+    } catch {
+      this.logger.error('RATE_LIMITS is not valid JSON - using defaults');
+      return {};
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import type { RiskLevel } from '../../generated/prisma';
+
+export interface RiskRule {
+  id: string;
+  pattern: RegExp;
+  level: RiskLevel;
+}
+
+export interface CrisisResource {
+  name: string;
+  phone?: string;
+  text?: string;
+  url?: string;
+}
+
+export const RISK_LEVEL_SCORES: Record<RiskLevel, number> = {
+  NONE: 0,
+  LOW: 0.3,
+  MEDIUM: 0.6,
+  HIGH: 1,
+};
+
+/**
+ * Default keyword/regex rules. Extend or override them by id with a JSON
+ * file at SAFETY_RULES_FILE: [{ "id", "pattern", "flags"?, "level" }]
+ */
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  // Explicit intent or plan
+  {
+    id: 'kill-myself',
+    pattern: /\b(kill|end)\s+(myself|my\s+(own\s+)?life)\b/i,
+    level: 'HIGH',
+  },
+  {
+    id: 'suicidal',
+    pattern:
+      /\b(suicidal|commit(ting)?\s+suicide|(thinking|thought)s?\s+(about|of)\s+suicide)\b/i,
+    level: 'HIGH',
+  },
+  { id: 'want-to-die', pattern: /\bwant(ed)?\s+to\s+die\b/i, level: 'HIGH' },
+  {
+    id: 'better-off-dead',
+    pattern: /\b(better\s+off\s+dead|better\s+off\s+without\s+me)\b/i,
+    level: 'HIGH',
+  },
+  {
+    id: 'no-reason-to-live',
+    pattern: /\bno\s+(reason|point)\s+(to|in)\s+living?\b/i,
+    level: 'HIGH',
+  },
+  // Overdose and jumping need first-person intent - "my sister had an
+  // overdose" is not a plan
+  {
+    id: 'method',
+    pattern:
+      /\b(hang(ing)?\s+myself|take\s+all\s+(my|of\s+my)\s+pills|i('?ll|\s+will|'?m\s+(going\s+to|gonna|planning\s+(to|on))|\s+am\s+(going\s+to|planning\s+(to|on))|\s+(want|plan|need)\s+to)\s+(overdose|overdosing|take\s+all\s+the\s+pills|jump\s+off))\b/i,
+    level: 'HIGH',
+  },
+  {
+    id: 'goodbye',
+    pattern:
+      /\b(this\s+is\s+goodbye|saying\s+my\s+goodbyes|final\s+goodbye)\b/i,
+    level: 'HIGH',
+  },
+
+  // Self-harm or passive ideation
+  { id: 'self-harm', pattern: /\bself[-\s]?harm(ing)?\b/i, level: 'MEDIUM' },
+  {
+    id: 'hurt-myself',
+    pattern: /\b(cut(ting)?|hurt(ing)?|burn(ing)?)\s+myself\b/i,
+    level: 'MEDIUM',
+  },
+  {
+    id: 'not-be-here',
+    pattern:
+      /\b(don'?t|do\s+not)\s+want\s+to\s+(be\s+here|wake\s+up|exist|live)(\s+anymore)?\b/i,
+    level: 'MEDIUM',
+  },
+  { id: 'cant-go-on', pattern: /\bcan'?t\s+go\s+on\b/i, level: 'MEDIUM' },
+  // Bare mentions are often about a loss, not intent
+  { id: 'suicide-mention', pattern: /\bsuicide\b/i, level: 'MEDIUM' },
+
+  // Distress markers
+  {
+    id: 'hopeless',
+    pattern: /\b(hopeless|worthless|no\s+way\s+out)\b/i,
+    level: 'LOW',
+  },
+  { id: 'burden', pattern: /\b(i'?m|i\s+am)\s+a\s+burden\b/i, level: 'LOW' },
+];
+
+/**
+ * Rules for scoring assistant replies. A supportive reply talks about
+ * suicide and crisis lines all the time, so the user-message rules would
+ * flag nearly every one; these only look for the assistant encouraging
+ * harm or handing out means.
+ */
+export const REPLY_RISK_RULES: RiskRule[] = [
+  {
+    id: 'reply-encourages-harm',
+    pattern:
+      /\byou\s+(should|could|might\s+as\s+well)\s+(just\s+)?(kill|hurt|harm|cut)\s+yourself\b/i,
+    level: 'HIGH',
+  },
+  {
+    id: 'reply-better-off-dead',
+    pattern:
+      /\b(you('?d|\s+would)\s+be|you'?re|everyone\s+would\s+be)\s+better\s+off\s+(dead|without\s+you)\b/i,
+    level: 'HIGH',
+  },
+  {
+    id: 'reply-method',
+    pattern:
+      /\b((lethal|fatal)\s+(dose|amount)|(painless|easiest|quickest|surest)\s+way\s+to\s+(die|end\s+(it|your\s+life)|kill\s+yourself))\b/i,
+    level: 'HIGH',
+  },
+  {
+    id: 'reply-dismissive',
+    pattern:
+      /\b(no\s+one\s+would\s+(care|notice)|there'?s\s+no\s+(hope|point)\s+for\s+you)\b/i,
+    level: 'MEDIUM',
+  },
+];
+
+/**
+ * Crisis lines by ISO country code. DEFAULT is used for unknown regions.
+ */
+export const CRISIS_RESOURCES: Record<string, CrisisResource[]> = {
+  US: [
+    {
+      name: '988 Suicide & Crisis Lifeline',
+      phone: '988',
+      text: '988',
+      url: 'https://988lifeline.org',
+    },
+    { name: 'Crisis Text Line', text: 'Text HOME to 741741' },
+    { name: 'Emergency services', phone: '911' },
+  ],
+  CA: [
+    {
+      name: '9-8-8 Suicide Crisis Helpline',
+      phone: '988',
+      text: '988',
+      url: 'https://988.ca',
+    },
+    { name: 'Emergency services', phone: '911' },
+  ],
+  GB: [
+    {
+      name: 'Samaritans',
+      phone: '116 123',
+      url: 'https://www.samaritans.org',
+    },
+    { name: 'Shout', text: 'Text SHOUT to 85258' },
+    { name: 'Emergency services', phone: '999' },
+  ],
+  IE: [
+    {
+      name: 'Samaritans',
+      phone: '116 123',
+      url: 'https://www.samaritans.org',
+    },
+    { name: 'Emergency services', phone: '112' },
+  ],
+  AU: [
+    { name: 'Lifeline', phone: '13 11 14', url: 'https://www.lifeline.org.au' },
+    { name: 'Emergency services', phone: '000' },
+  ],
+  NZ: [
+    { name: 'Need to talk?', phone: '1737', text: '1737' },
+    { name: 'Emergency services', phone: '111' },
+  ],
+  DEFAULT: [
+    {
+      name: 'Find a Helpline',
+      url: 'https://findahelpline.com',
+    },
+    { name: 'Emergency services', phone: 'Your local emergency number' },
+  ],
+};
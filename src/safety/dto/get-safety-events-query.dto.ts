@@ -0,0 +1,20 @@
+import { IsOptional, IsInt, IsIn, IsString, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import type { SafetyEventStatus } from '../../../generated/prisma';
+
+export class GetSafetyEventsQueryDto {
+  @IsOptional()
+  @IsIn(['OPEN', 'ACKNOWLEDGED', 'RESOLVED'])
+  status?: SafetyEventStatus;
+
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
@@ -0,0 +1,12 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import type { SafetyEventStatus } from '../../../generated/prisma';
+
+export class UpdateSafetyEventDto {
+  @IsIn(['OPEN', 'ACKNOWLEDGED', 'RESOLVED'])
+  status: SafetyEventStatus;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
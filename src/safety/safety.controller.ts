@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  AuthGuard,
+  Roles,
+  Session,
+  type UserSession,
+} from '@thallesp/nestjs-better-auth';
+import { validateBody } from '../common/validate-body';
+import { SafetyService } from './safety.service';
+import { GetSafetyEventsQueryDto } from './dto/get-safety-events-query.dto';
+import { UpdateSafetyEventDto } from './dto/update-safety-event.dto';
+
+@Controller('safety')
+@UseGuards(AuthGuard)
+@Roles(['admin', 'superadmin'])
+export class SafetyController {
+  constructor(private readonly safetyService: SafetyService) {}
+
+  /**
+   * GET /safety/events?status=OPEN
+   * Admin queue of high-risk safety events
+   */
+  @Get('events')
+  async getEvents(@Query() query: unknown) {
+    const dto = await validateBody(GetSafetyEventsQueryDto, query);
+    const events = await this.safetyService.getEvents(dto);
+    return {
+      data: events,
+      count: events.length,
+    };
+  }
+
+  /**
+   * PATCH /safety/events/:id
+   * Acknowledge or resolve a safety event
+   */
+  @Patch('events/:id')
+  async updateEvent(
+    @Session() session: UserSession,
+    @Param('id') eventId: string,
+    @Body() body: unknown,
+  ) {
+    const dto = await validateBody(UpdateSafetyEventDto, body);
+    const event = await this.safetyService.updateEvent(
+      eventId,
+      session.user.id,
+      dto,
+    );
+    return {
+      data: event,
+      message: 'Safety event updated successfully',
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SafetyController } from './safety.controller';
+import { SafetyService } from './safety.service';
+import { UsageModule } from '../usage/usage.module';
+
+@Module({
+  imports: [UsageModule],
+  controllers: [SafetyController],
+  providers: [SafetyService],
+  exports: [SafetyService],
+})
+export class SafetyModule {}
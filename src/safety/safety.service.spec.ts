@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SafetyService } from './safety.service';
+import { PrismaService } from '../database/database.service';
+import { UsageService } from '../usage/usage.service';
+
+describe('SafetyService', () => {
+  let service: SafetyService;
+  const usageService = { recordUsage: jest.fn() };
+  const prisma = { safetyEvent: { create: jest.fn() } };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SafetyService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: UsageService, useValue: usageService },
+      ],
+    }).compile();
+
+    return module.get<SafetyService>(SafetyService);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    service = await createService();
+  });
+
+  afterEach(() => {
+    delete process.env.SAFETY_CLASSIFIER_ENABLED;
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('flags explicit intent as high risk', async () => {
+    const result = await service.assess(
+      'user-1',
+      "I think I'm going to kill myself tonight",
+    );
+
+    expect(result.riskLevel).toBe('HIGH');
+    expect(result.matchedRules).toContain('kill-myself');
+  });
+
+  it('does not escalate a mention of a past loss to high risk', async () => {
+    const result = await service.assess(
+      'user-1',
+      'My brother died by suicide three years ago today',
+    );
+
+    expect(result.riskLevel).toBe('MEDIUM');
+  });
+
+  it('needs first-person intent before an overdose is high risk', async () => {
+    const sister = await service.assess(
+      'user-1',
+      'My sister had an overdose last year',
+    );
+    const intent = await service.assess(
+      'user-1',
+      "I'm going to overdose on my meds",
+    );
+
+    expect(sister.riskLevel).toBe('NONE');
+    expect(intent.matchedRules).toContain('method');
+  });
+
+  it('does not flag a reply for pointing to crisis lines', () => {
+    const result = service.assessReply(
+      "If you're having thoughts of suicide, please call or text 988. You don't have to go through this alone.",
+    );
+
+    expect(result).toMatchObject({ riskLevel: 'NONE', matchedRules: [] });
+  });
+
+  it('flags a reply that encourages harm', () => {
+    const result = service.assessReply('Honestly you would be better off dead');
+
+    expect(result.riskLevel).toBe('HIGH');
+    expect(result.matchedRules).toEqual(['reply-better-off-dead']);
+  });
+
+  it('scores ordinary messages as no risk', async () => {
+    const result = await service.assess(
+      'user-1',
+      'Work was stressful but I got through it',
+    );
+
+    expect(result).toMatchObject({ riskLevel: 'NONE', matchedRules: [] });
+  });
+
+  it('bills classifier tokens to the user being scored', async () => {
+    process.env.SAFETY_CLASSIFIER_ENABLED = 'true';
+    service = await createService();
+    jest.spyOn(service['anthropic'].messages, 'create').mockResolvedValue({
+      content: [{ type: 'text', text: '{"riskLevel":"LOW","reason":"Sad"}' }],
+      usage: { input_tokens: 120, output_tokens: 15 },
+    } as never);
+    usageService.recordUsage.mockResolvedValue(undefined);
+
+    const result = await service.assess('user-1', 'Feeling flat today');
+
+    expect(result.riskLevel).toBe('LOW');
+    expect(usageService.recordUsage).toHaveBeenCalledWith('user-1', {
+      inputTokens: 120,
+      outputTokens: 15,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    });
+  });
+
+  it('announces every recorded event to listeners', async () => {
+    const event = { id: 'event-1', userId: 'user-1', source: 'USER_MESSAGE' };
+    prisma.safetyEvent.create.mockResolvedValue(event);
+    const failing = jest.fn(() => {
+      throw new Error('socket gone');
+    });
+    const listener = jest.fn();
+    service.onEventRecorded(failing);
+    service.onEventRecorded(listener);
+
+    const recorded = await service.recordEvent({
+      userId: 'user-1',
+      source: 'USER_MESSAGE',
+      assessment: {
+        riskLevel: 'HIGH',
+        score: 1,
+        matchedRules: ['want-to-die'],
+        classifierResult: null,
+      },
+      content: 'I want to die',
+    });
+
+    expect(recorded).toBe(event);
+    expect(listener).toHaveBeenCalledWith(event);
+  });
+
+  it('picks crisis resources from the locale region', () => {
+    expect(service.getCrisisResources('en-GB,en;q=0.9').region).toBe('GB');
+    expect(service.getCrisisResources('fr_XX').region).toBe('DEFAULT');
+    expect(service.getCrisisResources().region).toBe('DEFAULT');
+  });
+});
@@ -0,0 +1,79 @@
+import type { ScreenerType } from '../../generated/prisma';
+
+export interface SeverityBand {
+  min: number;
+  max: number;
+  severity: string;
+}
+
+export interface ScreenerDefinition {
+  type: ScreenerType;
+  name: string;
+  instructions: string;
+  items: string[];
+  severityBands: SeverityBand[];
+  // How often the app should offer it again
+  intervalDays: number;
+  // 1-based item that asks about self-harm, if any
+  selfHarmItem?: number;
+}
+
+// Both screeners share the standard 0-3 frequency scale
+export const SCREENER_OPTIONS = [
+  { value: 0, label: 'Not at all' },
+  { value: 1, label: 'Several days' },
+  { value: 2, label: 'More than half the days' },
+  { value: 3, label: 'Nearly every day' },
+];
+
+const TWO_WEEK_INSTRUCTIONS =
+  'Over the last 2 weeks, how often have you been bothered by any of the following problems?';
+
+export const SCREENERS: Record<ScreenerType, ScreenerDefinition> = {
+  PHQ9: {
+    type: 'PHQ9',
+    name: 'PHQ-9',
+    instructions: TWO_WEEK_INSTRUCTIONS,
+    items: [
+      'Little interest or pleasure in doing things',
+      'Feeling down, depressed, or hopeless',
+      'Trouble falling or staying asleep, or sleeping too much',
+      'Feeling tired or having little energy',
+      'Poor appetite or overeating',
+      'Feeling bad about yourself — or that you are a failure or have let yourself or your family down',
+      'Trouble concentrating on things, such as reading the newspaper or watching television',
+      'Moving or speaking so slowly that other people could have noticed? Or the opposite — being so fidgety or restless that you have been moving around a lot more than usual',
+      'Thoughts that you would be better off dead or of hurting yourself in some way',
+    ],
+    severityBands: [
+      { min: 0, max: 4, severity: 'minimal' },
+      { min: 5, max: 9, severity: 'mild' },
+      { min: 10, max: 14, severity: 'moderate' },
+      { min: 15, max: 19, severity: 'moderately severe' },
+      { min: 20, max: 27, severity: 'severe' },
+    ],
+    intervalDays: 14,
+    selfHarmItem: 9,
+  },
+  GAD7: {
+    type: 'GAD7',
+    name: 'GAD-7',
+    instructions: TWO_WEEK_INSTRUCTIONS,
+    items: [
+      'Feeling nervous, anxious, or on edge',
+      'Not being able to stop or control worrying',
+      'Worrying too much about different things',
+      'Trouble relaxing',
+      "Being so restless that it's hard to sit still",
+      'Becoming easily annoyed or irritable',
+      'Feeling afraid as if something awful might happen',
+    ],
+    severityBands: [
+      { min: 0, max: 4, severity: 'minimal' },
+      { min: 5, max: 9, severity: 'mild' },
+      { min: 10, max: 14, severity: 'moderate' },
+      { min: 15, max: 21, severity: 'severe' },
+    ],
+    intervalDays: 14,
+  },
+};
@@ -0,0 +1,15 @@
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class GetScreenerHistoryQueryDto {
+  @IsOptional()
+  @IsIn(['phq9', 'gad7'])
+  type?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
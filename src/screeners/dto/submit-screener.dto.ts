@@ -0,0 +1,11 @@
+import { ArrayNotEmpty, IsArray, IsInt, Max, Min } from 'class-validator';
+
+// ✅ BODY DTO - One 0-3 answer per item, in item order
+export class SubmitScreenerDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(3, { each: true })
+  responses: number[];
+}
@@ -0,0 +1,96 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  AuthGuard,
+  Session,
+  type UserSession,
+} from '@thallesp/nestjs-better-auth';
+import { validateBody } from '../common/validate-body';
+import { ScreenersService } from './screeners.service';
+import { SubmitScreenerDto } from './dto/submit-screener.dto';
+import { GetScreenerHistoryQueryDto } from './dto/get-screener-history-query.dto';
+
+@Controller('screeners')
+@UseGuards(AuthGuard)
+export class ScreenersController {
+  constructor(private readonly screenersService: ScreenersService) {}
+
+  /**
+   * GET /screeners
+   * Available screeners with the latest result and next due date
+   */
+  @Get()
+  async listScreeners(@Session() session: UserSession) {
+    const screeners = await this.screenersService.listScreeners(
+      session.user.id,
+    );
+    return {
+      data: screeners,
+      count: screeners.length,
+    };
+  }
+
+  /**
+   * GET /screeners/history?type=phq9&limit=20
+   * Past results, newest first
+   */
+  @Get('history')
+  async getHistory(@Session() session: UserSession, @Query() query: unknown) {
+    const dto = await validateBody(GetScreenerHistoryQueryDto, query);
+    const results = await this.screenersService.getHistory(
+      session.user.id,
+      dto,
+    );
+    return {
+      data: results,
+      count: results.length,
+    };
+  }
+
+  /**
+   * GET /screeners/:type
+   * Items and answer options for one screener (phq9 or gad7)
+   */
+  @Get(':type')
+  getScreener(@Param('type') type: string) {
+    return {
+      data: this.screenersService.getDefinition(type),
+    };
+  }
+
+  /**
+   * POST /screeners/:type
+   * Submit a completed screener
+   */
+  @Post(':type')
+  @HttpCode(HttpStatus.CREATED)
+  async submitScreener(
+    @Param('type') type: string,
+    @Body() body: unknown,
+    @Session() session: UserSession,
+    @Headers('accept-language') locale?: string,
+  ) {
+    const dto = await validateBody(SubmitScreenerDto, body);
+    const { result, safety } = await this.screenersService.submit(
+      session.user.id,
+      type,
+      dto.responses,
+      locale,
+    );
+    return {
+      message: 'Screener submitted successfully',
+      data: result,
+      safety,
+    };
+  }
+}
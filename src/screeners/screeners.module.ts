@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SafetyModule } from '../safety/safety.module';
+import { ScreenersController } from './screeners.controller';
+import { ScreenersService } from './screeners.service';
+
+@Module({
+  imports: [SafetyModule],
+  controllers: [ScreenersController],
+  providers: [ScreenersService],
+  exports: [ScreenersService],
+})
+export class ScreenersModule {}
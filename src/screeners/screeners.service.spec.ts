@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ScreenersService } from './screeners.service';
+import { SCREENERS } from './constants';
+import { PrismaService } from '../database/database.service';
+import { SafetyService } from '../safety/safety.service';
+
+describe('ScreenersService', () => {
+  let service: ScreenersService;
+  const prisma = {
+    screenerResult: { create: jest.fn(), findMany: jest.fn() },
+  };
+  const safetyService = {
+    recordEvent: jest.fn(),
+    getCrisisResources: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.screenerResult.create.mockImplementation(
+      ({ data }: { data: object }) => ({ id: 'result-1', ...data }),
+    );
+    safetyService.recordEvent.mockResolvedValue({ id: 'event-1' });
+    safetyService.getCrisisResources.mockReturnValue({
+      region: 'US',
+      resources: [],
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScreenersService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SafetyService, useValue: safetyService },
+      ],
+    }).compile();
+
+    service = module.get<ScreenersService>(ScreenersService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it.each([
+    [0, 'minimal'],
+    [9, 'mild'],
+    [10, 'moderate'],
+    [19, 'moderately severe'],
+    [27, 'severe'],
+  ])('bands a PHQ-9 total of %i as %s', (total, severity) => {
+    expect(service.severityFor(SCREENERS.PHQ9, total)).toBe(severity);
+  });
+
+  it('scores a GAD-7 submission', async () => {
+    const { result, safety } = await service.submit(
+      'user-1',
+      'gad7',
+      [2, 2, 1, 1, 2, 1, 2],
+    );
+
+    expect(result).toMatchObject({
+      type: 'GAD7',
+      totalScore: 11,
+      severity: 'moderate',
+      selfHarmFlag: false,
+    });
+    expect(safety).toBeNull();
+  });
+
+  it('escalates a positive PHQ-9 self-harm item', async () => {
+    const { result, safety } = await service.submit(
+      'user-1',
+      'phq9',
+      [1, 1, 1, 1, 1, 1, 1, 1, 3],
+      'en-US',
+    );
+
+    expect(result.selfHarmFlag).toBe(true);
+    expect(safetyService.recordEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        source: 'SCREENER',
+        locale: 'en-US',
+      }),
+    );
+    expect(safety).toMatchObject({ riskLevel: 'HIGH', eventIds: ['event-1'] });
+  });
+
+  it('records a lower risk level for "several days"', async () => {
+    const { safety } = await service.submit(
+      'user-1',
+      'phq9',
+      [0, 0, 0, 0, 0, 0, 0, 0, 1],
+    );
+
+    expect(safety?.riskLevel).toBe('MEDIUM');
+  });
+
+  it('rejects the wrong number of responses', async () => {
+    await expect(service.submit('user-1', 'phq9', [1, 2])).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects unknown screeners', () => {
+    expect(() => service.getDefinition('bdi')).toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { addDays } from 'date-fns';
+import { PrismaService } from '../database/database.service';
+import { SafetyService } from '../safety/safety.service';
+import { CrisisResource, RISK_LEVEL_SCORES } from '../safety/constants';
+import type {
+  RiskLevel,
+  ScreenerResult,
+  ScreenerType,
+} from '../../generated/prisma';
+import { SCREENER_OPTIONS, SCREENERS, ScreenerDefinition } from './constants';
+import { GetScreenerHistoryQueryDto } from './dto/get-screener-history-query.dto';
+
+export interface ScreenerSafetyAlert {
+  riskLevel: RiskLevel;
+  region: string;
+  resources: CrisisResource[];
+  eventIds: string[];
+}
+
+export interface LatestScreenerResult {
+  type: ScreenerType;
+  totalScore: number;
+  severity: string;
+  createdAt: Date;
+}
+
+@Injectable()
+export class ScreenersService {
+  private readonly logger = new Logger(ScreenersService.name);
+  // Lowest self-harm item answer that raises a safety event (1 = "Several days")
+  private readonly selfHarmThreshold: number;
+  // Answers at or above this are recorded as HIGH risk, below it as MEDIUM
+  private readonly selfHarmHighRiskAt: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly safetyService: SafetyService,
+  ) {
+    this.selfHarmThreshold = Number(
+      process.env.SCREENER_SELF_HARM_THRESHOLD ?? 1,
+    );
+    this.selfHarmHighRiskAt = Number(
+      process.env.SCREENER_SELF_HARM_HIGH_RISK_AT ?? 2,
+    );
+  }
+
+  /**
+   * Screener from a route param such as "phq9"
+   */
+  getDefinition(type: string): ScreenerDefinition & {
+    options: typeof SCREENER_OPTIONS;
+  } {
+    const definition = SCREENERS[type.toUpperCase() as ScreenerType];
+    if (!definition) {
+      throw new NotFoundException(`Unknown screener: ${type}`);
+    }
+    return { ...definition, options: SCREENER_OPTIONS };
+  }
+
+  /**
+   * Every screener with the user's latest result and when it's next due
+   */
+  async listScreeners(userId: string) {
+    const latest = await this.getLatestResults(userId);
+
+    return Object.values(SCREENERS).map((definition) => {
+      const last = latest.find((result) => result.type === definition.type);
+      const dueAt = last
+        ? addDays(last.createdAt, definition.intervalDays)
+        : new Date();
+
+      return {
+        type: definition.type,
+        name: definition.name,
+        itemCount: definition.items.length,
+        lastResult: last ?? null,
+        dueAt,
+        isDue: dueAt <= new Date(),
+      };
+    });
+  }
+
+  async submit(
+    userId: string,
+    type: string,
+    responses: number[],
+    locale?: string,
+  ): Promise<{ result: ScreenerResult; safety: ScreenerSafetyAlert | null }> {
+    const definition = this.getDefinition(type);
+    this.validateResponses(definition, responses);
+
+    const totalScore = responses.reduce((sum, value) => sum + value, 0);
+    const selfHarmResponse = definition.selfHarmItem
+      ? responses[definition.selfHarmItem - 1]
+      : 0;
+    const selfHarmFlag =
+      !!definition.selfHarmItem && selfHarmResponse >= this.selfHarmThreshold;
+
+    const result = await this.prisma.screenerResult.create({
+      data: {
+        userId,
+        type: definition.type,
+        responses,
+        totalScore,
+        severity: this.severityFor(definition, totalScore),
+        selfHarmFlag,
+      },
+    });
+
+    const safety = selfHarmFlag
+      ? await this.handleSelfHarmResponse(
+          userId,
+          definition,
+          selfHarmResponse,
+          locale,
+        )
+      : null;
+
+    return { result, safety };
+  }
+
+  async getHistory(userId: string, query: GetScreenerHistoryQueryDto = {}) {
+    const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 100);
+
+    return this.prisma.screenerResult.findMany({
+      where: {
+        userId,
+        ...(query.type && {
+          type: this.getDefinition(query.type).type,
+        }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        type: true,
+        totalScore: true,
+        severity: true,
+        selfHarmFlag: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  /**
+   * Most recent result per screener type
+   */
+  async getLatestResults(userId: string): Promise<LatestScreenerResult[]> {
+    return this.prisma.screenerResult.findMany({
+      where: { userId },
+      distinct: ['type'],
+      orderBy: { createdAt: 'desc' },
+      select: {
+        type: true,
+        totalScore: true,
+        severity: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  severityFor(definition: ScreenerDefinition, totalScore: number): string {
+    const band = definition.severityBands.find(
+      (b) => totalScore >= b.min && totalScore <= b.max,
+    );
+    return band?.severity ?? 'unknown';
+  }
+
+  private validateResponses(
+    definition: ScreenerDefinition,
+    responses: number[],
+  ) {
+    if (
+      !Array.isArray(responses) ||
+      responses.length !== definition.items.length
+    ) {
+      throw new BadRequestException(
+        `${definition.name} needs exactly ${definition.items.length} responses`,
+      );
+    }
+
+    const values = SCREENER_OPTIONS.map((option) => option.value);
+    if (responses.some((value) => !values.includes(value))) {
+      throw new BadRequestException(
+        `Responses must be one of: ${values.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Record a safety event for follow-up and hand crisis resources back to
+   * the app, the same way high-risk chat messages are handled
+   */
+  private async handleSelfHarmResponse(
+    userId: string,
+    definition: ScreenerDefinition,
+    response: number,
+    locale?: string,
+  ): Promise<ScreenerSafetyAlert> {
+    const riskLevel: RiskLevel =
+      response >= this.selfHarmHighRiskAt ? 'HIGH' : 'MEDIUM';
+    const item = definition.items[definition.selfHarmItem! - 1];
+    const answer = SCREENER_OPTIONS[response].label;
+
+    const event = await this.safetyService.recordEvent({
+      userId,
+      source: 'SCREENER',
+      assessment: {
+        riskLevel,
+        score: RISK_LEVEL_SCORES[riskLevel],
+        matchedRules: [`${definition.type.toLowerCase()}-self-harm-item`],
+        classifierResult: null,
+      },
+      content: `${definition.name} item ${definition.selfHarmItem}: "${item}" - ${answer}`,
+      locale,
+    });
+
+    this.logger.warn(
+      `${definition.name} self-harm item answered ${response} by user ${userId}`,
+    );
+
+    const { region, resources } = this.safetyService.getCrisisResources(locale);
+    return { riskLevel, region, resources, eventIds: [event.id] };
+  }
+}
@@ -0,0 +1,21 @@
+export interface TokenQuota {
+  daily: number;
+  monthly: number;
+}
+
+/**
+ * Token quotas by User.planTier (input + output tokens).
+ * Override with TOKEN_QUOTAS='{"free":{"daily":50000,"monthly":500000}}'
+ */
+export const DEFAULT_TOKEN_QUOTAS: Record<string, TokenQuota> = {
+  free: { daily: 50_000, monthly: 600_000 },
+  premium: { daily: 250_000, monthly: 4_000_000 },
+};
+
+// USD per million tokens, used to estimate spend for the global breaker
+export const DEFAULT_TOKEN_PRICING = {
+  inputPerMTok: 3,
+  outputPerMTok: 15,
+  cacheWriteMultiplier: 1.25,
+  cacheReadMultiplier: 0.1,
+};
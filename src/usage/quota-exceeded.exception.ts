@@ -0,0 +1,24 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export type QuotaScope = 'daily' | 'monthly' | 'global';
+
+export class QuotaExceededException extends HttpException {
+  constructor(
+    readonly scope: QuotaScope,
+    readonly resetAt: Date,
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        code: 'QUOTA_EXCEEDED',
+        scope,
+        resetAt: resetAt.toISOString(),
+        message:
+          scope === 'global'
+            ? 'Chat is temporarily unavailable. Please try again later.'
+            : `You've reached your ${scope} chat limit. It resets at ${resetAt.toISOString()}.`,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UsageService } from './usage.service';
+import { QuotaExceededException } from './quota-exceeded.exception';
+import { PrismaService } from '../database/database.service';
+
+describe('UsageService', () => {
+  let service: UsageService;
+  const prisma = {
+    user: { findUnique: jest.fn() },
+    tokenUsageDaily: {
+      findMany: jest.fn(),
+      aggregate: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [UsageService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<UsageService>(UsageService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('reports remaining daily and monthly budget for the plan tier', async () => {
+    const now = new Date('2026-03-15T12:00:00Z');
+    prisma.user.findUnique.mockResolvedValue({ planTier: 'free' });
+    prisma.tokenUsageDaily.findMany.mockResolvedValue([
+      {
+        date: new Date('2026-03-15T00:00:00Z'),
+        inputTokens: 9000,
+        outputTokens: 1000,
+      },
+      {
+        date: new Date('2026-03-02T00:00:00Z'),
+        inputTokens: 90000,
+        outputTokens: 10000,
+      },
+    ]);
+
+    const usage = await service.getUsage('user-1', now);
+
+    expect(usage.daily).toMatchObject({ used: 10000, remaining: 40000 });
+    expect(usage.daily.resetAt.toISOString()).toBe('2026-03-16T00:00:00.000Z');
+    expect(usage.monthly).toMatchObject({ used: 110000, remaining: 490000 });
+    expect(usage.monthly.resetAt.toISOString()).toBe(
+      '2026-04-01T00:00:00.000Z',
+    );
+  });
+
+  it('rejects requests once the daily quota is spent', async () => {
+    prisma.user.findUnique.mockResolvedValue({ planTier: 'free' });
+    prisma.tokenUsageDaily.findMany.mockImplementation(() => {
+      const today = new Date();
+      return Promise.resolve([
+        {
+          date: new Date(
+            Date.UTC(
+              today.getUTCFullYear(),
+              today.getUTCMonth(),
+              today.getUTCDate(),
+            ),
+          ),
+          inputTokens: 50000,
+          outputTokens: 0,
+        },
+      ]);
+    });
+
+    await expect(service.assertWithinQuota('user-1')).rejects.toBeInstanceOf(
+      QuotaExceededException,
+    );
+  });
+});
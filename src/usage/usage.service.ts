@@ -0,0 +1,210 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../database/database.service';
+import {
+  DEFAULT_TOKEN_PRICING,
+  DEFAULT_TOKEN_QUOTAS,
+  TokenQuota,
+} from './constants';
+import { QuotaExceededException } from './quota-exceeded.exception';
+
+export interface TokenUsageInput {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+// How long the organization-wide spend total is reused before re-querying
+const GLOBAL_SPEND_CACHE_MS = 60 * 1000;
+
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly quotas: Record<string, TokenQuota>;
+  private readonly globalMonthlySpendLimitUsd: number | null;
+  private globalSpendCache: { monthStart: number; spend: number; at: number } =
+    { monthStart: 0, spend: 0, at: 0 };
+
+  constructor(private readonly prisma: PrismaService) {
+    this.quotas = {
+      ...DEFAULT_TOKEN_QUOTAS,
+      ...this.parseQuotas(process.env.TOKEN_QUOTAS),
+    };
+    this.globalMonthlySpendLimitUsd =
+      Number(process.env.GLOBAL_MONTHLY_SPEND_LIMIT_USD) || null;
+  }
+
+  /**
+   * Throws QuotaExceededException when the user, or the organization as a
+   * whole, has no budget left for another chat request
+   */
+  async assertWithinQuota(userId: string): Promise<void> {
+    const now = new Date();
+
+    if (this.globalMonthlySpendLimitUsd !== null) {
+      const spend = await this.getGlobalMonthlySpend(now);
+      if (spend >= this.globalMonthlySpendLimitUsd) {
+        this.logger.error(
+          `Global spend breaker open: $${spend.toFixed(2)} of $${this.globalMonthlySpendLimitUsd}`,
+        );
+        throw new QuotaExceededException('global', this.startOfNextMonth(now));
+      }
+    }
+
+    const usage = await this.getUsage(userId, now);
+
+    if (usage.daily.remaining <= 0) {
+      throw new QuotaExceededException('daily', usage.daily.resetAt);
+    }
+
+    if (usage.monthly.remaining <= 0) {
+      throw new QuotaExceededException('monthly', usage.monthly.resetAt);
+    }
+  }
+
+  /**
+   * Add a request's tokens to today's ledger row
+   */
+  async recordUsage(userId: string, tokens: TokenUsageInput): Promise<void> {
+    const date = this.startOfDay(new Date());
+    const costUsd = this.estimateCost(tokens);
+
+    await this.prisma.tokenUsageDaily.upsert({
+      where: { userId_date: { userId, date } },
+      create: {
+        userId,
+        date,
+        inputTokens: tokens.inputTokens,
+        outputTokens: tokens.outputTokens,
+        cacheCreationTokens: tokens.cacheCreationInputTokens,
+        cacheReadTokens: tokens.cacheReadInputTokens,
+        requests: 1,
+        costUsd,
+      },
+      update: {
+        inputTokens: { increment: tokens.inputTokens },
+        outputTokens: { increment: tokens.outputTokens },
+        cacheCreationTokens: { increment: tokens.cacheCreationInputTokens },
+        cacheReadTokens: { increment: tokens.cacheReadInputTokens },
+        requests: { increment: 1 },
+        costUsd: { increment: costUsd },
+      },
+    });
+
+    this.globalSpendCache.spend += costUsd;
+  }
+
+  /**
+   * Used and remaining tokens for the current UTC day and month
+   */
+  async getUsage(userId: string, now = new Date()) {
+    const dayStart = this.startOfDay(now);
+    const monthStart = this.startOfMonth(now);
+
+    const [user, rows] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { planTier: true },
+      }),
+      this.prisma.tokenUsageDaily.findMany({
+        where: { userId, date: { gte: monthStart } },
+        select: { date: true, inputTokens: true, outputTokens: true },
+      }),
+    ]);
+
+    const planTier = user?.planTier ?? 'free';
+    const quota = this.quotas[planTier] ?? this.quotas.free;
+
+    const monthlyUsed = rows.reduce(
+      (sum, row) => sum + row.inputTokens + row.outputTokens,
+      0,
+    );
+    const dailyUsed = rows
+      .filter((row) => row.date.getTime() === dayStart.getTime())
+      .reduce((sum, row) => sum + row.inputTokens + row.outputTokens, 0);
+
+    return {
+      planTier,
+      daily: {
+        used: dailyUsed,
+        limit: quota.daily,
+        remaining: Math.max(quota.daily - dailyUsed, 0),
+        resetAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+      },
+      monthly: {
+        used: monthlyUsed,
+        limit: quota.monthly,
+        remaining: Math.max(quota.monthly - monthlyUsed, 0),
+        resetAt: this.startOfNextMonth(now),
+      },
+    };
+  }
+
+  private async getGlobalMonthlySpend(now: Date): Promise<number> {
+    const monthStart = this.startOfMonth(now).getTime();
+    const cache = this.globalSpendCache;
+
+    if (
+      cache.monthStart === monthStart &&
+      Date.now() - cache.at < GLOBAL_SPEND_CACHE_MS
+    ) {
+      return cache.spend;
+    }
+
+    const result = await this.prisma.tokenUsageDaily.aggregate({
+      where: { date: { gte: new Date(monthStart) } },
+      _sum: { costUsd: true },
+    });
+
+    this.globalSpendCache = {
+      monthStart,
+      spend: result._sum.costUsd ?? 0,
+      at: Date.now(),
+    };
+    return this.globalSpendCache.spend;
+  }
+
+  private estimateCost(tokens: TokenUsageInput): number {
+    const pricing = DEFAULT_TOKEN_PRICING;
+    const inputPrice =
+      (Number(process.env.ANTHROPIC_INPUT_COST_PER_MTOK) ||
+        pricing.inputPerMTok) / 1_000_000;
+    const outputPrice =
+      (Number(process.env.ANTHROPIC_OUTPUT_COST_PER_MTOK) ||
+        pricing.outputPerMTok) / 1_000_000;
+
+    return (
+      tokens.inputTokens * inputPrice +
+      tokens.cacheCreationInputTokens *
+        inputPrice *
+        pricing.cacheWriteMultiplier +
+      tokens.cacheReadInputTokens * inputPrice * pricing.cacheReadMultiplier +
+      tokens.outputTokens * outputPrice
+    );
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+  }
+
+  private startOfMonth(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+
+  private startOfNextMonth(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+  }
+
+  private parseQuotas(raw?: string): Record<string, TokenQuota> {
+    if (!raw) return {};
+
+    try {
+      return JSON.parse(raw) as Record<string, TokenQuota>;
+    } catch {
+      this.logger.error('TOKEN_QUOTAS is not valid JSON - using defaults');
+      return {};
+    }
+  }
+}